@@ -0,0 +1,21 @@
+const fs = require('fs');
+const path = require('path');
+
+// The WebView loads Mermaid from media/ so diagrams render without network access
+const root = path.join(__dirname, '..');
+const target = path.join(root, 'media', 'mermaid.min.js');
+
+let source;
+try {
+    source = require.resolve('mermaid/dist/mermaid.min.js', { paths: [root] });
+} catch (e) {
+    if (fs.existsSync(target)) {
+        // Already bundled (e.g. building from a packaged copy without devDependencies)
+        process.exit(0);
+    }
+    console.error('Error: mermaid is not installed. Run `npm install` first.');
+    process.exit(1);
+}
+
+fs.copyFileSync(source, target);
+console.log(`Copied ${path.relative(root, source)} to ${path.relative(root, target)}`);
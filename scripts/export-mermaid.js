@@ -3,12 +3,12 @@ const { spawnSync } = require('child_process');
 const path = require('path');
 
 const root = process.cwd();
-const inputFenced = path.join(root, 'wholeflow.mmd');
+const inputFenced = path.join(root, 'wholeflow.md');
 const inputRaw = path.join(root, 'wholeflow_raw.mmd');
 const outSvg = path.join(root, 'wholeflow.svg');
 
 if (!fs.existsSync(inputFenced)) {
-    console.error('Error: wholeflow.mmd not found in the workspace root. Run `npm run generate-flow` first.');
+    console.error('Error: wholeflow.md not found in the workspace root. Run `npm run generate-flow` first.');
     process.exit(1);
 }
 
@@ -25,7 +25,7 @@ if (match && match[1]) {
 }
 
 if (!mermaidText || mermaidText.trim().length === 0) {
-    console.error('No mermaid content found in wholeflow.mmd');
+    console.error('No mermaid content found in wholeflow.md');
     process.exit(1);
 }
 
@@ -0,0 +1,211 @@
+import * as path from 'path';
+import { makeId } from './graph';
+import { CallSite, isParsableFile, parseSource, ParsedFile, SymbolInfo, SymbolKind } from './parser';
+import { ImportResolver } from './resolver';
+
+/**
+ * Minimal file description the call graph needs: absolute path, display name and source text
+ */
+export interface CallGraphFile {
+    path: string;
+    name: string;
+    content: string;
+}
+
+/**
+ * A function-to-function call resolved across files
+ */
+export interface CallEdge {
+    fromFile: string;
+    /** Calling symbol name, or null for module top-level code */
+    from: string | null;
+    toFile: string;
+    to: string;
+    toKind: SymbolKind;
+    line: number;
+}
+
+/**
+ * A parsed file and its symbols by name
+ */
+export interface ParsedEntry {
+    file: CallGraphFile;
+    parsed: ParsedFile;
+    symbols: Map<string, SymbolInfo>;
+}
+
+/**
+ * The function, method or class a call site resolves to
+ */
+export interface ResolvedCall {
+    entry: ParsedEntry;
+    symbol: SymbolInfo;
+}
+
+/**
+ * Parsed files and the lookup of call targets across them
+ */
+export interface CallResolver {
+    /** JavaScript and TypeScript files by absolute path */
+    entries: Map<string, ParsedEntry>;
+    /** Finds what a call site in the given file calls; null for calls that cannot be resolved */
+    resolveCall(entry: ParsedEntry, call: CallSite): ResolvedCall | null;
+}
+
+const MAX_REEXPORT_DEPTH = 5;
+
+/**
+ * Parses the given files and resolves call sites to the functions they call, using import
+ * bindings to follow calls into other files
+ * @param files - Files to analyze; only JavaScript and TypeScript files are parsed
+ * @param resolveImport - Resolves an import specifier to a file path
+ */
+export function createCallResolver(files: CallGraphFile[], resolveImport: ImportResolver): CallResolver {
+    const entries = new Map<string, ParsedEntry>();
+    for (const f of files) {
+        if (!isParsableFile(f.path)) continue;
+        const parsed = parseSource(f.content, f.path);
+        entries.set(path.resolve(f.path), { file: f, parsed, symbols: new Map(parsed.symbols.map(s => [s.name, s])) });
+    }
+
+    function resolveIn(fromFile: string, specifier: string): ParsedEntry | undefined {
+        const resolved = resolveImport(fromFile, specifier);
+        return resolved ? entries.get(path.resolve(resolved)) : undefined;
+    }
+
+    /**
+     * Finds the symbol a module exports under `name`, following re-exports
+     */
+    function lookupExport(entry: ParsedEntry, name: string, depth = 0): ResolvedCall | null {
+        if (depth > MAX_REEXPORT_DEPTH) return null;
+        const own = name === 'default'
+            ? entry.parsed.symbols.find(s => s.isDefault)
+            : entry.parsed.symbols.find(s => s.name === name && s.exported);
+        if (own) return { entry, symbol: own };
+
+        for (const imp of entry.parsed.imports) {
+            if (imp.kind === 're-export') {
+                const binding = imp.bindings.find(b => b.local === name);
+                if (!binding || binding.imported === '*') continue;
+                const target = resolveIn(entry.file.path, imp.specifier);
+                const found = target && lookupExport(target, binding.imported, depth + 1);
+                if (found) return found;
+            } else if (imp.kind === 'export-all' && name !== 'default') {
+                const target = resolveIn(entry.file.path, imp.specifier);
+                const found = target && lookupExport(target, name, depth + 1);
+                if (found) return found;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Picks the node to draw for a class: its constructor when it has one, otherwise the class itself
+     */
+    function classTarget(entry: ParsedEntry, symbol: SymbolInfo): SymbolInfo {
+        return (symbol.kind === 'class' && entry.symbols.get(`${symbol.name}.constructor`)) || symbol;
+    }
+
+    function resolveCall(entry: ParsedEntry, call: CallSite): ResolvedCall | null {
+        const [head, member] = call.callee;
+        const bindings = entry.parsed.imports.filter(i => i.kind !== 're-export').flatMap(i => i.bindings.map(b => ({ imp: i, binding: b })));
+
+        if (head === 'this') {
+            if (call.callee.length !== 2 || !call.caller || !call.caller.includes('.')) return null;
+            const symbol = entry.symbols.get(`${call.caller.split('.')[0]}.${member}`);
+            return symbol ? { entry, symbol } : null;
+        }
+
+        if (call.callee.length === 1) {
+            const local = entry.symbols.get(head);
+            if (local && (local.kind === 'function' || local.kind === 'class')) {
+                return { entry, symbol: classTarget(entry, local) };
+            }
+            const bound = bindings.find(b => b.binding.local === head);
+            const target = bound && resolveIn(entry.file.path, bound.imp.specifier);
+            const found = target && bound && lookupExport(target, bound.binding.imported === '*' ? 'default' : bound.binding.imported);
+            return found ? { entry: found.entry, symbol: classTarget(found.entry, found.symbol) } : null;
+        }
+
+        if (call.callee.length === 2) {
+            // Static method on a local class
+            const local = entry.symbols.get(`${head}.${member}`);
+            if (local) return { entry, symbol: local };
+
+            const bound = bindings.find(b => b.binding.local === head);
+            const target = bound && resolveIn(entry.file.path, bound.imp.specifier);
+            if (!target || !bound) return null;
+            if (bound.binding.imported === '*') {
+                // Namespace import: ns.fn()
+                return lookupExport(target, member);
+            }
+            // Static method on an imported class: Cls.fn()
+            const cls = lookupExport(target, bound.binding.imported);
+            const method = cls && cls.entry.symbols.get(`${cls.symbol.name}.${member}`);
+            return cls && method ? { entry: cls.entry, symbol: method } : null;
+        }
+        return null;
+    }
+
+    return { entries, resolveCall };
+}
+
+/**
+ * Resolves every call site in the given files to the function it calls, using import bindings
+ * to follow calls into other files
+ * @param files - Files to analyze; only JavaScript and TypeScript files are parsed
+ * @param resolveImport - Resolves an import specifier to a file path
+ * @returns Deduplicated caller → callee edges
+ */
+export function buildCallGraph(files: CallGraphFile[], resolveImport: ImportResolver): CallEdge[] {
+    const { entries, resolveCall } = createCallResolver(files, resolveImport);
+    const edges: CallEdge[] = [];
+    const seen = new Set<string>();
+    for (const entry of entries.values()) {
+        for (const call of entry.parsed.calls) {
+            const target = resolveCall(entry, call);
+            if (!target) continue;
+            const edge: CallEdge = { fromFile: entry.file.name, from: call.caller, toFile: target.entry.file.name, to: target.symbol.name, toKind: target.symbol.kind, line: call.line };
+            if (edge.fromFile === edge.toFile && edge.from === edge.to) continue;
+            const key = `${edge.fromFile}|${edge.from}|${edge.toFile}|${edge.to}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            edges.push(edge);
+        }
+    }
+    return edges;
+}
+
+/**
+ * Converts resolved call edges into a Mermaid flowchart with one subgraph per file
+ * @param edges - Edges from buildCallGraph
+ * @returns Mermaid flowchart syntax as a string
+ */
+export function convertCallGraphToFlowchart(edges: CallEdge[]): string {
+    const nodeId = (file: string, symbol: string | null) => makeId(file + '_' + (symbol || 'module'));
+
+    // Only functions that take part in at least one call are drawn
+    const byFile = new Map<string, Map<string | null, SymbolKind>>();
+    for (const e of edges) {
+        if (!byFile.has(e.fromFile)) byFile.set(e.fromFile, new Map());
+        if (!byFile.has(e.toFile)) byFile.set(e.toFile, new Map());
+        const callers = byFile.get(e.fromFile)!;
+        if (!callers.has(e.from)) callers.set(e.from, 'function');
+        byFile.get(e.toFile)!.set(e.to, e.toKind);
+    }
+
+    let mermaidCode = 'flowchart TD\n';
+    for (const [file, symbols] of byFile) {
+        mermaidCode += `    subgraph ${makeId(file)}[${file}]\n`;
+        for (const [symbol, kind] of symbols) {
+            const label = !symbol ? '(top level)' : kind === 'class' ? `class: ${symbol}` : `fn: ${symbol}`;
+            mermaidCode += `        ${nodeId(file, symbol)}["${label}"]\n`;
+        }
+        mermaidCode += '    end\n';
+    }
+
+    for (const e of edges) {
+        mermaidCode += `    ${nodeId(e.fromFile, e.from)} --> ${nodeId(e.toFile, e.to)}\n`;
+    }
+    return mermaidCode;
+}
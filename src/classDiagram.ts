@@ -0,0 +1,310 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { createSourceFile, isParsableFile } from './parser';
+import { FileInfo } from './scanner';
+
+export type Visibility = 'public' | 'protected' | 'private';
+
+/**
+ * A property or method of a class or interface
+ */
+export interface ClassMember {
+    name: string;
+    kind: 'property' | 'method';
+    visibility: Visibility;
+    /** Declared type of a property, or return type of a method, as written in the source */
+    type?: string;
+    /** Parameters of a method as `name: type` */
+    parameters?: string[];
+    isStatic: boolean;
+    isAbstract: boolean;
+}
+
+/**
+ * A class or interface declared at the top level of a file
+ */
+export interface ClassModel {
+    name: string;
+    kind: 'class' | 'interface';
+    /** Type parameters as written, e.g. `T, K extends string` */
+    typeParameters?: string;
+    isAbstract: boolean;
+    /** Names of the extended classes (for interfaces: interfaces) */
+    extends: string[];
+    implements: string[];
+    members: ClassMember[];
+    /** Display name of the declaring file, relative to the scanned folder */
+    file: string;
+    /** Absolute path of the declaring file */
+    path: string;
+    /** 1-based line of the declaration */
+    line: number;
+}
+
+/**
+ * A Mermaid class diagram and the class drawn by each node, for click navigation
+ */
+export interface ClassDiagram {
+    mermaid: string;
+    /** Node id → class */
+    nodes: Record<string, ClassModel>;
+}
+
+const MAX_TYPE_LENGTH = 40;
+
+/**
+ * Collection types whose elements count as "many" in a composition
+ */
+const COLLECTION_TYPES = new Set(['Array', 'ReadonlyArray', 'Set', 'ReadonlySet', 'Map', 'ReadonlyMap', 'Record', 'WeakMap', 'WeakSet']);
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+    return !!modifiers && modifiers.some(m => m.kind === kind);
+}
+
+function visibilityOf(node: ts.Node, name: ts.Node | undefined): Visibility {
+    if (hasModifier(node, ts.SyntaxKind.PrivateKeyword) || (name && ts.isPrivateIdentifier(name))) return 'private';
+    if (hasModifier(node, ts.SyntaxKind.ProtectedKeyword)) return 'protected';
+    return 'public';
+}
+
+function typeText(node: ts.TypeNode | undefined, sourceFile: ts.SourceFile): string | undefined {
+    return node ? node.getText(sourceFile).replace(/\s+/g, ' ') : undefined;
+}
+
+/**
+ * Guesses the type of an unannotated property from its initializer: literals and `new X()`
+ */
+function initializerType(node: ts.Expression | undefined): string | undefined {
+    if (!node) return undefined;
+    if (ts.isStringLiteralLike(node) || ts.isTemplateExpression(node)) return 'string';
+    if (ts.isNumericLiteral(node)) return 'number';
+    if (node.kind === ts.SyntaxKind.TrueKeyword || node.kind === ts.SyntaxKind.FalseKeyword) return 'boolean';
+    if (ts.isNewExpression(node) && ts.isIdentifier(node.expression)) return node.expression.text;
+    return undefined;
+}
+
+function parametersOf(fn: ts.SignatureDeclarationBase, sourceFile: ts.SourceFile): string[] {
+    return fn.parameters.map(p => {
+        const name = p.name.getText(sourceFile).replace(/\s+/g, ' ');
+        const type = typeText(p.type, sourceFile);
+        return `${p.dotDotDotToken ? '...' : ''}${name}${p.questionToken ? '?' : ''}${type ? ': ' + type : ''}`;
+    });
+}
+
+/**
+ * Names in an `extends` or `implements` clause, without type arguments or namespaces
+ */
+function heritageNames(clauses: ts.NodeArray<ts.HeritageClause> | undefined, token: ts.SyntaxKind): string[] {
+    const names: string[] = [];
+    for (const clause of clauses || []) {
+        if (clause.token !== token) continue;
+        for (const t of clause.types) {
+            const expr = t.expression;
+            if (ts.isIdentifier(expr)) names.push(expr.text);
+            else if (ts.isPropertyAccessExpression(expr)) names.push(expr.name.text);
+        }
+    }
+    return names;
+}
+
+function memberName(name: ts.PropertyName, sourceFile: ts.SourceFile): string {
+    return ts.isPrivateIdentifier(name) ? name.text.slice(1) : name.getText(sourceFile);
+}
+
+function classMembers(decl: ts.ClassDeclaration, sourceFile: ts.SourceFile): ClassMember[] {
+    const members: ClassMember[] = [];
+    const modifiers = (node: ts.Node) => ({
+        isStatic: hasModifier(node, ts.SyntaxKind.StaticKeyword),
+        isAbstract: hasModifier(node, ts.SyntaxKind.AbstractKeyword)
+    });
+    for (const m of decl.members) {
+        if (ts.isPropertyDeclaration(m)) {
+            const init = m.initializer;
+            if (init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init))) {
+                members.push({ name: memberName(m.name, sourceFile), kind: 'method', visibility: visibilityOf(m, m.name), type: typeText(init.type, sourceFile), parameters: parametersOf(init, sourceFile), ...modifiers(m) });
+            } else {
+                members.push({ name: memberName(m.name, sourceFile), kind: 'property', visibility: visibilityOf(m, m.name), type: typeText(m.type, sourceFile) || initializerType(init), ...modifiers(m) });
+            }
+        } else if (ts.isMethodDeclaration(m)) {
+            members.push({ name: memberName(m.name, sourceFile), kind: 'method', visibility: visibilityOf(m, m.name), type: typeText(m.type, sourceFile), parameters: parametersOf(m, sourceFile), ...modifiers(m) });
+        } else if (ts.isGetAccessorDeclaration(m)) {
+            // A getter reads like a property; its setter adds nothing to the diagram
+            members.push({ name: memberName(m.name, sourceFile), kind: 'property', visibility: visibilityOf(m, m.name), type: typeText(m.type, sourceFile), ...modifiers(m) });
+        } else if (ts.isConstructorDeclaration(m)) {
+            // Parameter properties (`constructor(private repo: Repo)`) are fields, usually injected dependencies
+            for (const p of m.parameters) {
+                const modifiers = ts.getModifiers(p);
+                if (!modifiers || modifiers.length === 0 || !ts.isIdentifier(p.name)) continue;
+                members.push({ name: p.name.text, kind: 'property', visibility: visibilityOf(p, undefined), type: typeText(p.type, sourceFile), isStatic: false, isAbstract: false });
+            }
+            if (m.parameters.length > 0) {
+                members.push({ name: 'constructor', kind: 'method', visibility: visibilityOf(m, undefined), parameters: parametersOf(m, sourceFile), isStatic: false, isAbstract: false });
+            }
+        }
+    }
+    return members;
+}
+
+function interfaceMembers(decl: ts.InterfaceDeclaration, sourceFile: ts.SourceFile): ClassMember[] {
+    const members: ClassMember[] = [];
+    for (const m of decl.members) {
+        if (!m.name) continue;
+        const name = memberName(m.name, sourceFile);
+        if (ts.isPropertySignature(m)) {
+            members.push({ name, kind: 'property', visibility: 'public', type: typeText(m.type, sourceFile), isStatic: false, isAbstract: false });
+        } else if (ts.isMethodSignature(m)) {
+            members.push({ name, kind: 'method', visibility: 'public', type: typeText(m.type, sourceFile), parameters: parametersOf(m, sourceFile), isStatic: false, isAbstract: false });
+        }
+    }
+    return members;
+}
+
+/**
+ * Finds the top-level classes and interfaces of a JavaScript or TypeScript file with their members
+ * and heritage clauses
+ * @param content - The source text
+ * @param filePath - Absolute path of the file
+ * @param name - Display name of the file
+ */
+export function extractClasses(content: string, filePath: string, name: string): ClassModel[] {
+    const sourceFile = createSourceFile(filePath, content);
+    const classes: ClassModel[] = [];
+    const lineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+    for (const stmt of sourceFile.statements) {
+        if (ts.isClassDeclaration(stmt)) {
+            classes.push({
+                name: stmt.name ? stmt.name.text : path.basename(filePath, path.extname(filePath)),
+                kind: 'class',
+                typeParameters: stmt.typeParameters && stmt.typeParameters.map(t => t.getText(sourceFile)).join(', '),
+                isAbstract: hasModifier(stmt, ts.SyntaxKind.AbstractKeyword),
+                extends: heritageNames(stmt.heritageClauses, ts.SyntaxKind.ExtendsKeyword),
+                implements: heritageNames(stmt.heritageClauses, ts.SyntaxKind.ImplementsKeyword),
+                members: classMembers(stmt, sourceFile),
+                file: name,
+                path: filePath,
+                line: lineOf(stmt)
+            });
+        } else if (ts.isInterfaceDeclaration(stmt)) {
+            // Declaration merging: a second `interface X` adds members to the first
+            const existing = classes.find(c => c.kind === 'interface' && c.name === stmt.name.text);
+            if (existing) {
+                existing.members.push(...interfaceMembers(stmt, sourceFile));
+                existing.extends.push(...heritageNames(stmt.heritageClauses, ts.SyntaxKind.ExtendsKeyword));
+                continue;
+            }
+            classes.push({
+                name: stmt.name.text,
+                kind: 'interface',
+                typeParameters: stmt.typeParameters && stmt.typeParameters.map(t => t.getText(sourceFile)).join(', '),
+                isAbstract: false,
+                extends: heritageNames(stmt.heritageClauses, ts.SyntaxKind.ExtendsKeyword),
+                implements: [],
+                members: interfaceMembers(stmt, sourceFile),
+                file: name,
+                path: filePath,
+                line: lineOf(stmt)
+            });
+        }
+    }
+    return classes;
+}
+
+/**
+ * Collects the classes and interfaces of every JavaScript and TypeScript file in a scan
+ * @param files - Scanned files; other languages are skipped
+ */
+export function buildClassModel(files: FileInfo[]): ClassModel[] {
+    return files.filter(f => isParsableFile(f.path)).flatMap(f => extractClasses(f.content, f.path, f.name));
+}
+
+/**
+ * Shortens a type for a Mermaid class member: generics use `~`, object literal and function types,
+ * whose braces and arrows Mermaid cannot parse inside a class body, are abbreviated, and
+ * parentheses are dropped because they would turn a property into a method
+ */
+function typeLabel(type: string): string {
+    let label = type.includes('=>') ? 'Function' : type.replace(/\{[^{}]*\}/g, 'object').replace(/[{}]/g, '');
+    label = label.replace(/[<>]/g, '~').replace(/[()]/g, '').replace(/"/g, "'");
+    return label.length > MAX_TYPE_LENGTH ? label.slice(0, MAX_TYPE_LENGTH - 1) + '…' : label;
+}
+
+const VISIBILITY_MARKS: Record<Visibility, string> = { public: '+', protected: '#', private: '-' };
+
+function memberLine(m: ClassMember): string {
+    const suffix = m.isAbstract ? '*' : m.isStatic ? '$' : '';
+    if (m.kind === 'method') {
+        const params = (m.parameters || []).map(typeLabel).join(', ');
+        return `${VISIBILITY_MARKS[m.visibility]}${m.name}(${params})${suffix}${m.type ? ' ' + typeLabel(m.type) : ''}`;
+    }
+    return `${VISIBILITY_MARKS[m.visibility]}${m.name}${m.type ? ' : ' + typeLabel(m.type) : ''}${suffix}`;
+}
+
+/**
+ * Known classes a property type refers to, and whether it holds many of them
+ */
+function referencedClasses(type: string, known: Set<string>): { name: string; many: boolean }[] {
+    const many = /\[\]/.test(type) || [...COLLECTION_TYPES].some(c => new RegExp(`\\b${c}\\s*<`).test(type));
+    const names = new Set((type.match(/[A-Za-z_$][\w$]*/g) || []).filter(n => known.has(n)));
+    return [...names].map(name => ({ name, many }));
+}
+
+/**
+ * Converts classes and interfaces into a Mermaid class diagram: members with visibility and
+ * types, `extends` (`<|--`) and `implements` (`<|..`) between known types, and a composition
+ * (`*--`) for each property whose type is another known class, or an association (`-->`) when it
+ * is an interface. Heritage and property types that are not part of the model are left out.
+ * @param classes - Result of buildClassModel
+ * @returns The diagram source and the class behind each node id
+ */
+export function emitClassDiagram(classes: ClassModel[]): ClassDiagram {
+    // Two files may declare the same name; later ones get a suffixed id and keep their name as label
+    const ids = new Map<ClassModel, string>();
+    const idsByName = new Map<string, string>();
+    const kinds = new Map<string, ClassModel['kind']>();
+    for (const c of classes) {
+        let id = c.name.replace(/[^\w]/g, '_');
+        for (let n = 2; [...ids.values()].includes(id); n++) id = `${c.name.replace(/[^\w]/g, '_')}_${n}`;
+        ids.set(c, id);
+        if (!idsByName.has(c.name)) {
+            idsByName.set(c.name, id);
+            kinds.set(c.name, c.kind);
+        }
+    }
+    const known = new Set(idsByName.keys());
+
+    let mermaidCode = 'classDiagram\n';
+    const nodes: Record<string, ClassModel> = {};
+    for (const c of classes) {
+        const id = ids.get(c)!;
+        nodes[id] = c;
+        const generics = c.typeParameters ? `~${c.typeParameters.replace(/[<>]/g, '').replace(/\s+extends\s+[^,]+/g, '')}~` : '';
+        const header = id === c.name ? `    class ${id}${generics}` : `    class ${id}["${c.name}"]`;
+        const body = c.members.map(m => `        ${memberLine(m)}\n`);
+        if (c.kind === 'interface') body.unshift('        <<interface>>\n');
+        else if (c.isAbstract) body.unshift('        <<abstract>>\n');
+        mermaidCode += body.length > 0 ? `${header} {\n${body.join('')}    }\n` : `${header}\n`;
+    }
+
+    const relations = new Set<string>();
+    for (const c of classes) {
+        const id = ids.get(c)!;
+        for (const base of c.extends) {
+            if (known.has(base)) relations.add(`    ${idsByName.get(base)} <|-- ${id}`);
+        }
+        for (const iface of c.implements) {
+            if (known.has(iface)) relations.add(`    ${idsByName.get(iface)} <|.. ${id}`);
+        }
+        for (const m of c.members) {
+            if (m.kind !== 'property' || !m.type) continue;
+            for (const ref of referencedClasses(m.type, known)) {
+                if (ref.name === c.name) continue;
+                const arrow = kinds.get(ref.name) === 'class' ? '*--' : '-->';
+                const multiplicity = ref.many ? ' "*"' : '';
+                relations.add(`    ${id}${ref.many ? ' "1"' : ''} ${arrow}${multiplicity} ${idsByName.get(ref.name)} : ${m.name}`);
+            }
+        }
+    }
+    for (const r of relations) mermaidCode += r + '\n';
+    return { mermaid: mermaidCode, nodes };
+}
@@ -0,0 +1,146 @@
+import * as path from 'path';
+import { ArchitectureRule } from './config';
+import { DependencyGraph, FolderCluster, GraphEdge, GraphFile, makeId } from './graph';
+import { violatingEdges } from './rules';
+
+/**
+ * Number of nodes the automatic collapse depth aims for; Mermaid gets slow and runs into its text
+ * limit long before a repository's worth of file subgraphs
+ */
+const MAX_VISIBLE_NODES = 60;
+
+/**
+ * Which folders of a folder diagram are collapsed. Folders are `/`-separated prefixes of file names,
+ * e.g. `project/src/emitters`.
+ */
+export interface ClusterView {
+    /** Folders this many levels below the top folder, and deeper, start collapsed */
+    depth: number;
+    /** Folders opened by the user although they are at or below `depth` */
+    expanded: string[];
+    /** Folders closed by the user although they are above `depth` */
+    collapsed: string[];
+}
+
+function segmentsOf(name: string): string[] {
+    return name.split(/[\\/]/).filter(s => s.length > 0);
+}
+
+function isCollapsed(folder: string, level: number, view: ClusterView): boolean {
+    // The top folder (the scanned folder, or a workspace root) always stays open
+    if (level === 0) return false;
+    return level >= view.depth ? !view.expanded.includes(folder) : view.collapsed.includes(folder);
+}
+
+/**
+ * Picks the collapse depth from the file count: the deepest level at which the diagram still has at
+ * most about MAX_VISIBLE_NODES nodes. Small folders are shown in full.
+ * @returns The depth for ClusterView, or Infinity when nothing needs to be collapsed
+ */
+export function autoCollapseDepth(graph: DependencyGraph): number {
+    if (graph.files.length <= MAX_VISIBLE_NODES) return Infinity;
+    const folderSegments = graph.files.map(f => segmentsOf(f.name).slice(0, -1));
+    const deepest = Math.max(0, ...folderSegments.map(s => s.length - 1));
+    let depth = 1;
+    for (let d = 1; d <= deepest; d++) {
+        const visible = new Set(folderSegments.map((s, i) => s.length > d ? s.slice(0, d + 1).join('/') : graph.files[i].id));
+        if (visible.size > MAX_VISIBLE_NODES) break;
+        depth = d;
+    }
+    return depth;
+}
+
+/**
+ * Groups a dependency graph by folder for the folder diagram. Open folders become nested clusters,
+ * each collapsed folder becomes one node standing for all files below it, and imports between the
+ * same two nodes are merged into one edge that carries their count.
+ * @param graph - The full dependency graph
+ * @param view - Collapse depth and the folders the user opened or closed
+ * @param rules - Architecture rules; merged edges that contain a violation are marked
+ * @returns A graph with `folders` set, to be passed to emitMermaid
+ */
+export function collapseGraph(graph: DependencyGraph, view: ClusterView, rules: ArchitectureRule[] = []): DependencyGraph {
+    const folders = new Map<string, FolderCluster>();
+    const collapsedNodes = new Map<string, GraphFile>();
+    const representative = new Map<string, string>();
+    const files: GraphFile[] = [];
+
+    // Absolute path of a folder, from a file below it
+    const folderPath = (file: GraphFile, segments: string[], level: number) => {
+        let p = file.path;
+        for (let i = level; i < segments.length - 1; i++) p = path.dirname(p);
+        return p;
+    };
+
+    for (const f of graph.files) {
+        const segments = segmentsOf(f.name);
+        let parent: string | undefined;
+        let collapsedInto: GraphFile | undefined;
+        for (let level = 0; level < segments.length - 1; level++) {
+            const name = segments.slice(0, level + 1).join('/');
+            const id = makeId('dir_' + name);
+            if (isCollapsed(name, level, view)) {
+                collapsedInto = collapsedNodes.get(id);
+                if (!collapsedInto) {
+                    collapsedInto = { id, path: folderPath(f, segments, level), name: name + '/', lineCount: 0, symbols: [], imports: [], root: f.root, folder: parent, directory: { fileCount: 0 } };
+                    collapsedNodes.set(id, collapsedInto);
+                    files.push(collapsedInto);
+                }
+                break;
+            }
+            if (!folders.has(id)) folders.set(id, { id, name, path: folderPath(f, segments, level), parent });
+            parent = id;
+        }
+
+        if (collapsedInto) {
+            collapsedInto.lineCount += f.lineCount;
+            collapsedInto.imports.push(...f.imports);
+            collapsedInto.symbols.push(...f.symbols);
+            collapsedInto.directory!.fileCount++;
+            representative.set(f.id, collapsedInto.id);
+        } else {
+            files.push({ ...f, folder: parent });
+            representative.set(f.id, f.id);
+        }
+    }
+
+    // Rules need the real files, so they are checked before merging
+    const violations = violatingEdges(graph, rules);
+    const merged = new Map<string, GraphEdge>();
+    for (const e of graph.edges) {
+        const from = representative.get(e.from)!;
+        const to = representative.get(e.to) || e.to;
+        // Imports between files of one collapsed folder disappear into it
+        if (from === to && collapsedNodes.has(from)) continue;
+        const key = `${from}\u0000${to}`;
+        const existing = merged.get(key);
+        if (existing) {
+            existing.count = (existing.count || 1) + 1;
+            if (violations.has(e)) existing.violation = true;
+        } else {
+            merged.set(key, { ...e, from, to, violation: violations.has(e) || undefined });
+        }
+    }
+
+    return { ...graph, files, edges: [...merged.values()], folders: [...folders.values()] };
+}
+
+/**
+ * Opens a collapsed folder or closes an open one
+ * @param view - The current view
+ * @param folder - Folder name as in FolderCluster.name
+ * @param collapsed - Whether the folder is collapsed now
+ * @returns The new view
+ */
+export function toggleFolder(view: ClusterView, folder: string, collapsed: boolean): ClusterView {
+    const level = segmentsOf(folder).length - 1;
+    const without = (list: string[]) => list.filter(f => f !== folder);
+    if (collapsed) {
+        return level >= view.depth
+            ? { ...view, expanded: [...without(view.expanded), folder] }
+            : { ...view, collapsed: without(view.collapsed) };
+    }
+    return level >= view.depth
+        ? { ...view, expanded: without(view.expanded) }
+        : { ...view, collapsed: [...without(view.collapsed), folder] };
+}
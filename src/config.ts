@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Name of the project config file read from the workspace root by the extension and the CLI
+ */
+export const CONFIG_FILE_NAME = '.flowchartrc.json';
+
+export type FlowDirection = 'TD' | 'LR' | 'BT' | 'RL';
+export type DiagramTheme = 'default' | 'dark' | 'forest' | 'neutral';
+
+/**
+ * Per-file measure the metrics overlay colours and sizes nodes by
+ */
+export type MetricKind = 'fanIn' | 'fanOut' | 'lines' | 'symbols' | 'complexity';
+
+/**
+ * A layering rule checked against the import edges. Globs are relative to the scanned folder; a
+ * rule sets at least one of `forbid`, `forbidPackages` and `maxFanOut`.
+ */
+export interface ArchitectureRule {
+    /** Shown in reports instead of a description of the rule */
+    name?: string;
+    /** Importing files the rule applies to; every file when unset */
+    from?: string | string[];
+    /** Importing files the rule does not apply to, e.g. an adapters folder */
+    except?: string | string[];
+    /** Files that may not be imported */
+    forbid?: string | string[];
+    /** Packages that may not be imported, by name or glob such as `@aws-sdk/*` */
+    forbidPackages?: string | string[];
+    /** Most files and packages one file may import */
+    maxFanOut?: number;
+}
+
+/**
+ * Settings that change how a dependency graph is drawn
+ */
+export interface DiagramOptions {
+    /** Functions and classes listed per file (each kind separately) */
+    maxSymbolsPerKind: number;
+    /** Files on the dashed backbone that links files in topological order */
+    maxBackboneNodes: number;
+    showBackbone: boolean;
+    showStartEnd: boolean;
+    direction: FlowDirection;
+    theme: DiagramTheme;
+    /** Imports that break one of these rules are drawn as red edges */
+    rules: ArchitectureRule[];
+    /** Colours and sizes file nodes by this measure, with a legend; `none` turns the overlay off */
+    metric: MetricKind | 'none';
+}
+
+/**
+ * Settings that decide which files are scanned
+ */
+export interface ScanOptions {
+    /** Globs relative to the scanned folder; when non-empty, only matching files are read */
+    include: string[];
+    /** Globs relative to the scanned folder for files and folders to skip */
+    exclude: string[];
+    /** Extensions (with the dot) of the text files that are read */
+    extensions: string[];
+}
+
+/**
+ * Everything configurable through `codeToFlowchart.*` settings and `.flowchartrc.json`
+ */
+export interface FlowchartConfig extends DiagramOptions, ScanOptions {
+    /** Analyzer ids whose imports and symbols are extracted; other files are plain nodes */
+    languages: string[];
+    /** Levels of imports shown from the file in the focus view */
+    focusDependencyDepth: number;
+    /** Levels of importers shown towards the file in the focus view */
+    focusDependentDepth: number;
+    /** Levels of calls followed from the entry point of a sequence diagram, at least 1 */
+    sequenceDepth: number;
+}
+
+export const DEFAULT_CONFIG: FlowchartConfig = {
+    include: [],
+    exclude: [],
+    extensions: ['.js', '.ts', '.jsx', '.tsx', '.mjs', '.cjs', '.mts', '.cts', '.py', '.java', '.cpp', '.c', '.cs', '.go', '.rs', '.php', '.rb', '.swift', '.kt', '.html', '.css', '.json', '.xml', '.yaml', '.yml', '.md', '.txt'],
+    languages: ['typescript', 'python', 'go', 'java'],
+    maxSymbolsPerKind: 8,
+    maxBackboneNodes: 200,
+    showBackbone: true,
+    showStartEnd: true,
+    direction: 'TD',
+    theme: 'default',
+    rules: [],
+    metric: 'none',
+    focusDependencyDepth: 2,
+    focusDependentDepth: 1,
+    sequenceDepth: 3
+};
+
+const DIRECTIONS: FlowDirection[] = ['TD', 'LR', 'BT', 'RL'];
+const THEMES: DiagramTheme[] = ['default', 'dark', 'forest', 'neutral'];
+export const METRICS: MetricKind[] = ['fanIn', 'fanOut', 'lines', 'symbols', 'complexity'];
+const RULE_KEYS = ['name', 'from', 'except', 'forbid', 'forbidPackages', 'maxFanOut'];
+
+/**
+ * Checks the `rules` setting: an array of objects with known keys, globs as strings or string arrays
+ */
+function validateRules(value: unknown, source: string): void {
+    if (!Array.isArray(value)) throw new Error(`${source}: "rules" must be an array of rule objects`);
+    value.forEach((rule, i) => {
+        const fail = (message: string) => {
+            throw new Error(`${source}: "rules[${i}]" ${message}`);
+        };
+        if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) fail('must be an object');
+        for (const [key, v] of Object.entries(rule)) {
+            if (!RULE_KEYS.includes(key)) fail(`has unknown key "${key}"`);
+            if (key === 'name' && typeof v !== 'string') fail('"name" must be a string');
+            if (key === 'maxFanOut' && (typeof v !== 'number' || !Number.isInteger(v) || v < 0)) fail('"maxFanOut" must be a non-negative integer');
+            const isGlobs = typeof v === 'string' || (Array.isArray(v) && v.every(g => typeof g === 'string'));
+            if (key !== 'name' && key !== 'maxFanOut' && !isGlobs) fail(`"${key}" must be a string or an array of strings`);
+        }
+        if (rule.forbid === undefined && rule.forbidPackages === undefined && rule.maxFanOut === undefined) {
+            fail('needs "forbid", "forbidPackages" or "maxFanOut"');
+        }
+    });
+}
+
+/**
+ * Checks one config value against the type of its default; throws with the offending key
+ */
+function validateValue(key: keyof FlowchartConfig, value: unknown, source: string): void {
+    const fail = (expected: string) => {
+        throw new Error(`${source}: "${key}" must be ${expected}`);
+    };
+    const expected = DEFAULT_CONFIG[key];
+    if (key === 'rules') {
+        validateRules(value, source);
+    } else if (Array.isArray(expected)) {
+        if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) fail('an array of strings');
+    } else if (key === 'sequenceDepth') {
+        // The entry point's own calls are level 1, so a sequence diagram needs at least that
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) fail('a positive integer');
+    } else if (typeof expected === 'number') {
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) fail('a non-negative integer');
+    } else if (typeof expected === 'boolean') {
+        if (typeof value !== 'boolean') fail('true or false');
+    } else if (key === 'direction') {
+        if (!DIRECTIONS.includes(value as FlowDirection)) fail(`one of ${DIRECTIONS.join(', ')}`);
+    } else if (key === 'theme') {
+        if (!THEMES.includes(value as DiagramTheme)) fail(`one of ${THEMES.join(', ')}`);
+    } else if (key === 'metric') {
+        if (value !== 'none' && !METRICS.includes(value as MetricKind)) fail(`one of none, ${METRICS.join(', ')}`);
+    }
+}
+
+/**
+ * Keeps the known keys of a raw settings object and checks their types
+ * @param raw - Parsed JSON or VS Code settings
+ * @param source - Shown in error messages, e.g. the file name
+ * @param onInvalid - Receives the error of each unknown or invalid key, which is then skipped; without it the first one throws
+ * @returns The recognised settings
+ */
+export function validateConfig(raw: unknown, source: string, onInvalid?: (error: Error) => void): Partial<FlowchartConfig> {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new Error(`${source}: expected a JSON object`);
+    }
+    const result: Partial<FlowchartConfig> = {};
+    for (const [key, value] of Object.entries(raw)) {
+        if (key === '$schema' || value === undefined) continue;
+        try {
+            if (!Object.prototype.hasOwnProperty.call(DEFAULT_CONFIG, key)) {
+                throw new Error(`${source}: unknown setting "${key}"`);
+            }
+            validateValue(key as keyof FlowchartConfig, value, source);
+        } catch (error: any) {
+            if (!onInvalid) throw error;
+            onInvalid(error);
+            continue;
+        }
+        (result as Record<string, unknown>)[key] = value;
+    }
+    return result;
+}
+
+/**
+ * Reads `.flowchartrc.json` from a folder
+ * @param root - The workspace root
+ * @param onInvalid - Receives the error of each invalid setting, which is then skipped (see validateConfig)
+ * @returns The settings in the file, or an empty object when there is no file
+ * @throws When the file is not valid JSON or has invalid settings
+ */
+export function loadProjectConfig(root: string, onInvalid?: (error: Error) => void): Partial<FlowchartConfig> {
+    const file = path.join(root, CONFIG_FILE_NAME);
+    let text: string;
+    try {
+        text = fs.readFileSync(file, 'utf8');
+    } catch (e) {
+        return {};
+    }
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (e: any) {
+        throw new Error(`${CONFIG_FILE_NAME}: ${e && e.message ? e.message : String(e)}`);
+    }
+    return validateConfig(raw, CONFIG_FILE_NAME, onInvalid);
+}
+
+/**
+ * Merges settings over the defaults; later layers win
+ * @param layers - E.g. VS Code settings, then `.flowchartrc.json`
+ */
+export function resolveConfig(...layers: Partial<FlowchartConfig>[]): FlowchartConfig {
+    return Object.assign({}, DEFAULT_CONFIG, ...layers);
+}
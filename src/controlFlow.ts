@@ -0,0 +1,456 @@
+import * as ts from 'typescript';
+import { createSourceFile } from './parser';
+
+/**
+ * Result of converting a single function into a control-flow flowchart
+ */
+export interface FunctionFlowchart {
+    name: string;
+    mermaid: string;
+}
+
+/**
+ * An edge that still needs a target: the node it starts from plus an optional label
+ */
+interface PendingEdge {
+    from: string;
+    label?: string;
+    dashed?: boolean;
+}
+
+/**
+ * Where `break` / `continue` statements jump to while walking a loop, switch or labeled block
+ */
+interface JumpScope {
+    label?: string;
+    isLoop: boolean;
+    isSwitch: boolean;
+    breaks: PendingEdge[];
+    continueTo?: string;
+}
+
+/**
+ * An enclosing try statement, while its try or catch block is walked
+ */
+interface TryScope {
+    /** Throws from the try block, which continue in the catch block; unset without a catch clause */
+    throws?: PendingEdge[];
+    inCatch: boolean;
+    /**
+     * Returns, throws, breaks and continues that run the finally block before they go on, keyed by
+     * where they go on to; unset without a finally block
+     */
+    exits?: Map<string, { edges: PendingEdge[]; resume: (ends: PendingEdge[]) => void }>;
+    /** Number of jump scopes open when the try statement was entered */
+    scopeCount: number;
+}
+
+const MAX_LABEL_LENGTH = 60;
+const MAX_GROUPED_STATEMENTS = 4;
+
+/**
+ * Escapes text for use inside a quoted Mermaid label
+ */
+function escapeLabel(text: string): string {
+    return text
+        .replace(/&/g, '#amp;')
+        .replace(/"/g, '#quot;')
+        .replace(/</g, '#lt;')
+        .replace(/>/g, '#gt;');
+}
+
+/**
+ * Collapses a statement or expression to a single short line for display
+ */
+function summarize(text: string): string {
+    let line = text.trim().split('\n')[0].replace(/\s+/g, ' ').trim().replace(/;$/, '');
+    if (text.trim().includes('\n')) line += ' …';
+    return line.length > MAX_LABEL_LENGTH ? line.slice(0, MAX_LABEL_LENGTH - 1) + '…' : line;
+}
+
+function hasBody(node: ts.Node): node is ts.FunctionLikeDeclaration & { body: ts.ConciseBody } {
+    return (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isArrowFunction(node) ||
+        ts.isFunctionExpression(node) || ts.isConstructorDeclaration(node) || ts.isGetAccessorDeclaration(node) ||
+        ts.isSetAccessorDeclaration(node)) && !!node.body;
+}
+
+/**
+ * Finds the innermost function-like declaration that contains the given offset
+ */
+export function findFunctionAtOffset(sourceFile: ts.SourceFile, offset: number): ts.FunctionLikeDeclaration | undefined {
+    let found: ts.FunctionLikeDeclaration | undefined;
+    function visit(node: ts.Node) {
+        if (offset < node.getStart(sourceFile) || offset > node.getEnd()) return;
+        if (hasBody(node)) found = node;
+        ts.forEachChild(node, visit);
+    }
+    visit(sourceFile);
+    return found;
+}
+
+/**
+ * Finds the function or method declared under a symbol name from parseSource, e.g. `save` or `Repo.save`
+ * @param line - 1-based line where the symbol starts; functions with the same name before it are skipped
+ */
+export function findFunctionByName(sourceFile: ts.SourceFile, name: string, line: number): ts.FunctionLikeDeclaration | undefined {
+    let found: ts.FunctionLikeDeclaration | undefined;
+    function visit(node: ts.Node) {
+        if (found) return;
+        if (hasBody(node) && getFunctionName(node, sourceFile) === name &&
+            sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1 >= line) {
+            found = node;
+            return;
+        }
+        ts.forEachChild(node, visit);
+    }
+    visit(sourceFile);
+    return found;
+}
+
+/**
+ * Works out a readable name for a function, including its owning class when there is one
+ */
+export function getFunctionName(fn: ts.FunctionLikeDeclaration, sourceFile: ts.SourceFile): string {
+    let name: string | undefined;
+    if (ts.isConstructorDeclaration(fn)) {
+        name = 'constructor';
+    } else if (fn.name) {
+        name = fn.name.getText(sourceFile);
+    } else {
+        const parent = fn.parent;
+        if (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) {
+            name = parent.name.getText(sourceFile);
+        } else if (ts.isExportAssignment(parent)) {
+            name = 'default';
+        }
+    }
+    name = name || '(anonymous)';
+
+    const owner = fn.parent;
+    if ((ts.isClassDeclaration(owner) || ts.isClassExpression(owner)) && owner.name) {
+        return `${owner.name.text}.${name}`;
+    }
+    if (ts.isPropertyDeclaration(owner) && (ts.isClassDeclaration(owner.parent) || ts.isClassExpression(owner.parent)) && owner.parent.name) {
+        return `${owner.parent.name.text}.${name}`;
+    }
+    return name;
+}
+
+/**
+ * Builds a Mermaid control-flow flowchart for the body of a single function
+ * @param fn - The function, method or arrow function to convert
+ * @param sourceFile - The parsed source file that contains it
+ * @returns Mermaid flowchart syntax as a string
+ */
+export function convertFunctionToFlowchart(fn: ts.FunctionLikeDeclaration, sourceFile: ts.SourceFile): string {
+    const definitions: string[] = [];
+    const edges: string[] = [];
+    const scopes: JumpScope[] = [];
+    const tries: TryScope[] = [];
+    let counter = 0;
+
+    function nextId(): string {
+        return `N${++counter}`;
+    }
+
+    function define(id: string, shape: 'process' | 'decision' | 'return' | 'throw', text: string) {
+        const label = escapeLabel(text).replace(/\n/g, '<br/>');
+        switch (shape) {
+            case 'decision': definitions.push(`    ${id}{"${label}"}`); break;
+            case 'return': definitions.push(`    ${id}(["${label}"])`); break;
+            case 'throw': definitions.push(`    ${id}{{"${label}"}}`, `    class ${id} throwNode`); break;
+            default: definitions.push(`    ${id}["${label}"]`);
+        }
+    }
+
+    function addNode(shape: 'process' | 'decision' | 'return' | 'throw', text: string): string {
+        const id = nextId();
+        define(id, shape, text);
+        return id;
+    }
+
+    function connect(pending: PendingEdge[], to: string) {
+        for (const p of pending) {
+            const arrow = p.dashed ? '-.->' : '-->';
+            edges.push(p.label ? `    ${p.from} ${arrow}|"${escapeLabel(p.label)}"| ${to}` : `    ${p.from} ${arrow} ${to}`);
+        }
+    }
+
+    function text(node: ts.Node): string {
+        return summarize(node.getText(sourceFile));
+    }
+
+    function isSimple(stmt: ts.Statement): boolean {
+        return !(ts.isIfStatement(stmt) || ts.isSwitchStatement(stmt) || ts.isIterationStatement(stmt, false) ||
+            ts.isTryStatement(stmt) || ts.isReturnStatement(stmt) || ts.isThrowStatement(stmt) ||
+            ts.isBreakStatement(stmt) || ts.isContinueStatement(stmt) || ts.isBlock(stmt) ||
+            ts.isLabeledStatement(stmt) || ts.isEmptyStatement(stmt));
+    }
+
+    function visitStatements(statements: readonly ts.Statement[], pending: PendingEdge[]): PendingEdge[] {
+        let group: string[] = [];
+        const flush = () => {
+            if (group.length === 0) return;
+            const shown = group.length > MAX_GROUPED_STATEMENTS
+                ? [...group.slice(0, MAX_GROUPED_STATEMENTS), `… ${group.length - MAX_GROUPED_STATEMENTS} more`]
+                : group;
+            const id = addNode('process', shown.join('\n'));
+            connect(pending, id);
+            pending = [{ from: id }];
+            group = [];
+        };
+
+        for (const stmt of statements) {
+            // Code after return/throw/break is unreachable; leave it out rather than draw orphan nodes
+            if (pending.length === 0) break;
+            if (isSimple(stmt)) {
+                group.push(text(stmt));
+                continue;
+            }
+            flush();
+            pending = visitStatement(stmt, pending);
+        }
+        flush();
+        return pending;
+    }
+
+    function visitLoop(stmt: ts.IterationStatement, pending: PendingEdge[], label: string | undefined): PendingEdge[] {
+        const scope: JumpScope = { label, isLoop: true, isSwitch: false, breaks: [] };
+
+        if (ts.isDoStatement(stmt)) {
+            const doId = addNode('process', 'do');
+            const condId = nextId();
+            connect(pending, doId);
+            scope.continueTo = condId;
+            scopes.push(scope);
+            const bodyEnds = visitStatement(stmt.statement, [{ from: doId }]);
+            scopes.pop();
+            define(condId, 'decision', `while ${text(stmt.expression)}`);
+            connect(bodyEnds, condId);
+            connect([{ from: condId, label: 'true' }], doId);
+            return [{ from: condId, label: 'false' }, ...scope.breaks];
+        }
+
+        let header: string;
+        let enterLabel = 'true';
+        let exitLabel = 'false';
+        if (ts.isWhileStatement(stmt)) {
+            header = `while ${text(stmt.expression)}`;
+        } else if (ts.isForStatement(stmt)) {
+            const parts = [stmt.initializer, stmt.condition, stmt.incrementor].map(p => p ? text(p) : '');
+            header = `for (${parts.join('; ')})`;
+        } else if (ts.isForOfStatement(stmt) || ts.isForInStatement(stmt)) {
+            const kind = ts.isForOfStatement(stmt) ? 'of' : 'in';
+            header = `for each ${text(stmt.initializer)} ${kind} ${text(stmt.expression)}`;
+            enterLabel = 'next';
+            exitLabel = 'done';
+        } else {
+            header = text(stmt);
+        }
+
+        const condId = addNode('decision', header);
+        connect(pending, condId);
+        scope.continueTo = condId;
+        scopes.push(scope);
+        const bodyEnds = visitStatement(stmt.statement, [{ from: condId, label: enterLabel }]);
+        scopes.pop();
+        connect(bodyEnds, condId);
+        return [{ from: condId, label: exitLabel }, ...scope.breaks];
+    }
+
+    function visitSwitch(stmt: ts.SwitchStatement, pending: PendingEdge[], label: string | undefined): PendingEdge[] {
+        const switchId = addNode('decision', `switch ${text(stmt.expression)}`);
+        connect(pending, switchId);
+        const scope: JumpScope = { label, isLoop: false, isSwitch: true, breaks: [] };
+        scopes.push(scope);
+
+        let fallthrough: PendingEdge[] = [];
+        let hasDefault = false;
+        for (const clause of stmt.caseBlock.clauses) {
+            const caseLabel = ts.isDefaultClause(clause) ? 'default' : `case ${text(clause.expression)}`;
+            if (ts.isDefaultClause(clause)) hasDefault = true;
+            fallthrough = visitStatements(clause.statements, [...fallthrough, { from: switchId, label: caseLabel }]);
+        }
+        scopes.pop();
+
+        const exits = [...fallthrough, ...scope.breaks];
+        if (!hasDefault) exits.push({ from: switchId, label: 'no match' });
+        return exits;
+    }
+
+    /**
+     * Sends edges that leave their block early (`return`, `throw`, `break`, `continue`) on to
+     * `deliver`, through the catch and finally blocks of the try statements they leave. A finally
+     * block is drawn once; its end continues to every place the edges that entered it were headed.
+     * @param pending - Edges from the return, throw or jump node
+     * @param key - Where the edges go on to: `return`, `throw`, or `break`/`continue` and the target scope
+     * @param leaves - Whether the edges leave the given try statement
+     * @param deliver - Connects the edges once no more try statements are left
+     * @param level - Number of enclosing try statements still to check
+     */
+    function exitThrough(pending: PendingEdge[], key: string, leaves: (t: TryScope) => boolean, deliver: (edges: PendingEdge[]) => void, level = tries.length) {
+        for (let i = level - 1; i >= 0 && leaves(tries[i]); i--) {
+            const t = tries[i];
+            if (key === 'throw' && t.throws && !t.inCatch) {
+                t.throws.push(...pending);
+                return;
+            }
+            if (t.exits) {
+                if (!t.exits.has(key)) {
+                    t.exits.set(key, { edges: [], resume: ends => exitThrough(ends, key, leaves, deliver, i) });
+                }
+                t.exits.get(key)!.edges.push(...pending);
+                return;
+            }
+        }
+        deliver(pending);
+    }
+
+    function visitTry(stmt: ts.TryStatement, pending: PendingEdge[]): PendingEdge[] {
+        const tryId = addNode('process', 'try');
+        connect(pending, tryId);
+
+        const scope: TryScope = {
+            throws: stmt.catchClause ? [] : undefined,
+            inCatch: false,
+            exits: stmt.finallyBlock ? new Map() : undefined,
+            scopeCount: scopes.length
+        };
+        tries.push(scope);
+        let ends = visitStatement(stmt.tryBlock, [{ from: tryId }]);
+        if (stmt.catchClause) {
+            scope.inCatch = true;
+            const binding = stmt.catchClause.variableDeclaration;
+            const catchId = addNode('process', binding ? `catch (${text(binding)})` : 'catch');
+            connect([{ from: tryId, label: 'error', dashed: true }, ...scope.throws!], catchId);
+            ends = [...ends, ...visitStatement(stmt.catchClause.block, [{ from: catchId }])];
+        }
+        tries.pop();
+
+        if (stmt.finallyBlock) {
+            const finallyId = addNode('process', 'finally');
+            const exits = [...scope.exits!.entries()];
+            connect([...ends, ...exits.flatMap(([, exit]) => exit.edges)], finallyId);
+            const finallyEnds = visitStatement(stmt.finallyBlock, [{ from: finallyId }]);
+            for (const [key, exit] of exits) {
+                const reason = key.split(':')[0];
+                exit.resume(finallyEnds.map(e => ({ ...e, label: e.label || `then ${reason}`, dashed: e.dashed || reason === 'throw' })));
+            }
+            // Without a normal way out of the try and catch blocks, nothing runs after the finally block
+            ends = ends.length > 0 ? finallyEnds : [];
+        }
+        return ends;
+    }
+
+    function findScope(label: ts.Identifier | undefined, forContinue: boolean): JumpScope | undefined {
+        for (let i = scopes.length - 1; i >= 0; i--) {
+            const s = scopes[i];
+            if (label) {
+                if (s.label === label.text) return s;
+            } else if (s.isLoop || (!forContinue && s.isSwitch)) {
+                return s;
+            }
+        }
+        return undefined;
+    }
+
+    function visitStatement(stmt: ts.Statement, pending: PendingEdge[], label?: string): PendingEdge[] {
+        if (ts.isBlock(stmt)) {
+            return visitStatements(stmt.statements, pending);
+        }
+        if (ts.isLabeledStatement(stmt)) {
+            const inner = stmt.statement;
+            if (ts.isIterationStatement(inner, false) || ts.isSwitchStatement(inner)) {
+                return visitStatement(inner, pending, stmt.label.text);
+            }
+            const scope: JumpScope = { label: stmt.label.text, isLoop: false, isSwitch: false, breaks: [] };
+            scopes.push(scope);
+            const ends = visitStatement(inner, pending);
+            scopes.pop();
+            return [...ends, ...scope.breaks];
+        }
+        if (ts.isIfStatement(stmt)) {
+            const condId = addNode('decision', text(stmt.expression));
+            connect(pending, condId);
+            const thenEnds = visitStatement(stmt.thenStatement, [{ from: condId, label: 'yes' }]);
+            const elseEnds = stmt.elseStatement
+                ? visitStatement(stmt.elseStatement, [{ from: condId, label: 'no' }])
+                : [{ from: condId, label: 'no' }];
+            return [...thenEnds, ...elseEnds];
+        }
+        if (ts.isSwitchStatement(stmt)) {
+            return visitSwitch(stmt, pending, label);
+        }
+        if (ts.isIterationStatement(stmt, false)) {
+            return visitLoop(stmt, pending, label);
+        }
+        if (ts.isTryStatement(stmt)) {
+            return visitTry(stmt, pending);
+        }
+        if (ts.isReturnStatement(stmt)) {
+            const id = addNode('return', stmt.expression ? `return ${text(stmt.expression)}` : 'return');
+            connect(pending, id);
+            exitThrough([{ from: id }], 'return', () => true, edges => connect(edges, 'End'));
+            return [];
+        }
+        if (ts.isThrowStatement(stmt)) {
+            const id = addNode('throw', `throw ${text(stmt.expression)}`);
+            connect(pending, id);
+            // A throw inside a try/catch continues in the catch block; otherwise it leaves the function
+            exitThrough([{ from: id, dashed: true }], 'throw', () => true, () => { });
+            return [];
+        }
+        if (ts.isBreakStatement(stmt) || ts.isContinueStatement(stmt)) {
+            const isContinue = ts.isContinueStatement(stmt);
+            const scope = findScope(stmt.label, isContinue);
+            if (!scope) return pending;
+            const index = scopes.indexOf(scope);
+            const continueTo = isContinue ? scope.continueTo : undefined;
+            // Only try statements inside the loop, switch or labeled block are left
+            exitThrough(pending, `${continueTo ? 'continue' : 'break'}:${index}`, t => t.scopeCount > index, edges => {
+                if (continueTo) connect(edges, continueTo);
+                else scope.breaks.push(...edges);
+            });
+            return [];
+        }
+        if (ts.isEmptyStatement(stmt)) {
+            return pending;
+        }
+        return visitStatements([stmt], pending);
+    }
+
+    const name = getFunctionName(fn, sourceFile);
+    const params = fn.parameters.map(p => p.name.getText(sourceFile)).join(', ');
+    define('Start', 'return', `${name}(${params})`);
+    define('End', 'return', 'End');
+
+    const body = fn.body!;
+    let ends: PendingEdge[];
+    if (ts.isBlock(body)) {
+        ends = visitStatements(body.statements, [{ from: 'Start' }]);
+    } else {
+        // Arrow function with an expression body returns that expression
+        ends = visitStatement(ts.factory.createReturnStatement(body), [{ from: 'Start' }]);
+    }
+    connect(ends, 'End');
+
+    let mermaidCode = 'flowchart TD\n';
+    mermaidCode += definitions.join('\n') + '\n';
+    mermaidCode += edges.join('\n') + '\n';
+    mermaidCode += '    classDef throwNode fill:#fde2e1,stroke:#c0392b,color:#000\n';
+    return mermaidCode;
+}
+
+/**
+ * Builds a control-flow flowchart for the function that encloses the given offset
+ * @param code - The full source text of the file
+ * @param fileName - The file name, used to pick TS/JS/JSX parsing
+ * @param offset - Character offset of the cursor
+ * @returns The function name and its flowchart, or null when the offset is not inside a function
+ */
+export function buildFunctionFlowchart(code: string, fileName: string, offset: number): FunctionFlowchart | null {
+    const sourceFile = createSourceFile(fileName, code);
+    const fn = findFunctionAtOffset(sourceFile, offset);
+    if (!fn) return null;
+    return { name: getFunctionName(fn, sourceFile), mermaid: convertFunctionToFlowchart(fn, sourceFile) };
+}
@@ -0,0 +1,147 @@
+import { DependencyGraph, GraphEdge } from './graph';
+
+/**
+ * An import that closes a cycle, with the files the cycle runs through
+ */
+export interface CycleClosingImport {
+    edge: GraphEdge;
+    /** File ids from the imported file round to it again, e.g. `[a, b, c, a]` when `c` imports `a` */
+    path: string[];
+}
+
+/**
+ * A group of files that import each other, directly or indirectly (a strongly connected component)
+ */
+export interface DependencyCycle {
+    /** Ids of the files in the component, in scan order */
+    files: string[];
+    /** Internal imports between those files */
+    edges: GraphEdge[];
+    /** Imports that close a cycle when the component is walked depth-first from its first file */
+    closing: CycleClosingImport[];
+}
+
+/**
+ * Finds import cycles between scanned files with Tarjan's strongly connected components algorithm
+ * @param graph - The dependency graph
+ * @returns One entry per component of two or more files, or per file that imports itself
+ */
+export function findCycles(graph: DependencyGraph): DependencyCycle[] {
+    const ids = graph.files.map(f => f.id);
+    const scanIndex = new Map(ids.map((id, i) => [id, i]));
+    const internal = graph.edges.filter(e => e.kind === 'internal');
+    const adjacency = new Map<string, GraphEdge[]>(ids.map(id => [id, []]));
+    for (const e of internal) adjacency.get(e.from)!.push(e);
+
+    // Iterative Tarjan: large workspaces would overflow the call stack
+    const index = new Map<string, number>();
+    const low = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+    let counter = 0;
+    const visit = (id: string) => {
+        index.set(id, counter);
+        low.set(id, counter);
+        counter++;
+        stack.push(id);
+        onStack.add(id);
+    };
+    for (const start of ids) {
+        if (index.has(start)) continue;
+        visit(start);
+        const work: { id: string; next: number }[] = [{ id: start, next: 0 }];
+        while (work.length > 0) {
+            const top = work[work.length - 1];
+            const out = adjacency.get(top.id)!;
+            if (top.next < out.length) {
+                const to = out[top.next++].to;
+                if (!index.has(to)) {
+                    visit(to);
+                    work.push({ id: to, next: 0 });
+                } else if (onStack.has(to)) {
+                    low.set(top.id, Math.min(low.get(top.id)!, index.get(to)!));
+                }
+                continue;
+            }
+            work.pop();
+            if (work.length > 0) {
+                const parent = work[work.length - 1].id;
+                low.set(parent, Math.min(low.get(parent)!, low.get(top.id)!));
+            }
+            if (low.get(top.id) === index.get(top.id)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== top.id);
+                components.push(component);
+            }
+        }
+    }
+
+    const cycles: DependencyCycle[] = [];
+    for (const component of components) {
+        const members = new Set(component);
+        const edges = internal.filter(e => members.has(e.from) && members.has(e.to));
+        if (edges.length === 0) continue;
+        const files = component.sort((a, b) => scanIndex.get(a)! - scanIndex.get(b)!);
+        cycles.push({ files, edges, closing: findClosingImports(files[0], edges) });
+    }
+    return cycles.sort((a, b) => scanIndex.get(a.files[0])! - scanIndex.get(b.files[0])!);
+}
+
+/**
+ * Walks one component depth-first; every import of a file that is still on the walk path closes a cycle
+ */
+function findClosingImports(start: string, edges: GraphEdge[]): CycleClosingImport[] {
+    const adjacency = new Map<string, GraphEdge[]>();
+    for (const e of edges) {
+        if (!adjacency.has(e.from)) adjacency.set(e.from, []);
+        adjacency.get(e.from)!.push(e);
+    }
+    const closing: CycleClosingImport[] = [];
+    const visited = new Set<string>([start]);
+    const pathIds: string[] = [start];
+    const work: { id: string; next: number }[] = [{ id: start, next: 0 }];
+    while (work.length > 0) {
+        const top = work[work.length - 1];
+        const out = adjacency.get(top.id) || [];
+        if (top.next >= out.length) {
+            work.pop();
+            pathIds.pop();
+            continue;
+        }
+        const edge = out[top.next++];
+        const onPath = pathIds.indexOf(edge.to);
+        if (onPath >= 0) {
+            closing.push({ edge, path: [...pathIds.slice(onPath), edge.to] });
+        } else if (!visited.has(edge.to)) {
+            visited.add(edge.to);
+            pathIds.push(edge.to);
+            work.push({ id: edge.to, next: 0 });
+        }
+    }
+    return closing;
+}
+
+/**
+ * Formats cycles as a plain-text report, one block per cycle listing the imports that close it
+ * @param graph - The dependency graph the cycles were found in
+ * @param cycles - Result of findCycles
+ * @returns Report text
+ */
+export function formatCycleReport(graph: DependencyGraph, cycles: DependencyCycle[]): string {
+    if (cycles.length === 0) return 'No dependency cycles found.\n';
+    const names = new Map(graph.files.map(f => [f.id, f.name]));
+    let report = `Found ${cycles.length} dependency cycle${cycles.length === 1 ? '' : 's'}\n`;
+    cycles.forEach((cycle, i) => {
+        report += `\nCycle ${i + 1} (${cycle.files.length} file${cycle.files.length === 1 ? '' : 's'}): ${cycle.files.map(id => names.get(id)).join(', ')}\n`;
+        for (const { edge, path } of cycle.closing) {
+            report += `  ${names.get(edge.from)}:${edge.line} imports '${edge.specifier}': ${path.map(id => names.get(id)).join(' → ')}\n`;
+        }
+    });
+    return report;
+}
@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import { DependencyCycle } from './cycles';
+import { DependencyGraph } from './graph';
+import { RuleViolation } from './rules';
+
+/**
+ * Publishes one warning per import that closes a dependency cycle, on the import line itself.
+ * The other imports of the cycle are attached as related locations.
+ * @param collection - Replaced entirely with the new diagnostics
+ * @param graph - The dependency graph the cycles were found in
+ * @param cycles - Result of findCycles
+ */
+export function publishCycleDiagnostics(collection: vscode.DiagnosticCollection, graph: DependencyGraph, cycles: DependencyCycle[]) {
+    const files = new Map(graph.files.map(f => [f.id, f]));
+    const importLocation = (from: string, line: number) => new vscode.Location(vscode.Uri.file(files.get(from)!.path), new vscode.Position(Math.max(0, line - 1), 0));
+
+    const byPath = new Map<string, vscode.Diagnostic[]>();
+    for (const cycle of cycles) {
+        const edgeByPair = new Map(cycle.edges.map(e => [`${e.from}\n${e.to}`, e]));
+        for (const { edge, path } of cycle.closing) {
+            const line = Math.max(0, edge.line - 1);
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+                `Circular import: ${path.map(id => files.get(id)!.name).join(' → ')}`,
+                vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'Code to Flowchart';
+            diagnostic.code = 'import-cycle';
+            diagnostic.relatedInformation = [];
+            for (let i = 0; i < path.length - 1; i++) {
+                const step = edgeByPair.get(`${path[i]}\n${path[i + 1]}`);
+                if (!step || step === edge) continue;
+                diagnostic.relatedInformation.push(new vscode.DiagnosticRelatedInformation(
+                    importLocation(step.from, step.line),
+                    `${files.get(step.from)!.name} imports '${step.specifier}'`
+                ));
+            }
+            const filePath = files.get(edge.from)!.path;
+            if (!byPath.has(filePath)) byPath.set(filePath, []);
+            byPath.get(filePath)!.push(diagnostic);
+        }
+    }
+
+    collection.clear();
+    for (const [filePath, diagnostics] of byPath) {
+        collection.set(vscode.Uri.file(filePath), diagnostics);
+    }
+}
+
+/**
+ * Publishes one error per architecture rule violation, on the offending import line
+ * @param collection - Replaced entirely with the new diagnostics
+ * @param graph - The dependency graph the rules were checked against
+ * @param violations - Result of checkRules
+ */
+export function publishRuleDiagnostics(collection: vscode.DiagnosticCollection, graph: DependencyGraph, violations: RuleViolation[]) {
+    const files = new Map(graph.files.map(f => [f.id, f]));
+    const byPath = new Map<string, vscode.Diagnostic[]>();
+    for (const v of violations) {
+        const line = Math.max(0, v.line - 1);
+        const diagnostic = new vscode.Diagnostic(new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER), v.message, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = 'Code to Flowchart';
+        diagnostic.code = 'architecture-rule';
+        const filePath = files.get(v.from)!.path;
+        if (!byPath.has(filePath)) byPath.set(filePath, []);
+        byPath.get(filePath)!.push(diagnostic);
+    }
+
+    collection.clear();
+    for (const [filePath, diagnostics] of byPath) {
+        collection.set(vscode.Uri.file(filePath), diagnostics);
+    }
+}
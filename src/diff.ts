@@ -0,0 +1,99 @@
+import { findCycles } from './cycles';
+import { DependencyGraph, ExternalPackage, GraphEdge, GraphFile } from './graph';
+
+/**
+ * Two revisions of a dependency graph combined into one, plus what changed between them
+ */
+export interface GraphDiff {
+    /** Files, packages and imports of both revisions, each marked added, removed or unchanged */
+    graph: DependencyGraph;
+    addedFiles: GraphFile[];
+    removedFiles: GraphFile[];
+    addedEdges: GraphEdge[];
+    removedEdges: GraphEdge[];
+    /** Import cycles in the head revision whose files did not form a cycle in the base revision */
+    newCycles: string[][];
+    unchangedFileCount: number;
+}
+
+function edgeKey(e: GraphEdge): string {
+    return `${e.from}\u0000${e.to}`;
+}
+
+/**
+ * Marks the items of the head revision as added or unchanged and appends the removed items of the
+ * base revision
+ */
+function combine<T extends { change?: GraphFile['change'] }>(before: T[], after: T[], key: (item: T) => string): T[] {
+    const beforeKeys = new Set(before.map(key));
+    const afterKeys = new Set(after.map(key));
+    return [
+        ...after.map(item => ({ ...item, change: beforeKeys.has(key(item)) ? 'unchanged' as const : 'added' as const })),
+        ...before.filter(item => !afterKeys.has(key(item))).map(item => ({ ...item, change: 'removed' as const }))
+    ];
+}
+
+/**
+ * Compares the dependency graphs of two revisions of the same folder. Files and packages are
+ * matched by id (their name relative to the folder), imports by the ids they connect.
+ * @param before - Graph of the base revision
+ * @param after - Graph of the head revision
+ * @param revisions - Names of the two revisions, for titles and the summary
+ * @returns The combined graph and the lists of changes
+ */
+export function diffGraphs(before: DependencyGraph, after: DependencyGraph, revisions: { base: string; head: string }): GraphDiff {
+    const files = combine(before.files, after.files, f => f.id);
+    const externals = combine<ExternalPackage>(before.externals, after.externals, x => x.id);
+    const edges = combine(before.edges, after.edges, edgeKey);
+
+    // A cycle is new unless the same files already formed one
+    const cycleKey = (ids: string[]) => [...ids].sort().join('\u0000');
+    const oldCycles = new Set(findCycles(before).map(c => cycleKey(c.files)));
+    const newCycles = findCycles(after).map(c => c.files).filter(ids => !oldCycles.has(cycleKey(ids)));
+
+    return {
+        graph: {
+            root: after.root,
+            files,
+            externals,
+            boundaries: [],
+            edges,
+            diff: revisions
+        },
+        addedFiles: files.filter(f => f.change === 'added'),
+        removedFiles: files.filter(f => f.change === 'removed'),
+        addedEdges: edges.filter(e => e.change === 'added'),
+        removedEdges: edges.filter(e => e.change === 'removed'),
+        newCycles,
+        unchangedFileCount: files.filter(f => f.change === 'unchanged').length
+    };
+}
+
+/**
+ * Formats a graph diff as a plain-text summary for pull request reviews: added and removed files,
+ * new and dropped imports, and new import cycles
+ * @param diff - Result of diffGraphs
+ * @returns Summary text
+ */
+export function formatGraphDiff(diff: GraphDiff): string {
+    const { base, head } = diff.graph.diff!;
+    const names = new Map<string, string>([
+        ...diff.graph.files.map(f => [f.id, f.name] as [string, string]),
+        ...diff.graph.externals.map(x => [x.id, `${x.name} (package)`] as [string, string])
+    ]);
+    const changes = diff.addedFiles.length + diff.removedFiles.length + diff.addedEdges.length + diff.removedEdges.length;
+    if (changes === 0) return `No dependency changes from ${base} to ${head} (${diff.unchangedFileCount} files)\n`;
+
+    let report = `Dependency changes from ${base} to ${head} (${diff.unchangedFileCount} files unchanged)\n`;
+    const section = (title: string, marker: string, lines: string[]) => {
+        if (lines.length === 0) return;
+        report += `\n${title} (${lines.length}):\n`;
+        for (const line of lines) report += `  ${marker} ${line}\n`;
+    };
+    section('Added files', '+', diff.addedFiles.map(f => f.name));
+    section('Removed files', '-', diff.removedFiles.map(f => f.name));
+    section('New imports', '+', diff.addedEdges.map(e => `${names.get(e.from)} → ${names.get(e.to)}`));
+    section('Removed imports', '-', diff.removedEdges.map(e => `${names.get(e.from)} → ${names.get(e.to)}`));
+    section('New dependency cycles', '!', diff.newCycles.map(ids => ids.map(id => names.get(id)).join(', ')));
+    return report;
+}
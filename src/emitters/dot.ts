@@ -0,0 +1,102 @@
+import { DEFAULT_CONFIG, DiagramOptions } from '../config';
+import { findCycles } from '../cycles';
+import { ChangeKind, crossRootEdges, DependencyGraph, GraphFile } from '../graph';
+import { describeBucket, metricOverlay } from '../metrics';
+import { violatingEdges } from '../rules';
+
+/**
+ * Node and edge attributes of the changes in a diff graph
+ */
+const CHANGE_ATTRS: Record<ChangeKind, { node: string; edge: string }> = {
+    added: { node: ', color="#2e7d32", style=filled, fillcolor="#e8f5e9", penwidth=2', edge: ' [color="#2e7d32", penwidth=2]' },
+    removed: { node: ', color="#c62828", style="dashed,filled", fillcolor="#ffebee", penwidth=2', edge: ' [color="#c62828", style=dashed, penwidth=2]' },
+    unchanged: { node: ', color="#bdbdbd", fontcolor="#9e9e9e"', edge: ' [color="#bdbdbd"]' }
+};
+
+function quote(s: string): string {
+    return '"' + s.replace(/\\/g, '\\\\').replace(/"/g, '\\"') + '"';
+}
+
+/**
+ * Converts a dependency graph into Graphviz DOT. Files are boxes listing their functions and
+ * classes, external packages are dashed ellipses, files outside a selection are dashed boxes, and
+ * workspace roots of a combined graph are clusters. Imports that break an architecture rule are
+ * red, diff graphs are coloured by change, and a metric colours and sizes the file boxes.
+ * @param graph - The dependency graph
+ * @param options - Symbol limit, direction, architecture rules and metric
+ * @returns DOT source as a string
+ */
+export function emitDot(graph: DependencyGraph, options: DiagramOptions = DEFAULT_CONFIG): string {
+    let dot = 'digraph CodeFlow {\n';
+    dot += `    rankdir=${options.direction === 'TD' ? 'TB' : options.direction};\n`;
+    dot += '    node [shape=box, fontname="Helvetica", fontsize=10];\n';
+    dot += '    edge [color="#555555"];\n';
+
+    const cycles = graph.diff ? [] : findCycles(graph);
+    const cycleFiles = new Set(cycles.flatMap(c => c.files));
+    const cycleEdges = new Set(cycles.flatMap(c => c.edges));
+    const violations = graph.diff ? new Set() : violatingEdges(graph, options.rules);
+    const overlay = metricOverlay(graph, options.metric);
+
+    const fileNode = (f: GraphFile) => {
+        const functions = f.symbols.filter(s => s.kind === 'function' || s.kind === 'method').slice(0, options.maxSymbolsPerKind);
+        const classes = f.symbols.filter(s => s.kind === 'class').slice(0, options.maxSymbolsPerKind);
+        const lines = [f.name, ...functions.map(s => `fn: ${s.name}`), ...classes.map(s => `class: ${s.name}`)];
+        // \l left-aligns each line in Graphviz labels
+        const label = lines.map(l => l.replace(/\\/g, '\\\\').replace(/"/g, '\\"')).join('\\l') + '\\l';
+        const level = overlay && overlay.levels.get(f.id);
+        const style = f.change ? CHANGE_ATTRS[f.change].node
+            : level ? `, style=filled, fillcolor="${level.fill}", fontcolor="${level.text}", fontsize=${10 + level.level * 2}, penwidth=${1 + level.level / 2}`
+            : cycleFiles.has(f.id) ? ', color="#d32f2f", style=filled, fillcolor="#ffebee"'
+            : '';
+        return `${f.id} [label="${label}"${style}];\n`;
+    };
+
+    if (graph.roots) {
+        for (const root of graph.roots) {
+            dot += `    subgraph cluster_${root.id} {\n`;
+            dot += `        label=${quote(root.name)};\n`;
+            dot += '        style=rounded;\n';
+            for (const f of graph.files.filter(f => f.root === root.id)) dot += '        ' + fileNode(f);
+            dot += '    }\n';
+        }
+    } else {
+        for (const f of graph.files) dot += '    ' + fileNode(f);
+    }
+
+    for (const ext of graph.externals) {
+        const changeStyle = ext.change === 'added' ? ', color="#2e7d32", penwidth=2'
+            : ext.change === 'removed' ? ', color="#c62828", penwidth=2'
+            : ext.change === 'unchanged' ? ', color="#bdbdbd", fontcolor="#9e9e9e"'
+            : '';
+        dot += `    ${ext.id} [label=${quote(ext.name)}, shape=ellipse, style=dashed${changeStyle}];\n`;
+    }
+
+    for (const b of graph.boundaries) {
+        dot += `    ${b.id} [label=${quote(b.name)}, style="dashed,filled", color="#f9a825", fillcolor="#fff8e1"];\n`;
+    }
+
+    if (overlay) {
+        dot += '    subgraph cluster_metricLegend {\n';
+        dot += `        label=${quote(overlay.label)};\n`;
+        dot += '        style=rounded;\n';
+        for (const b of overlay.buckets) {
+            dot += `        metricLegend_${b.level} [label=${quote(describeBucket(b))}, style=filled, fillcolor="${b.fill}", fontcolor="${b.text}"];\n`;
+        }
+        dot += '    }\n';
+    }
+
+    const crossRoot = crossRootEdges(graph);
+    for (const e of graph.edges) {
+        const attrs = e.change ? CHANGE_ATTRS[e.change].edge
+            : violations.has(e) ? ' [color="#d50000", penwidth=3]'
+            : e.kind !== 'internal' ? ' [style=dashed]'
+            : cycleEdges.has(e) ? ' [color="#d32f2f", penwidth=2]'
+            : crossRoot.has(e) ? ' [color="#1565c0", penwidth=2]'
+            : '';
+        dot += `    ${e.from} -> ${e.to}${attrs};\n`;
+    }
+
+    dot += '}\n';
+    return dot;
+}
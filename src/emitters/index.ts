@@ -0,0 +1,51 @@
+import { DiagramOptions } from '../config';
+import { DependencyGraph } from '../graph';
+import { emitDot } from './dot';
+import { emitJson } from './json';
+import { emitMermaid } from './mermaid';
+import { emitSvg } from './svg';
+
+export { emitDot } from './dot';
+export { emitJson } from './json';
+export { emitMermaid, getMermaidNodeTargets, NodeTarget } from './mermaid';
+export { emitSvg } from './svg';
+
+export type OutputFormat = 'mermaid' | 'markdown' | 'dot' | 'json' | 'svg';
+
+/**
+ * Turns a dependency graph into text in one output format
+ */
+export type GraphEmitter = (graph: DependencyGraph, options?: DiagramOptions) => string;
+
+/**
+ * Wraps Mermaid source in a fenced markdown block, as written to `wholeflow.md`
+ */
+export function fenceMermaid(mermaidCode: string): string {
+    return '```mermaid\n' + mermaidCode + '\n```\n';
+}
+
+export const EMITTERS: Record<OutputFormat, GraphEmitter> = {
+    mermaid: emitMermaid,
+    markdown: (graph, options) => fenceMermaid(emitMermaid(graph, options)),
+    dot: emitDot,
+    json: emitJson,
+    svg: emitSvg
+};
+
+/**
+ * Default file extension for each output format
+ */
+export const FORMAT_EXTENSIONS: Record<OutputFormat, string> = {
+    mermaid: '.mmd',
+    markdown: '.md',
+    dot: '.dot',
+    json: '.json',
+    svg: '.svg'
+};
+
+/**
+ * Renders a dependency graph in the requested format
+ */
+export function emitGraph(graph: DependencyGraph, format: OutputFormat, options?: DiagramOptions): string {
+    return EMITTERS[format](graph, options);
+}
@@ -0,0 +1,41 @@
+import { DEFAULT_CONFIG, DiagramOptions } from '../config';
+import { findCycles } from '../cycles';
+import { DependencyGraph } from '../graph';
+import { computeMetrics } from '../metrics';
+import { checkRules } from '../rules';
+
+/**
+ * Converts a dependency graph into JSON, with the metrics of each file. Absolute paths are left out
+ * so the output is portable.
+ * @param graph - The dependency graph
+ * @param options - Architecture rules whose violations are listed
+ * @returns Pretty-printed JSON as a string
+ */
+export function emitJson(graph: DependencyGraph, options: DiagramOptions = DEFAULT_CONFIG): string {
+    const metrics = new Map(computeMetrics(graph).map(m => [m.id, m]));
+    return JSON.stringify({
+        diff: graph.diff,
+        roots: graph.roots ? graph.roots.map(r => ({ id: r.id, name: r.name })) : undefined,
+        files: graph.files.map(f => {
+            const { fanIn, fanOut, complexity, mostComplex } = metrics.get(f.id)!;
+            return {
+                id: f.id,
+                name: f.name,
+                root: f.root,
+                change: f.change,
+                lineCount: f.lineCount,
+                metrics: { fanIn, fanOut, complexity, mostComplex },
+                symbols: f.symbols,
+                imports: f.imports
+            };
+        }),
+        externals: graph.externals,
+        boundaries: graph.boundaries.map(b => ({ id: b.id, name: b.name })),
+        edges: graph.edges,
+        cycles: findCycles(graph).map(c => ({
+            files: c.files,
+            closingImports: c.closing.map(({ edge, path }) => ({ from: edge.from, to: edge.to, specifier: edge.specifier, line: edge.line, path }))
+        })),
+        violations: checkRules(graph, options.rules).map(v => ({ rule: v.rule, message: v.message, from: v.from, to: v.edge && v.edge.to, line: v.line }))
+    }, null, 2) + '\n';
+}
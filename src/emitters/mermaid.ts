@@ -0,0 +1,254 @@
+import * as path from 'path';
+import { DEFAULT_CONFIG, DiagramOptions } from '../config';
+import { findCycles } from '../cycles';
+import { ChangeKind, crossRootEdges, DependencyGraph, FolderCluster, GraphFile, makeId, topologicalOrder } from '../graph';
+import { FocusSide, focusSides } from '../focus';
+import { describeBucket, metricOverlay } from '../metrics';
+import { violatingEdges } from '../rules';
+
+/**
+ * Where a diagram node points in the source, plus the text shown when hovering it
+ */
+export interface NodeTarget {
+    path: string;
+    /** 1-based line to reveal */
+    line: number;
+    tooltip: string;
+    /** Set on folder nodes and clusters: clicking them expands or collapses the folder instead */
+    folder?: { name: string; collapsed: boolean };
+}
+
+/**
+ * Node and link styles of the changes in a diff graph
+ */
+const CHANGE_STYLES: Record<ChangeKind, { node: string; link: string }> = {
+    added: { node: 'fill:#e8f5e9,stroke:#2e7d32,stroke-width:2px', link: 'stroke:#2e7d32,stroke-width:2px' },
+    removed: { node: 'fill:#ffebee,stroke:#c62828,stroke-width:2px,stroke-dasharray:5 5', link: 'stroke:#c62828,stroke-width:2px,stroke-dasharray:5 5' },
+    unchanged: { node: 'fill:#fafafa,stroke:#bdbdbd,color:#9e9e9e', link: 'stroke:#bdbdbd' }
+};
+
+/**
+ * Node styles of the files around a focused file
+ */
+const FOCUS_STYLES: Record<FocusSide, string> = {
+    dependency: 'fill:#e0f2f1,stroke:#00897b,stroke-width:2px',
+    dependent: 'fill:#f3e5f5,stroke:#8e24aa,stroke-width:2px'
+};
+
+/**
+ * Converts a dependency graph into a Mermaid flowchart: each file is a subgraph containing its
+ * functions/classes, imports are edges, external packages and files outside a selection are
+ * separate nodes, and a dashed
+ * backbone plus Start/End nodes show the overall flow from entry files to leaf files. Graphs
+ * built from several workspace roots get one top-level subgraph per root; graphs grouped by
+ * collapseGraph get nested folder subgraphs and a node per collapsed folder; graphs built by
+ * diffGraphs are coloured by change; focus graphs highlight the focused file and colour its
+ * dependencies and dependents. With a metric set, files are coloured and sized by it and a
+ * legend subgraph lists the bands.
+ * @param graph - The dependency graph
+ * @param options - Symbol limits, backbone and Start/End toggles, direction, theme, architecture rules and metric
+ * @returns Mermaid flowchart syntax as a string
+ */
+export function emitMermaid(graph: DependencyGraph, options: DiagramOptions = DEFAULT_CONFIG): string {
+    let mermaidCode = '';
+    // The init directive carries the theme to every Mermaid renderer, not just the WebView
+    if (options.theme !== 'default') mermaidCode += `%%{init: {"theme": "${options.theme}"}}%%\n`;
+    mermaidCode += `flowchart ${options.direction}\n`;
+
+    // Create subgraphs for files, inside one top-level subgraph per workspace root when several are combined
+    const fileSubgraph = (f: GraphFile, indent: string) => {
+        const functions = f.symbols.filter(s => s.kind === 'function' || s.kind === 'method').slice(0, options.maxSymbolsPerKind);
+        const classes = f.symbols.filter(s => s.kind === 'class').slice(0, options.maxSymbolsPerKind);
+        let code = `${indent}subgraph ${f.id}[${f.name}]\n`;
+        for (const fn of functions) {
+            code += `${indent}    ${makeId(f.name + '_' + fn.name)}["fn: ${fn.name}"]\n`;
+        }
+        for (const c of classes) {
+            code += `${indent}    ${makeId(f.name + '_' + c.name)}["class: ${c.name}"]\n`;
+        }
+        // fallback node when no symbols are drawn
+        if (functions.length === 0 && classes.length === 0) {
+            code += `${indent}    ${f.id}_file["${path.basename(f.name)}\\n${f.lineCount} lines"]\n`;
+        }
+        return code + `${indent}end\n`;
+    };
+    // Collapsed folders are single nodes; open folders (from collapseGraph) nest their files
+    const fileNode = (f: GraphFile, indent: string) => f.directory
+        ? `${indent}${f.id}[["${path.basename(f.name)}/\\n${f.directory.fileCount} files"]]\n`
+        : fileSubgraph(f, indent);
+    const folderSubgraph = (folder: FolderCluster, indent: string): string => {
+        let code = `${indent}subgraph ${folder.id}["${path.basename(folder.name)}/"]\n`;
+        for (const child of graph.folders!.filter(c => c.parent === folder.id)) code += folderSubgraph(child, indent + '    ');
+        for (const f of graph.files.filter(f => f.folder === folder.id)) code += fileNode(f, indent + '    ');
+        return code + `${indent}end\n`;
+    };
+    if (graph.folders) {
+        for (const folder of graph.folders.filter(c => !c.parent)) mermaidCode += folderSubgraph(folder, '    ');
+        for (const f of graph.files.filter(f => !f.folder)) mermaidCode += fileNode(f, '    ');
+        const collapsed = graph.files.filter(f => f.directory).map(f => f.id);
+        if (collapsed.length > 0) {
+            mermaidCode += '    classDef collapsedFolder fill:#e3f2fd,stroke:#1565c0,stroke-width:2px\n';
+            mermaidCode += `    class ${collapsed.join(',')} collapsedFolder\n`;
+        }
+    } else if (graph.roots) {
+        for (const root of graph.roots) {
+            mermaidCode += `    subgraph ${root.id}["${root.name}"]\n`;
+            for (const f of graph.files.filter(f => f.root === root.id)) mermaidCode += fileSubgraph(f, '        ');
+            mermaidCode += '    end\n';
+        }
+    } else {
+        for (const f of graph.files) mermaidCode += fileSubgraph(f, '    ');
+    }
+
+    for (const ext of graph.externals) {
+        mermaidCode += `    ${ext.id}["${ext.name}"]\n`;
+    }
+
+    // Files outside the selection that the selected files import
+    for (const b of graph.boundaries) {
+        mermaidCode += `    ${b.id}["${b.name}"]\n`;
+    }
+    if (graph.boundaries.length > 0) {
+        mermaidCode += '    classDef boundary fill:#fff8e1,stroke:#f9a825,stroke-dasharray:5 5\n';
+        mermaidCode += `    class ${graph.boundaries.map(b => b.id).join(',')} boundary\n`;
+    }
+
+    // Legend of the metrics overlay: one node per colour band
+    const overlay = metricOverlay(graph, options.metric);
+    if (overlay) {
+        mermaidCode += `    subgraph metricLegend["${overlay.label}"]\n        direction LR\n`;
+        for (const b of overlay.buckets) mermaidCode += `        metricLegend_${b.level}["${describeBucket(b)}"]\n`;
+        mermaidCode += '    end\n';
+        for (const b of overlay.buckets) mermaidCode += `    style metricLegend_${b.level} fill:${b.fill},color:${b.text}\n`;
+    }
+
+    // Create edges for imports, tracking incoming/outgoing edges to identify entry and leaf files
+    const incoming = new Map<string, number>();
+    const outgoing = new Map<string, number>();
+    for (const e of graph.edges) {
+        // Merged edges between collapsed folders are labelled with the number of imports
+        mermaidCode += e.count && e.count > 1 ? `    ${e.from} -->|${e.count}| ${e.to}\n` : `    ${e.from} --> ${e.to}\n`;
+        outgoing.set(e.from, (outgoing.get(e.from) || 0) + 1);
+        if (e.kind === 'internal') incoming.set(e.to, (incoming.get(e.to) || 0) + 1);
+    }
+
+    // Import edges are the first links, so their position in graph.edges is their linkStyle index.
+    // Imports from one workspace root into another are drawn thicker
+    const crossRoot = crossRootEdges(graph);
+    const crossRootLinks = graph.edges.map((e, i) => crossRoot.has(e) ? i : -1).filter(i => i >= 0);
+    if (crossRootLinks.length > 0) {
+        mermaidCode += `    linkStyle ${crossRootLinks.join(',')} stroke:#1565c0,stroke-width:3px\n`;
+    }
+
+    // Dependencies and dependents of a focused file, before cycles so that those still stand out
+    for (const [id, side] of focusSides(graph)) {
+        mermaidCode += `    style ${id} ${FOCUS_STYLES[side]}\n`;
+    }
+
+    // Highlight files and imports that form cycles; a diff colours by change instead
+    const cycles = graph.diff ? [] : findCycles(graph);
+    const cycleEdges = new Set(cycles.flatMap(c => c.edges));
+    for (const id of cycles.flatMap(c => c.files)) {
+        mermaidCode += `    style ${id} fill:#ffebee,stroke:#d32f2f,stroke-width:2px\n`;
+    }
+    const cycleLinks = graph.edges.map((e, i) => cycleEdges.has(e) ? i : -1).filter(i => i >= 0);
+    if (cycleLinks.length > 0) {
+        mermaidCode += `    linkStyle ${cycleLinks.join(',')} stroke:#d32f2f,stroke-width:2px\n`;
+    }
+
+    // Imports that break an architecture rule, drawn after cycles so that they stand out
+    const violations = graph.diff ? new Set() : violatingEdges(graph, options.rules);
+    const violationLinks = graph.edges.map((e, i) => violations.has(e) ? i : -1).filter(i => i >= 0);
+    if (violationLinks.length > 0) {
+        mermaidCode += `    linkStyle ${violationLinks.join(',')} stroke:#d50000,stroke-width:4px\n`;
+    }
+
+    // Diffs between two revisions: added in green, removed in dashed red, unchanged muted
+    if (graph.diff) {
+        for (const node of [...graph.files, ...graph.externals]) {
+            if (node.change) mermaidCode += `    style ${node.id} ${CHANGE_STYLES[node.change].node}\n`;
+        }
+        for (const change of ['added', 'removed', 'unchanged'] as ChangeKind[]) {
+            const links = graph.edges.map((e, i) => e.change === change ? i : -1).filter(i => i >= 0);
+            if (links.length > 0) mermaidCode += `    linkStyle ${links.join(',')} ${CHANGE_STYLES[change].link}\n`;
+        }
+    }
+
+    // Metrics heatmap: hotter files are darker, with a thicker border and a larger title
+    if (overlay) {
+        for (const [id, b] of overlay.levels) {
+            mermaidCode += `    style ${id} fill:${b.fill},color:${b.text},stroke:#7f2704,stroke-width:${1 + b.level}px,font-size:${12 + b.level * 3}px\n`;
+        }
+    }
+
+    // The file a focus view is centred on, styled after the cycles so that it stands out either way
+    if (graph.focus) {
+        mermaidCode += `    style ${graph.focus} fill:#fff3e0,stroke:#ef6c00,stroke-width:4px\n`;
+    }
+
+    // Add a dashed pipeline backbone connecting topologically ordered files, capped to avoid clutter
+    if (options.showBackbone) {
+        const pipelineNodes = topologicalOrder(graph).slice(0, options.maxBackboneNodes);
+        for (let i = 0; i < pipelineNodes.length - 1; i++) {
+            mermaidCode += `    ${pipelineNodes[i]} -.-> ${pipelineNodes[i + 1]}\n`;
+        }
+    }
+
+    // Add Start and End nodes to show overall flow from entry points to leaves
+    if (options.showStartEnd) {
+        const startId = 'StartNode';
+        const endId = 'EndNode';
+        mermaidCode += `    ${startId}([Start])\n`;
+        mermaidCode += `    ${endId}([End])\n`;
+
+        // Entry files: files with zero incoming edges
+        for (const f of graph.files) {
+            if (!incoming.get(f.id)) mermaidCode += `    ${startId} --> ${f.id}\n`;
+        }
+
+        // Leaf files: files with zero outgoing edges
+        for (const f of graph.files) {
+            if (!outgoing.get(f.id)) mermaidCode += `    ${f.id} --> ${endId}\n`;
+        }
+    }
+
+    return mermaidCode;
+}
+
+/**
+ * Maps the ids of the file subgraphs and fn/class nodes produced by emitMermaid to their source
+ * locations, so the WebView can open the declaration when a node is clicked
+ * @param graph - The dependency graph passed to emitMermaid
+ * @param options - The options passed to emitMermaid
+ * @returns Node id → source location and tooltip
+ */
+export function getMermaidNodeTargets(graph: DependencyGraph, options: DiagramOptions = DEFAULT_CONFIG): Record<string, NodeTarget> {
+    const targets: Record<string, NodeTarget> = {};
+    for (const b of graph.boundaries) {
+        targets[b.id] = { path: b.path, line: 1, tooltip: `${b.name}\nOutside the selection` };
+    }
+    for (const folder of graph.folders || []) {
+        targets[folder.id] = { path: folder.path, line: 1, tooltip: `${folder.name}/\nClick to collapse`, folder: { name: folder.name, collapsed: false } };
+    }
+    for (const f of graph.files) {
+        if (f.directory) {
+            const name = f.name.replace(/\/$/, '');
+            targets[f.id] = { path: f.path, line: 1, tooltip: `${f.name}\n${f.directory.fileCount} files · ${f.lineCount} lines\nClick to expand`, folder: { name, collapsed: true } };
+            continue;
+        }
+        const fileTooltip = `${f.name}\n${f.lineCount} lines · ${f.imports.length} imports`;
+        targets[f.id] = { path: f.path, line: 1, tooltip: fileTooltip };
+        targets[`${f.id}_file`] = { path: f.path, line: 1, tooltip: fileTooltip };
+
+        const functions = f.symbols.filter(s => s.kind === 'function' || s.kind === 'method').slice(0, options.maxSymbolsPerKind);
+        const classes = f.symbols.filter(s => s.kind === 'class').slice(0, options.maxSymbolsPerKind);
+        for (const symbol of [...functions, ...classes]) {
+            targets[makeId(f.name + '_' + symbol.name)] = {
+                path: f.path,
+                line: symbol.startLine,
+                tooltip: `${symbol.kind} ${symbol.name}\n${f.name}:${symbol.startLine}-${symbol.endLine}${symbol.exported ? ' (exported)' : ''}`
+            };
+        }
+    }
+    return targets;
+}
@@ -0,0 +1,303 @@
+import * as path from 'path';
+import { DEFAULT_CONFIG, DiagramOptions, DiagramTheme } from '../config';
+import { findCycles } from '../cycles';
+import { focusSides } from '../focus';
+import { crossRootEdges, DependencyGraph, topologicalOrder } from '../graph';
+import { layeredLayout, LayoutDirection, LayoutEdge, LayoutNode, PositionedNode } from '../layout';
+import { describeBucket, metricOverlay } from '../metrics';
+import { violatingEdges } from '../rules';
+
+const CHAR_WIDTH = 7;
+const HEADER_HEIGHT = 28;
+const ROW_HEIGHT = 28;
+const ROW_PADDING = 10;
+const PILL_HEIGHT = 36;
+const START_ID = 'StartNode';
+const END_ID = 'EndNode';
+const LEGEND_HEIGHT = 44;
+const LEGEND_SWATCH_WIDTH = 72;
+
+/**
+ * Colours close to Mermaid's built-in themes
+ */
+interface Palette {
+    background: string;
+    text: string;
+    clusterFill: string;
+    clusterStroke: string;
+    nodeFill: string;
+    nodeStroke: string;
+    externalFill: string;
+    edge: string;
+}
+
+const PALETTES: Record<DiagramTheme, Palette> = {
+    default: { background: '#ffffff', text: '#333333', clusterFill: '#ffffde', clusterStroke: '#aaaa33', nodeFill: '#ececff', nodeStroke: '#9370db', externalFill: '#f4f4f4', edge: '#333333' },
+    dark: { background: '#1e1e1e', text: '#cccccc', clusterFill: '#2d2d2d', clusterStroke: '#6b6b6b', nodeFill: '#1f2020', nodeStroke: '#81b1db', externalFill: '#333333', edge: '#d3d3d3' },
+    forest: { background: '#ffffff', text: '#333333', clusterFill: '#cdffb2', clusterStroke: '#6eaa49', nodeFill: '#cde498', nodeStroke: '#13540c', externalFill: '#f4f4f4', edge: '#008000' },
+    neutral: { background: '#ffffff', text: '#333333', clusterFill: '#fafafa', clusterStroke: '#dddddd', nodeFill: '#eeeeee', nodeStroke: '#999999', externalFill: '#f8f8f8', edge: '#666666' }
+};
+
+function styleFor(p: Palette): string {
+    return `
+    text { font-family: 'Trebuchet MS', Verdana, Arial, sans-serif; font-size: 12px; fill: ${p.text}; }
+    .cluster { fill: ${p.clusterFill}; stroke: ${p.clusterStroke}; }
+    .cluster-label { font-weight: bold; }
+    .node { fill: ${p.nodeFill}; stroke: ${p.nodeStroke}; }
+    .external-node { fill: ${p.externalFill}; stroke: #999999; stroke-dasharray: 4 3; }
+    .boundary-node { fill: #fff8e1; stroke: #f9a825; stroke-dasharray: 5 5; }
+    .boundary-node + text { fill: #333333; }
+    .terminal-node { fill: ${p.nodeFill}; stroke: ${p.nodeStroke}; }
+    .edge { fill: none; stroke: ${p.edge}; stroke-width: 1.2; }
+    .edge.external { stroke: #888888; stroke-dasharray: 5 4; }
+    .edge.boundary { stroke-dasharray: 5 4; }
+    .edge.terminal { stroke: #bbbbbb; }
+    .edge.backbone { stroke: #999999; stroke-dasharray: 3 3; }
+    .edge.cross-root { stroke: #1565c0; stroke-width: 2.5; }
+    .root-cluster { fill: none; stroke: ${p.clusterStroke}; stroke-width: 1.5; stroke-dasharray: 8 4; }
+    .root-label { font-size: 14px; font-weight: bold; }
+    .cluster.dependency { fill: #e0f2f1; stroke: #00897b; stroke-width: 2; }
+    .cluster.dependent { fill: #f3e5f5; stroke: #8e24aa; stroke-width: 2; }
+    .cluster.cycle { fill: #ffebee; stroke: #d32f2f; stroke-width: 2; }
+    .cluster.focus { fill: #fff3e0; stroke: #ef6c00; stroke-width: 4; }
+    .edge.cycle { stroke: #d32f2f; stroke-width: 2; }
+    .edge.violation { stroke: #d50000; stroke-width: 3.5; }
+    .cluster.added, .external-node.added { fill: #e8f5e9; stroke: #2e7d32; stroke-width: 2; }
+    .cluster.removed, .external-node.removed { fill: #ffebee; stroke: #c62828; stroke-width: 2; stroke-dasharray: 6 4; }
+    g.unchanged { opacity: 0.45; }
+    .edge.added { stroke: #2e7d32; stroke-width: 2; }
+    .edge.removed { stroke: #c62828; stroke-width: 2; stroke-dasharray: 6 4; }
+    .edge.unchanged { stroke: #bdbdbd; }
+`;
+}
+
+function escapeXml(s: string): string {
+    return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+function textWidth(s: string): number {
+    return s.length * CHAR_WIDTH;
+}
+
+/**
+ * Rows drawn inside a file box: its functions and classes, or a line count when it has none
+ */
+function fileRows(file: DependencyGraph['files'][number], maxSymbolsPerKind: number): string[] {
+    const functions = file.symbols.filter(s => s.kind === 'function' || s.kind === 'method').slice(0, maxSymbolsPerKind);
+    const classes = file.symbols.filter(s => s.kind === 'class').slice(0, maxSymbolsPerKind);
+    const rows = [...functions.map(s => `fn: ${s.name}`), ...classes.map(s => `class: ${s.name}`)];
+    return rows.length > 0 ? rows : [`${path.basename(file.name)} (${file.lineCount} lines)`];
+}
+
+/**
+ * Unit vector of the flow direction
+ */
+function flowVector(direction: LayoutDirection): { x: number; y: number } {
+    switch (direction) {
+        case 'BT': return { x: 0, y: -1 };
+        case 'LR': return { x: 1, y: 0 };
+        case 'RL': return { x: -1, y: 0 };
+        default: return { x: 0, y: 1 };
+    }
+}
+
+/**
+ * A point on the side of a box that faces along (`facing` 1) or against (-1) the flow. Several
+ * edge ends on one side are spread out so they do not overlap.
+ */
+function anchor(node: PositionedNode, direction: LayoutDirection, facing: number, index: number, count: number): { x: number; y: number } {
+    const flow = flowVector(direction);
+    const t = (index + 1) / (count + 1);
+    const centreX = node.x + node.width / 2;
+    const centreY = node.y + node.height / 2;
+    return {
+        x: Math.round(flow.x === 0 ? node.x + node.width * t : centreX + flow.x * facing * node.width / 2),
+        y: Math.round(flow.y === 0 ? node.y + node.height * t : centreY + flow.y * facing * node.height / 2)
+    };
+}
+
+/**
+ * Renders a dependency graph as a standalone SVG without a browser or the Mermaid CLI. Files are
+ * boxes listing their functions and classes, external packages are dashed pills, files outside a
+ * selection are dashed boxes, Start/End mark entry and leaf files and a dashed backbone links the
+ * files in topological order, placed with a layered layout. Workspace roots of a combined graph are framed side by side, imports that break an
+ * architecture rule are red, diff graphs are coloured by change, and focus graphs highlight the
+ * focused file and colour its dependencies and dependents like the Mermaid output. A metric colours and widens
+ * the file boxes and adds a legend below the diagram.
+ * @param graph - The dependency graph
+ * @param options - Symbol limit, backbone and Start/End toggles, direction, theme, architecture rules and metric
+ * @returns SVG document as a string
+ */
+export function emitSvg(graph: DependencyGraph, options: DiagramOptions = DEFAULT_CONFIG): string {
+    const direction: LayoutDirection = options.direction === 'TD' ? 'TB' : options.direction;
+    const palette = PALETTES[options.theme] || PALETTES.default;
+    const nodes: LayoutNode[] = [];
+    const rows = new Map<string, string[]>();
+    const labels = new Map<string, string>();
+    const overlay = metricOverlay(graph, options.metric);
+
+    if (options.showStartEnd) {
+        nodes.push({ id: START_ID, width: 80, height: PILL_HEIGHT });
+        labels.set(START_ID, 'Start');
+    }
+    for (const f of graph.files) {
+        const fileRowList = fileRows(f, options.maxSymbolsPerKind);
+        rows.set(f.id, fileRowList);
+        labels.set(f.id, f.name);
+        const level = overlay && overlay.levels.get(f.id);
+        const width = Math.max(140, textWidth(f.name) + 24, ...fileRowList.map(r => textWidth(r) + 44)) + (level ? level.level * 16 : 0);
+        nodes.push({ id: f.id, width, height: HEADER_HEIGHT + fileRowList.length * ROW_HEIGHT + ROW_PADDING, group: f.root });
+    }
+    for (const ext of graph.externals) {
+        labels.set(ext.id, ext.name);
+        nodes.push({ id: ext.id, width: Math.max(80, textWidth(ext.name) + 28), height: PILL_HEIGHT });
+    }
+    const boundaryIds = new Set(graph.boundaries.map(b => b.id));
+    for (const b of graph.boundaries) {
+        labels.set(b.id, b.name);
+        nodes.push({ id: b.id, width: Math.max(100, textWidth(b.name) + 24), height: PILL_HEIGHT });
+    }
+    if (options.showStartEnd) {
+        nodes.push({ id: END_ID, width: 80, height: PILL_HEIGHT });
+        labels.set(END_ID, 'End');
+    }
+
+    const cycles = graph.diff ? [] : findCycles(graph);
+    const cycleFiles = new Set(cycles.flatMap(c => c.files));
+    const cycleEdges = new Set(cycles.flatMap(c => c.edges));
+    const crossRoot = crossRootEdges(graph);
+    const violations = graph.diff ? new Set() : violatingEdges(graph, options.rules);
+    const sides = focusSides(graph);
+
+    // Same entry/leaf rules as the Mermaid output
+    const edges: (LayoutEdge & { className: string })[] = graph.edges.map(e => ({
+        from: e.from,
+        to: e.to,
+        className: e.change ? `edge ${e.change}${e.kind === 'internal' ? '' : ' ' + e.kind}`
+            : violations.has(e) ? 'edge violation'
+            : e.kind === 'external' ? 'edge external' : e.kind === 'boundary' ? 'edge boundary' : cycleEdges.has(e) ? 'edge cycle' : crossRoot.has(e) ? 'edge cross-root' : 'edge'
+    }));
+    if (options.showStartEnd) {
+        const hasIncoming = new Set(graph.edges.filter(e => e.kind === 'internal').map(e => e.to));
+        const hasOutgoing = new Set(graph.edges.map(e => e.from));
+        for (const f of graph.files) {
+            if (!hasIncoming.has(f.id)) edges.push({ from: START_ID, to: f.id, className: 'edge terminal' });
+            if (!hasOutgoing.has(f.id)) edges.push({ from: f.id, to: END_ID, className: 'edge terminal' });
+        }
+    }
+
+    const layout = layeredLayout(nodes, edges, { direction });
+    // The backbone is drawn like in the Mermaid output but does not place the boxes, which would
+    // put every file on a layer of its own
+    if (options.showBackbone) {
+        const order = topologicalOrder(graph).slice(0, options.maxBackboneNodes);
+        for (let i = 0; i < order.length - 1; i++) edges.push({ from: order[i], to: order[i + 1], className: 'edge backbone' });
+    }
+    const placed = layout.nodes;
+    const filesById = new Map(graph.files.map(f => [f.id, f]));
+    const externalChanges = new Map(graph.externals.map(x => [x.id, x.change]));
+
+    // Order the edge ends on each box by the position of the other end to limit crossings
+    const outgoing = new Map<string, LayoutEdge[]>();
+    const incoming = new Map<string, LayoutEdge[]>();
+    for (const e of edges) {
+        if (!placed.has(e.from) || !placed.has(e.to)) continue;
+        if (!outgoing.has(e.from)) outgoing.set(e.from, []);
+        if (!incoming.has(e.to)) incoming.set(e.to, []);
+        outgoing.get(e.from)!.push(e);
+        incoming.get(e.to)!.push(e);
+    }
+    const flow = flowVector(direction);
+    const across = (id: string) => {
+        const n = placed.get(id)!;
+        return flow.x === 0 ? n.x + n.width / 2 : n.y + n.height / 2;
+    };
+    outgoing.forEach(list => list.sort((a, b) => across(a.to) - across(b.to)));
+    incoming.forEach(list => list.sort((a, b) => across(a.from) - across(b.from)));
+
+    const legendLabel = overlay ? `${overlay.label}:` : '';
+    const width = overlay ? Math.max(layout.width, textWidth(legendLabel) + 32 + overlay.buckets.length * LEGEND_SWATCH_WIDTH) : layout.width;
+    const height = layout.height + (overlay ? LEGEND_HEIGHT : 0);
+    let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">\n`;
+    svg += `<style>${styleFor(palette)}</style>\n`;
+    svg += `<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="${palette.edge}"/></marker>`;
+    svg += '<marker id="arrow-cycle" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="#d32f2f"/></marker></defs>\n';
+    svg += `<rect width="100%" height="100%" fill="${palette.background}"/>\n`;
+
+    // Workspace roots of a combined graph are framed, with the root name in the top-left corner
+    for (const root of graph.roots || []) {
+        const frame = layout.groups.get(root.id);
+        if (!frame) continue;
+        svg += `<g id="${root.id}"><rect class="root-cluster" x="${frame.x}" y="${frame.y}" width="${frame.width}" height="${frame.height}" rx="8"/>`;
+        svg += `<text class="root-label" x="${frame.x + 10}" y="${frame.y + 17}">${escapeXml(root.name)}</text></g>\n`;
+    }
+
+    // Edges first so boxes are drawn over them
+    for (const e of edges) {
+        const from = placed.get(e.from);
+        const to = placed.get(e.to);
+        if (!from || !to) continue;
+        const outList = outgoing.get(e.from)!;
+        const inList = incoming.get(e.to)!;
+        // Edges that close a cycle point against the flow: they leave and enter on the opposite sides.
+        // Backbone edges between boxes of one layer arc around their downstream sides.
+        const forward = to.layer > from.layer ? 1 : -1;
+        const sameLayer = to.layer === from.layer;
+        const s = anchor(from, direction, sameLayer ? 1 : forward, outList.indexOf(e), outList.length);
+        const t = anchor(to, direction, sameLayer ? 1 : -forward, inList.indexOf(e), inList.length);
+        const distance = Math.abs((t.x - s.x) * flow.x + (t.y - s.y) * flow.y);
+        const bend = sameLayer ? 30 : Math.max(30, distance / 2) * forward;
+        const c1 = { x: s.x + flow.x * bend, y: s.y + flow.y * bend };
+        const c2 = sameLayer ? { x: t.x + flow.x * bend, y: t.y + flow.y * bend } : { x: t.x - flow.x * bend, y: t.y - flow.y * bend };
+        svg += `<path class="${e.className}" d="M${s.x},${s.y} C${c1.x},${c1.y} ${c2.x},${c2.y} ${t.x},${t.y}" marker-end="url(#${e.className === 'edge cycle' || e.className === 'edge violation' ? 'arrow-cycle' : 'arrow'})"/>\n`;
+    }
+
+    for (const node of placed.values()) {
+        const label = escapeXml(labels.get(node.id)!);
+        const file = filesById.get(node.id);
+        if (file) {
+            const fileRowList = rows.get(node.id)!;
+            svg += `<g id="${node.id}"${file.change ? ` class="${file.change}"` : ''}><title>${escapeXml(file.name)} (${file.lineCount} lines, ${file.imports.length} imports)</title>\n`;
+            // The focused file keeps its highlight over the heatmap, as in the Mermaid output
+            const level = overlay && node.id !== graph.focus && overlay.levels.get(node.id);
+            const fill = level ? ` style="fill:${level.fill};stroke:#7f2704;stroke-width:${1 + level.level / 2}"` : '';
+            const labelStyle = level ? ` style="fill:${level.text};font-size:${12 + level.level}px"` : '';
+            const highlight = file.change || (node.id === graph.focus ? 'focus' : cycleFiles.has(node.id) ? 'cycle' : sides.get(node.id));
+            svg += `<rect class="cluster${highlight ? ' ' + highlight : ''}" x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}"${fill}/>\n`;
+            svg += `<text class="cluster-label" x="${node.x + node.width / 2}" y="${node.y + 18}" text-anchor="middle"${labelStyle}>${label}</text>\n`;
+            fileRowList.forEach((row, i) => {
+                const rowY = node.y + HEADER_HEIGHT + i * ROW_HEIGHT;
+                svg += `<rect class="node" x="${node.x + 12}" y="${rowY}" width="${node.width - 24}" height="${ROW_HEIGHT - 6}" rx="3"/>\n`;
+                svg += `<text x="${node.x + node.width / 2}" y="${rowY + 15}" text-anchor="middle">${escapeXml(row)}</text>\n`;
+            });
+            svg += '</g>\n';
+        } else if (boundaryIds.has(node.id)) {
+            svg += `<g id="${node.id}"><title>${label} (outside the selection)</title>\n`;
+            svg += `<rect class="boundary-node" x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rx="3"/>\n`;
+            svg += `<text x="${node.x + node.width / 2}" y="${node.y + node.height / 2 + 4}" text-anchor="middle">${label}</text>\n`;
+            svg += '</g>\n';
+        } else {
+            const change = externalChanges.get(node.id);
+            const className = node.id === START_ID || node.id === END_ID ? 'terminal-node' : `external-node${change ? ' ' + change : ''}`;
+            svg += `<g id="${node.id}"${change ? ` class="${change}"` : ''}>\n`;
+            svg += `<rect class="${className}" x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rx="${node.height / 2}"/>\n`;
+            svg += `<text x="${node.x + node.width / 2}" y="${node.y + node.height / 2 + 4}" text-anchor="middle">${label}</text>\n`;
+            svg += '</g>\n';
+        }
+    }
+
+    // Legend of the metrics overlay along the bottom edge
+    if (overlay) {
+        const y = layout.height + 10;
+        svg += `<g id="metricLegend"><text class="cluster-label" x="16" y="${y + 17}">${escapeXml(legendLabel)}</text>\n`;
+        overlay.buckets.forEach((b, i) => {
+            const x = 16 + textWidth(legendLabel) + 16 + i * LEGEND_SWATCH_WIDTH;
+            svg += `<rect x="${x}" y="${y}" width="${LEGEND_SWATCH_WIDTH - 6}" height="24" rx="3" style="fill:${b.fill};stroke:#7f2704"/>\n`;
+            svg += `<text x="${x + (LEGEND_SWATCH_WIDTH - 6) / 2}" y="${y + 16}" text-anchor="middle" style="fill:${b.text}">${escapeXml(describeBucket(b))}</text>\n`;
+        });
+        svg += '</g>\n';
+    }
+
+    svg += '</svg>\n';
+    return svg;
+}
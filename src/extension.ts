@@ -1,312 +1,138 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import * as util from 'util';
-import { spawn } from 'child_process';
-import { promisify } from 'util';
+import { buildCallGraph, convertCallGraphToFlowchart } from './callGraph';
+import { buildClassModel, emitClassDiagram } from './classDiagram';
+import { autoCollapseDepth, ClusterView, collapseGraph, toggleFolder } from './clusters';
+import { ArchitectureRule, DEFAULT_CONFIG, DiagramOptions, DiagramTheme, FlowchartConfig, loadProjectConfig, MetricKind, METRICS, resolveConfig, validateConfig } from './config';
+import { buildFunctionFlowchart } from './controlFlow';
+import { DependencyCycle, findCycles, formatCycleReport } from './cycles';
+import { diffGraphs, formatGraphDiff } from './diff';
+import { publishCycleDiagnostics, publishRuleDiagnostics } from './diagnostics';
+import { emitGraph, emitMermaid, FORMAT_EXTENSIONS, getMermaidNodeTargets, NodeTarget, OutputFormat } from './emitters';
+import { FocusDepth, focusGraph } from './focus';
+import { buildDependencyGraph, BuildGraphOptions, buildWorkspaceGraph, DependencyGraph, ParseCache, withoutExternals, WorkspaceRoot } from './graph';
+import { createMultiRootResolver } from './languages';
+import { watchConfig, watchFolder } from './liveUpdate';
+import { computeMetrics, FileMetrics, formatMetricsCsv, formatMetricsJson, METRIC_LABELS, sortHotspots } from './metrics';
+import { createImportResolver } from './resolver';
+import { createPanelManager, DiagramPanel, PANEL_VIEW_TYPE, PanelInfo, PanelManager } from './panels';
+import { buildRevisionGraph } from './revision';
+import { checkRules, formatRuleReport, RuleViolation } from './rules';
+import { buildSequenceDiagram } from './sequence';
+import { FileInfo, formatSkipCounts, readFolderRecursive, SkipCounts } from './scanner';
 
 /**
- * File information interface
+ * Language ids the function flowchart command can parse
  */
-interface FileInfo {
-    path: string;
-    name: string;
-    content: string;
-    lineCount: number;
-}
+const FUNCTION_FLOW_LANGUAGES = ['typescript', 'javascript', 'typescriptreact', 'javascriptreact'];
 
 /**
- * Converts code string into a Mermaid flowchart
- * @param code - The source code to convert
- * @returns Mermaid flowchart syntax as a string
+ * Creates a random nonce that allows only our own inline script to run under the WebView CSP
  */
-function convertToFlowchart(code: string): string {
-    // Simple placeholder implementation
-    // This can be replaced with a real parser or AI-based conversion later
-    const lines = code.split('\n').filter(line => line.trim().length > 0);
-    const lineCount = lines.length;
-    
-    // Generate a simple flowchart structure
-    let mermaidCode = 'flowchart TD\n';
-    mermaidCode += '    Start([Start]) --> Process1["Code parsed"]\n';
-    mermaidCode += `    Process1 --> Process2["${lineCount} lines of code"]\n`;
-    mermaidCode += '    Process2 --> End([End])\n';
-    
-    return mermaidCode;
+function getNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return nonce;
 }
 
 /**
- * Converts multiple files into a Mermaid flowchart
- * @param files - Array of file information
- * @param folderName - Name of the folder
- * @returns Mermaid flowchart syntax as a string
+ * Escapes text for use in the WebView's HTML
  */
-function convertFolderToFlowchart(files: FileInfo[], folderName: string): string {
-    // Build a richer Mermaid graph: each file is a subgraph containing functions/classes
-    // and edges are created for resolved relative imports; external packages are shown as external nodes.
-    const text = files;
-
-    function makeId(s: string) {
-        return s.replace(/[^a-zA-Z0-9_]/g, '_').replace(/^_+/, '');
-    }
-
-    function extractImportsAndSymbols(content: string) {
-        const imports: string[] = [];
-        const functions: string[] = [];
-        const classes: string[] = [];
-
-        const importRe = /import\s+(?:[^'";]+from\s+)?['"]([^'"]+)['"];?/g;
-        let m: RegExpExecArray | null;
-        while ((m = importRe.exec(content)) !== null) {
-            imports.push(m[1]);
-        }
-
-        const requireRe = /require\(['"]([^'"]+)['"]\)/g;
-        while ((m = requireRe.exec(content)) !== null) {
-            imports.push(m[1]);
-        }
-
-        const functionRe = /function\s+([a-zA-Z0-9_]+)\s*\(|const\s+([a-zA-Z0-9_]+)\s*=\s*\(?\s*\)?\s*=>/g;
-        while ((m = functionRe.exec(content)) !== null) {
-            const name = m[1] || m[2];
-            if (name) functions.push(name);
-        }
-
-        const classRe = /class\s+([a-zA-Z0-9_]+)/g;
-        while ((m = classRe.exec(content)) !== null) {
-            classes.push(m[1]);
-        }
-
-        return { imports, functions, classes };
-    }
-
-    function resolveImport(fromFile: string, imp: string): string | null {
-        if (imp.startsWith('.') || imp.startsWith('/')) {
-            const base = path.resolve(path.dirname(fromFile), imp);
-            const candidates = [base, base + '.ts', base + '.js', base + '.tsx', base + '.jsx', path.join(base, 'index.ts'), path.join(base, 'index.js')];
-            for (const c of candidates) {
-                try {
-                    if (fs.existsSync(c) && fs.statSync(c).isFile()) return path.resolve(c);
-                } catch (e) {
-                    // ignore
-                }
-            }
-        }
-        return null;
-    }
-
-    const nodes: { file: FileInfo; imports: string[]; functions: string[]; classes: string[] }[] = [];
-    for (const f of text) {
-        const { imports, functions, classes } = extractImportsAndSymbols(f.content);
-        nodes.push({ file: f, imports, functions, classes });
-    }
-
-    const byResolvedPath = new Map<string, typeof nodes[0]>();
-    for (const n of nodes) {
-        byResolvedPath.set(path.resolve(n.file.path), n);
-    }
-
-    let mermaidCode = 'flowchart TD\n';
-
-    // Create subgraphs for files
-    for (const n of nodes) {
-        const id = makeId(n.file.name);
-        mermaidCode += `    subgraph ${id}[${n.file.name}]\n`;
-        for (const fn of n.functions.slice(0, 8)) {
-            const nid = makeId(n.file.name + '_' + fn);
-            mermaidCode += `        ${nid}["fn: ${fn}"]\n`;
-        }
-        for (const c of n.classes.slice(0, 8)) {
-            const cid = makeId(n.file.name + '_' + c);
-            mermaidCode += `        ${cid}["class: ${c}"]\n`;
-        }
-        // fallback node when no symbols found
-        if (n.functions.length === 0 && n.classes.length === 0) {
-            mermaidCode += `        ${id}_file["${path.basename(n.file.name)}\\n${n.file.lineCount} lines"]\n`;
-        }
-        mermaidCode += '    end\n';
-    }
-
-    // Create edges for imports
-    // Track incoming/outgoing edges to identify entry and leaf files
-    const incoming = new Map<string, number>();
-    const outgoing = new Map<string, number>();
-    for (const n of nodes) {
-        const fromId = makeId(n.file.name);
-        outgoing.set(fromId, 0);
-        incoming.set(fromId, incoming.get(fromId) || 0);
-    }
-
-    // Build adjacency for topological ordering and also render import edges
-    const adjacency = new Map<string, Set<string>>();
-    for (const n of nodes) {
-        const fromId = makeId(n.file.name);
-        if (!adjacency.has(fromId)) adjacency.set(fromId, new Set());
-        for (const imp of n.imports) {
-            const resolved = resolveImport(n.file.path, imp);
-            if (resolved) {
-                const target = byResolvedPath.get(path.resolve(resolved));
-                if (target) {
-                    const toId = makeId(target.file.name);
-                    mermaidCode += `    ${fromId} --> ${toId}\n`;
-                    adjacency.get(fromId)!.add(toId);
-                    outgoing.set(fromId, (outgoing.get(fromId) || 0) + 1);
-                    incoming.set(toId, (incoming.get(toId) || 0) + 1);
-                }
-            } else {
-                if (!imp.startsWith('.')) {
-                    const extId = makeId('ext_' + imp);
-                    mermaidCode += `    ${fromId} --> ${extId}["${imp}"]\n`;
-                    adjacency.get(fromId)!.add(extId);
-                    outgoing.set(fromId, (outgoing.get(fromId) || 0) + 1);
-                }
-            }
-        }
-    }
-
-    // Compute a topological-like ordering for files to present a pipeline backbone
-    const inDegreeMap = new Map<string, number>();
-    for (const [k, v] of incoming.entries()) inDegreeMap.set(k, v || 0);
-    // Ensure all nodes present
-    for (const id of adjacency.keys()) if (!inDegreeMap.has(id)) inDegreeMap.set(id, 0);
-
-    const q: string[] = [];
-    for (const [id, deg] of inDegreeMap.entries()) {
-        if ((deg || 0) === 0 && id && id !== '') q.push(id);
-    }
-
-    const topoOrder: string[] = [];
-    while (q.length > 0) {
-        const cur = q.shift()!;
-        topoOrder.push(cur);
-        const neigh = adjacency.get(cur);
-        if (!neigh) continue;
-        for (const nb of neigh) {
-            const curDeg = inDegreeMap.get(nb) || 0;
-            inDegreeMap.set(nb, curDeg - 1);
-            if (curDeg - 1 === 0) q.push(nb);
-        }
-    }
-
-    // If topoOrder doesn't include all (due to cycles), append remaining nodes
-    if (topoOrder.length < nodes.length) {
-        for (const n of nodes) {
-            const id = makeId(n.file.name);
-            if (!topoOrder.includes(id)) topoOrder.push(id);
-        }
-    }
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
 
-    // Add a dashed pipeline backbone connecting topologically ordered files (limited to avoid clutter)
-    const MAX_PIPE_NODES = 200;
-    const pipelineNodes = topoOrder.slice(0, Math.min(topoOrder.length, MAX_PIPE_NODES));
-    for (let i = 0; i < pipelineNodes.length - 1; i++) {
-        mermaidCode += `    ${pipelineNodes[i]} -.-> ${pipelineNodes[i + 1]}\n`;
-    }
+/**
+ * Optional parts of the WebView page
+ */
+interface WebviewOptions {
+    fileCount?: number;
+    nodeTargets?: Record<string, NodeTarget>;
+    theme?: DiagramTheme;
+    /** Shows the depth controls of the focus view, for the file with this display name */
+    focus?: { name: string; depth: FocusDepth };
+    /** Plain text shown above the diagram, e.g. the changes of a revision diff */
+    summary?: string;
+    /** Shows the metric picker, and the hotspot table while a metric is picked */
+    metrics?: HotspotTable;
+    /** Shows a toggle for each of these layers; panels that cannot redraw their diagram leave it unset */
+    layers?: LayerState;
+    /** Shows the pin toggle; the page saves it with the diagram so that the panel is restored after a reload */
+    panel?: PanelInfo;
+}
 
-    // Add Start and End nodes to show overall flow from entry points to leaves
-    const startId = 'StartNode';
-    const endId = 'EndNode';
-    mermaidCode += `    ${startId}([Start])\n`;
-    mermaidCode += `    ${endId}([End])\n`;
+/**
+ * What the page saves with `setState`; VS Code hands it back when it restores the panel
+ */
+interface SavedPanelState {
+    panel: PanelInfo;
+    mermaidCode: string;
+    nodeTargets: Record<string, NodeTarget>;
+    theme: DiagramTheme;
+    summary?: string;
+}
 
-    // Entry files: files with zero incoming edges
-    for (const n of nodes) {
-        const id = makeId(n.file.name);
-        if (!incoming.get(id) || incoming.get(id) === 0) {
-            mermaidCode += `    ${startId} --> ${id}\n`;
-        }
-    }
+/**
+ * Parts of a dependency diagram that the panel toolbar can hide
+ */
+type DiagramLayer = 'externals' | 'backbone' | 'startEnd' | 'symbols';
 
-    // Leaf files: files with zero outgoing edges
-    for (const n of nodes) {
-        const id = makeId(n.file.name);
-        if (!outgoing.get(id) || outgoing.get(id) === 0) {
-            mermaidCode += `    ${id} --> ${endId}\n`;
-        }
-    }
+const LAYER_LABELS: Record<DiagramLayer, string> = {
+    externals: 'Packages',
+    backbone: 'Backbone',
+    startEnd: 'Start/End',
+    symbols: 'fn/class nodes'
+};
 
-    return mermaidCode;
-}
+/**
+ * Whether each layer is shown; layers a panel never draws are left out
+ */
+type LayerState = Partial<Record<DiagramLayer, boolean>>;
 
 /**
- * Checks if a path should be ignored
+ * Applies the layer toggles of a panel to the graph and options it is drawn from
+ * @param graph - The graph about to be drawn
+ * @param options - Diagram options from the configuration
+ * @param layers - The panel's toggles; unset layers keep the configured behaviour
  */
-function shouldIgnorePath(filePath: string): boolean {
-    const ignorePatterns = [
-        'node_modules',
-        '.git',
-        '.vscode',
-        'out',
-        'dist',
-        'build',
-        '.next',
-        '.cache',
-        'coverage',
-        '.DS_Store',
-        'package-lock.json',
-        'yarn.lock',
-        '.env',
-        '.env.local'
-    ];
-    
-    return ignorePatterns.some(pattern => filePath.includes(pattern));
+function applyLayers<T extends DiagramOptions>(graph: DependencyGraph, options: T, layers: LayerState): { graph: DependencyGraph; options: T } {
+    return {
+        graph: layers.externals === false ? withoutExternals(graph) : graph,
+        options: {
+            ...options,
+            showBackbone: layers.backbone === undefined ? options.showBackbone : layers.backbone,
+            showStartEnd: layers.startEnd === undefined ? options.showStartEnd : layers.startEnd,
+            // Without symbols every file is drawn as its fallback node with the line count
+            maxSymbolsPerKind: layers.symbols === false ? 0 : options.maxSymbolsPerKind
+        }
+    };
 }
 
 /**
- * Gets file extension
+ * Rows of the hotspot table and the metric the diagram is coloured by
  */
-function getFileExtension(fileName: string): string {
-    const ext = path.extname(fileName).toLowerCase();
-    return ext || 'no-ext';
+interface HotspotTable {
+    metric: MetricKind | 'none';
+    rows: FileMetrics[];
 }
 
 /**
- * Recursively reads all files in a directory
+ * Takes the layer toggles posted by the panel; only layers the panel has are changed
+ * @param current - The panel's current layers
+ * @param posted - Layer name → shown, from the WebView message
  */
-async function readFolderRecursive(folderPath: string): Promise<FileInfo[]> {
-    const files: FileInfo[] = [];
-    const readdir = util.promisify(fs.readdir);
-    const stat = util.promisify(fs.stat);
-    const readFile = util.promisify(fs.readFile);
-    
-    async function processEntry(entryPath: string, relativePath: string): Promise<void> {
-        if (shouldIgnorePath(entryPath)) {
-            return;
-        }
-        
-        const stats = await stat(entryPath);
-        
-        if (stats.isDirectory()) {
-            const entries = await readdir(entryPath);
-            for (const entry of entries) {
-                await processEntry(path.join(entryPath, entry), path.join(relativePath, entry));
-            }
-        } else if (stats.isFile()) {
-            // Only process text-based files
-            const ext = getFileExtension(entryPath);
-            const textExtensions = ['.js', '.ts', '.jsx', '.tsx', '.py', '.java', '.cpp', '.c', '.cs', '.go', '.rs', '.php', '.rb', '.swift', '.kt', '.html', '.css', '.json', '.xml', '.yaml', '.yml', '.md', '.txt'];
-            
-            if (textExtensions.includes(ext) || ext === 'no-ext') {
-                try {
-                    const content = await readFile(entryPath, 'utf-8');
-                    const lineCount = content.split('\n').length;
-                    
-                    files.push({
-                        path: entryPath,
-                        name: relativePath,
-                        content: content,
-                        lineCount: lineCount
-                    });
-                } catch (error) {
-                    // Skip files that can't be read
-                    console.warn(`Skipping file ${entryPath}: ${error}`);
-                }
-            }
-        }
+function toggledLayers(current: LayerState, posted: unknown): LayerState {
+    const next = { ...current };
+    if (typeof posted !== 'object' || posted === null) return next;
+    for (const layer of Object.keys(current) as DiagramLayer[]) {
+        const shown = (posted as Record<string, unknown>)[layer];
+        if (typeof shown === 'boolean') next[layer] = shown;
     }
-    
-    await processEntry(folderPath, path.basename(folderPath));
-    return files;
+    return next;
 }
 
 /**
@@ -314,33 +140,81 @@ async function readFolderRecursive(folderPath: string): Promise<FileInfo[]> {
  * @param mermaidCode - The Mermaid flowchart code to render
  * @param webview - The WebView instance
  * @param extensionUri - The URI of the extension
- * @param fileCount - Optional number of files (for folder view)
+ * @param options - Number of files and source locations of clickable nodes (for folder view), Mermaid theme, focus view controls, summary text, metric picker, hotspots, layer toggles and panel info
  * @returns HTML string
  */
-function getWebviewContent(mermaidCode: string, webview: vscode.Webview, extensionUri: vscode.Uri, fileCount?: number): string {
+function getWebviewContent(mermaidCode: string, webview: vscode.Webview, extensionUri: vscode.Uri, options: WebviewOptions = {}): string {
+    const { fileCount, nodeTargets = {}, theme = 'default', focus, summary, metrics, layers, panel } = options;
     // Get the path to the CSS file
     const styleUri = webview.asWebviewUri(
         vscode.Uri.joinPath(extensionUri, 'media', 'style.css')
     );
-
-    const statsHtml = fileCount ? `<div class="stats">Processing ${fileCount} files</div>` : '';
+    // Mermaid is bundled into media/ by `npm run copy-mermaid` so the panel works offline
+    const mermaidUri = webview.asWebviewUri(
+        vscode.Uri.joinPath(extensionUri, 'media', 'mermaid.min.js')
+    );
+    const nonce = getNonce();
+
+    const statsHtml = fileCount ? `<div class="stats" id="stats">Processing ${fileCount} files</div>` : '';
+    const focusHtml = focus ? `<div class="focus-controls">
+            <span id="focusName">${escapeHtml(focus.name)}</span>
+            <label>Imports depth<input type="number" id="focusDependencies" min="0" max="20" value="${focus.depth.dependencies}"></label>
+            <label>Importers depth<input type="number" id="focusDependents" min="0" max="20" value="${focus.depth.dependents}"></label>
+        </div>` : '';
+    const summaryHtml = summary ? `<pre class="diff-summary">${escapeHtml(summary)}</pre>` : '';
+    const metricOptions = [['none', 'None'], ...METRICS.map(m => [m, METRIC_LABELS[m]])]
+        .map(([value, label]) => `<option value="${value}"${metrics && metrics.metric === value ? ' selected' : ''}>${label}</option>`).join('');
+    const metricHtml = metrics ? `<div class="metric-controls">
+            <label>Color by<select id="metricSelect">${metricOptions}</select></label>
+            <span id="hotspotExport">
+                <button data-format="csv">Export hotspots as CSV</button>
+                <button data-format="json">Export hotspots as JSON</button>
+            </span>
+        </div>` : '';
+    const layerHtml = layers ? `<span class="layer-toggles">${(Object.keys(layers) as DiagramLayer[])
+        .map(layer => `<label><input type="checkbox" data-layer="${layer}"${layers[layer] ? ' checked' : ''}>${LAYER_LABELS[layer]}</label>`).join('')}</span>` : '';
+    const pinHtml = panel ? `<label class="pin-toggle" title="A pinned panel keeps its diagram; other diagrams of the folder open in another panel">
+                <input type="checkbox" id="pinToggle"${panel.pinned ? ' checked' : ''}>Pin
+            </label>` : '';
+    // Escape `<` so a file name can never close the inline script
+    const targetsJson = JSON.stringify(nodeTargets).replace(/</g, '\\u003c');
+    const metricsJson = JSON.stringify(metrics || null).replace(/</g, '\\u003c');
+    const codeJson = JSON.stringify(mermaidCode).replace(/</g, '\\u003c');
+    const pageJson = JSON.stringify({ panel, theme, summary }).replace(/</g, '\\u003c');
 
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} data:; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>Code Flowchart</title>
     <link href="${styleUri}" rel="stylesheet">
-    <script src="https://cdn.jsdelivr.net/npm/mermaid@10/dist/mermaid.min.js"></script>
+    <script nonce="${nonce}" src="${mermaidUri}"></script>
 </head>
 <body>
     <div class="container">
         <h1>Code Flowchart</h1>
         ${statsHtml}
+        ${focusHtml}
+        ${summaryHtml}
+        ${metricHtml}
+        <div id="renderError" class="render-error" style="display:none;"></div>
+        <div class="toolbar">
+            <button id="zoomIn" title="Zoom in">+</button>
+            <button id="zoomOut" title="Zoom out">&minus;</button>
+            <button id="zoomFit" title="Fit the diagram into the panel">Fit</button>
+            <button id="zoomReset" title="Actual size">100%</button>
+            <input type="search" id="searchBox" placeholder="Search nodes" title="Enter: next match, Shift+Enter: previous match">
+            <span id="searchCount" class="search-count"></span>
+            ${layerHtml}
+            ${pinHtml}
+        </div>
         <div id="diagramArea">
-            <div class="mermaid" id="mermaidChart">
+            <div id="diagramViewport" class="diagram-viewport">
+                <div class="mermaid" id="mermaidChart">
 ${mermaidCode}
+                </div>
             </div>
             <div style="margin-top:12px; display:flex; gap:8px; align-items:center;">
                 <button id="exportSvgBtn">Show SVG Image / Download</button>
@@ -348,19 +222,329 @@ ${mermaidCode}
             </div>
             <div id="svgImageContainer" style="margin-top:12px;"></div>
         </div>
+        <div id="hotspots" class="hotspots"></div>
     </div>
-    <script>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        let nodeTargets = ${targetsJson};
+        let metrics = ${metricsJson};
+
+        // The diagram, its view and the panel info are saved with the page, which is all VS Code
+        // keeps of the panel over a reload
+        const pageState = ${pageJson};
+        let mermaidCode = ${codeJson};
+        const saved = vscode.getState();
+        // A restored panel opens where it was left; a panel reused for another diagram starts fitted
+        const restored = saved && saved.mermaidCode === mermaidCode ? saved : null;
+        let saveTimer;
+        function saveState() {
+            if (!pageState.panel) return;
+            clearTimeout(saveTimer);
+            saveTimer = setTimeout(() => vscode.setState({ ...pageState, mermaidCode, nodeTargets, view, search: searchBox.value }), 250);
+        }
+
+        // Show failures in the panel instead of leaving it blank
+        function showRenderError(message) {
+            const box = document.getElementById('renderError');
+            box.textContent = 'Could not render the flowchart: ' + message;
+            box.style.display = 'block';
+        }
+
+        if (typeof mermaid === 'undefined') {
+            showRenderError('media/mermaid.min.js is missing. Run \`npm run compile\` to bundle Mermaid with the extension.');
+            throw new Error('Mermaid not loaded');
+        }
+
         mermaid.initialize({ 
-            startOnLoad: true,
-            theme: 'default',
+            startOnLoad: false,
+            theme: '${theme}',
             maxTextSize: 1000000,
+            // Diagrams keep their natural size; the viewport zooms and pans them
             flowchart: {
-                useMaxWidth: true,
+                useMaxWidth: false,
                 htmlLabels: true,
                 curve: 'basis'
+            },
+            class: { useMaxWidth: false },
+            sequence: { useMaxWidth: false }
+        });
+
+        /**
+         * Mermaid renders nodes as \`flowchart-<id>-<n>\` (classes as \`classId-<id>-<n>\`, or with a
+         * \`data-id\`) and subgraphs under their own id
+         */
+        function nodeIdOf(element) {
+            const candidates = [element.getAttribute('data-id'), element.id];
+            const m = element.id.match(/(?:flowchart|classId)-(.+)-\\d+$/);
+            if (m) candidates.push(m[1]);
+            return candidates.find(id => id && Object.prototype.hasOwnProperty.call(nodeTargets, id));
+        }
+
+        // Clicking a file or symbol node opens it in the editor, clicking a folder expands or
+        // collapses it; hovering shows where it lives
+        function attachNodeNavigation() {
+            const svg = findRenderedSVG();
+            if (!svg) return;
+            svg.querySelectorAll('g.node, g.cluster').forEach(element => {
+                const id = nodeIdOf(element);
+                if (!id) return;
+                const target = nodeTargets[id];
+                const title = document.createElementNS('http://www.w3.org/2000/svg', 'title');
+                title.textContent = target.tooltip;
+                element.insertBefore(title, element.firstChild);
+                element.style.cursor = 'pointer';
+                element.addEventListener('click', event => {
+                    // Clicks on a symbol must not also open its enclosing file subgraph
+                    event.stopPropagation();
+                    if (target.folder) {
+                        vscode.postMessage({ command: 'toggleFolder', folder: target.folder.name, collapsed: target.folder.collapsed });
+                    } else {
+                        vscode.postMessage({ command: 'openFile', path: target.path, line: target.line });
+                    }
+                });
+            });
+        }
+
+        // Pan and zoom: the chart keeps its natural size and is moved with a CSS transform inside the viewport
+        const viewport = document.getElementById('diagramViewport');
+        const chart = document.getElementById('mermaidChart');
+        const MIN_SCALE = 0.05;
+        const MAX_SCALE = 8;
+        let view = { x: 0, y: 0, scale: 1 };
+        function applyView() {
+            chart.style.transform = 'translate(' + view.x + 'px, ' + view.y + 'px) scale(' + view.scale + ')';
+            saveState();
+        }
+        function zoomAt(factor, x, y) {
+            const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, view.scale * factor));
+            view = { x: x - (x - view.x) * scale / view.scale, y: y - (y - view.y) * scale / view.scale, scale };
+            applyView();
+        }
+        function zoomCenter(factor) {
+            zoomAt(factor, viewport.clientWidth / 2, viewport.clientHeight / 2);
+        }
+        // Scales the chart to the viewport and centres it; maxScale keeps small diagrams from being blown up
+        function fitToScreen(maxScale) {
+            const width = chart.offsetWidth;
+            const height = chart.offsetHeight;
+            if (!width || !height) return;
+            const scale = Math.max(MIN_SCALE, Math.min(maxScale, viewport.clientWidth / width, viewport.clientHeight / height));
+            view = { x: (viewport.clientWidth - width * scale) / 2, y: (viewport.clientHeight - height * scale) / 2, scale };
+            applyView();
+        }
+
+        viewport.addEventListener('wheel', event => {
+            event.preventDefault();
+            const box = viewport.getBoundingClientRect();
+            zoomAt(Math.exp(-event.deltaY * 0.0015), event.clientX - box.left, event.clientY - box.top);
+        }, { passive: false });
+
+        // Dragging pans; the click that ends a drag must not open the node it started on
+        let drag = null;
+        let suppressClick = false;
+        viewport.addEventListener('mousedown', event => {
+            if (event.button !== 0) return;
+            drag = { x: event.clientX, y: event.clientY, view: { ...view }, moved: false };
+        });
+        window.addEventListener('mousemove', event => {
+            if (!drag) return;
+            const dx = event.clientX - drag.x;
+            const dy = event.clientY - drag.y;
+            if (!drag.moved && Math.abs(dx) + Math.abs(dy) < 4) return;
+            drag.moved = true;
+            viewport.classList.add('panning');
+            view = { ...drag.view, x: drag.view.x + dx, y: drag.view.y + dy };
+            applyView();
+        });
+        window.addEventListener('mouseup', () => {
+            if (drag && drag.moved) suppressClick = true;
+            drag = null;
+            viewport.classList.remove('panning');
+        });
+        viewport.addEventListener('click', event => {
+            if (!suppressClick) return;
+            suppressClick = false;
+            event.stopPropagation();
+            event.preventDefault();
+        }, true);
+
+        document.getElementById('zoomIn').addEventListener('click', () => zoomCenter(1.25));
+        document.getElementById('zoomOut').addEventListener('click', () => zoomCenter(0.8));
+        document.getElementById('zoomFit').addEventListener('click', () => fitToScreen(MAX_SCALE));
+        document.getElementById('zoomReset').addEventListener('click', () => zoomCenter(1 / view.scale));
+
+        // Search highlights every node whose label contains the text and centres the current match
+        const searchBox = document.getElementById('searchBox');
+        let matches = [];
+        let matchIndex = -1;
+        function labelOf(element) {
+            // The hover tooltip is the first child of clickable nodes and is not part of the label
+            const title = element.querySelector(':scope > title');
+            return (element.textContent || '').slice(title ? title.textContent.length : 0).toLowerCase();
+        }
+        function centerOn(element) {
+            const box = element.getBoundingClientRect();
+            const area = viewport.getBoundingClientRect();
+            view = { ...view, x: view.x + area.left + area.width / 2 - (box.left + box.width / 2), y: view.y + area.top + area.height / 2 - (box.top + box.height / 2) };
+            applyView();
+        }
+        function showMatch(index, center = true) {
+            matches.forEach(m => m.classList.remove('search-current'));
+            const count = document.getElementById('searchCount');
+            if (matches.length === 0) {
+                matchIndex = -1;
+                count.textContent = searchBox.value.trim() ? 'No matches' : '';
+                return;
             }
+            matchIndex = (index + matches.length) % matches.length;
+            matches[matchIndex].classList.add('search-current');
+            if (center) centerOn(matches[matchIndex]);
+            count.textContent = (matchIndex + 1) + ' of ' + matches.length;
+        }
+        function searchNodes() {
+            const query = searchBox.value.trim().toLowerCase();
+            const svg = findRenderedSVG();
+            matches.forEach(m => m.classList.remove('search-match', 'search-current'));
+            matches = query && svg ? [...svg.querySelectorAll('g.node, g.cluster, text.actor, text.messageText')].filter(e => labelOf(e).includes(query)) : [];
+            matches.forEach(m => m.classList.add('search-match'));
+        }
+        searchBox.addEventListener('input', () => {
+            searchNodes();
+            showMatch(0);
+            saveState();
+        });
+        searchBox.addEventListener('keydown', event => {
+            if (event.key !== 'Enter') return;
+            event.preventDefault();
+            showMatch(matchIndex + (event.shiftKey ? -1 : 1));
+        });
+
+        // Hiding a layer redraws the diagram from the graph the extension already built
+        document.querySelectorAll('.layer-toggles input').forEach(input => {
+            input.addEventListener('change', () => {
+                const layers = {};
+                document.querySelectorAll('.layer-toggles input').forEach(toggle => { layers[toggle.dataset.layer] = toggle.checked; });
+                vscode.postMessage({ command: 'setLayers', layers });
+            });
         });
 
+        const pinToggle = document.getElementById('pinToggle');
+        if (pinToggle) pinToggle.addEventListener('change', () => vscode.postMessage({ command: 'setPinned', pinned: pinToggle.checked }));
+
+        mermaid.run({ querySelector: '#mermaidChart' })
+            .then(() => {
+                attachNodeNavigation();
+                if (restored && restored.view) {
+                    view = restored.view;
+                    applyView();
+                } else {
+                    // Large diagrams start fitted to the panel, small ones at their actual size
+                    fitToScreen(1);
+                }
+                if (restored && restored.search) {
+                    searchBox.value = restored.search;
+                    searchNodes();
+                    showMatch(0, false);
+                }
+                saveState();
+            })
+            .catch(error => showRenderError(error && error.message ? error.message : String(error)));
+
+        // Live panels receive a new diagram after file changes; re-render in place and keep the zoom, pan and search
+        let renderCount = 0;
+        window.addEventListener('message', async event => {
+            const message = event.data;
+            if (message.command === 'panelInfo') {
+                pageState.panel = message.panel;
+                saveState();
+                return;
+            }
+            if (message.command !== 'update') return;
+            const scroll = { x: window.scrollX, y: window.scrollY };
+            try {
+                const { svg } = await mermaid.render('liveDiagram' + (++renderCount), message.mermaidCode);
+                nodeTargets = message.nodeTargets;
+                mermaidCode = message.mermaidCode;
+                chart.innerHTML = svg;
+                attachNodeNavigation();
+                searchNodes();
+                showMatch(Math.max(0, matchIndex), false);
+                document.getElementById('renderError').style.display = 'none';
+                const stats = document.getElementById('stats');
+                if (stats && message.fileCount) stats.textContent = 'Processing ' + message.fileCount + ' files';
+                const focusName = document.getElementById('focusName');
+                if (focusName && message.focusName) focusName.textContent = message.focusName;
+                if (message.metrics) {
+                    metrics = message.metrics;
+                    renderHotspots();
+                }
+                saveState();
+            } catch (error) {
+                showRenderError(error && error.message ? error.message : String(error));
+            }
+            window.scrollTo(scroll.x, scroll.y);
+        });
+
+        // The focus view is redrawn by the extension when a depth changes
+        ['focusDependencies', 'focusDependents'].forEach(id => {
+            const input = document.getElementById(id);
+            if (!input) return;
+            input.addEventListener('change', () => {
+                const depth = value => Math.max(0, Math.floor(Number(document.getElementById(value).value) || 0));
+                vscode.postMessage({ command: 'setFocusDepth', dependencies: depth('focusDependencies'), dependents: depth('focusDependents') });
+            });
+        });
+
+        // Hotspot table of the picked metric; clicking a header sorts by that column, clicking a row opens the file
+        const HOTSPOT_COLUMNS = [['name', 'File'], ['fanIn', 'Fan-in'], ['fanOut', 'Fan-out'], ['lines', 'Lines'], ['symbols', 'Symbols'], ['complexity', 'Complexity']];
+        let hotspotSort = { key: metrics ? metrics.metric : 'none', descending: true };
+        function renderHotspots() {
+            const box = document.getElementById('hotspots');
+            const exportButtons = document.getElementById('hotspotExport');
+            const active = metrics && metrics.metric !== 'none';
+            box.innerHTML = '';
+            if (exportButtons) exportButtons.style.display = active ? 'inline-flex' : 'none';
+            if (!active) return;
+            const { key, descending } = hotspotSort;
+            const rows = [...metrics.rows].sort((a, b) => {
+                const order = key === 'name' ? a.name.localeCompare(b.name) : a[key] - b[key];
+                return (descending ? -order : order) || a.name.localeCompare(b.name);
+            });
+            const table = document.createElement('table');
+            const head = table.createTHead().insertRow();
+            HOTSPOT_COLUMNS.forEach(([column, label]) => {
+                const th = document.createElement('th');
+                th.textContent = label + (column === key ? (descending ? ' ▼' : ' ▲') : '');
+                th.addEventListener('click', () => {
+                    hotspotSort = { key: column, descending: column === key ? !descending : column !== 'name' };
+                    renderHotspots();
+                });
+                head.appendChild(th);
+            });
+            const body = table.createTBody();
+            rows.forEach(row => {
+                const tr = body.insertRow();
+                HOTSPOT_COLUMNS.forEach(([column]) => {
+                    const td = tr.insertCell();
+                    td.textContent = column === 'complexity' && row.mostComplex ? row.complexity + ' (' + row.mostComplex + ')' : String(row[column]);
+                });
+                tr.addEventListener('click', () => vscode.postMessage({ command: 'openFile', path: row.path, line: 1 }));
+            });
+            box.appendChild(table);
+        }
+        if (metrics) renderHotspots();
+
+        const metricSelect = document.getElementById('metricSelect');
+        if (metricSelect) {
+            metricSelect.addEventListener('change', () => {
+                hotspotSort = { key: metricSelect.value, descending: true };
+                vscode.postMessage({ command: 'setMetric', metric: metricSelect.value });
+            });
+            document.querySelectorAll('#hotspotExport button').forEach(button => {
+                button.addEventListener('click', () => vscode.postMessage({ command: 'exportHotspots', format: button.dataset.format }));
+            });
+        }
+
         // After Mermaid renders the chart, provide an SVG image view and download link
         function findRenderedSVG() {
             const container = document.getElementById('mermaidChart');
@@ -375,11 +559,11 @@ ${mermaidCode}
             const serializer = new XMLSerializer();
             let source = serializer.serializeToString(svg);
             // Add name space
-            if(!source.match(/^<svg[^>]+xmlns="http:\/\/www\.w3\.org\/2000\/svg"/)) {
+            if(!source.match(/^<svg[^>]+xmlns="http:\\/\\/www\\.w3\\.org\\/2000\\/svg"/)) {
                 source = source.replace(/^<svg/, '<svg xmlns="http://www.w3.org/2000/svg"');
             }
             // Add xml declaration
-            source = '<?xml version="1.0" standalone="no"?>\n' + source;
+            source = '<?xml version="1.0" standalone="no"?>\\n' + source;
             return source;
         }
 
@@ -419,52 +603,526 @@ ${mermaidCode}
 </html>`;
 }
 
+/**
+ * Opens the file behind a clicked diagram node and reveals the clicked line.
+ * Only paths the panel currently shows as node targets are opened.
+ * @param panel - The panel showing the diagram
+ * @param getNodeTargets - Returns the node targets of the diagram the panel shows now
+ * @returns The message listener, to be disposed with the diagram
+ */
+function registerNodeNavigation(panel: vscode.WebviewPanel, getNodeTargets: () => Record<string, NodeTarget>): vscode.Disposable {
+    return panel.webview.onDidReceiveMessage(async (message) => {
+        const knownPaths = new Set(Object.values(getNodeTargets()).map(t => t.path));
+        if (message.command !== 'openFile' || !knownPaths.has(message.path)) {
+            return;
+        }
+        try {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(message.path));
+            const line = Math.min(Math.max(0, (Number(message.line) || 1) - 1), document.lineCount - 1);
+            const range = new vscode.Range(line, 0, line, 0);
+            const editor = await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.One, selection: range });
+            editor.revealRange(range, vscode.TextEditorRevealType.InCenter);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Could not open ${message.path}: ${error}`);
+        }
+    });
+}
+
+/**
+ * A folder chosen for a diagram
+ */
+interface RootChoice {
+    name: string;
+    uri: vscode.Uri;
+    /** Files or folders selected inside the folder; the whole folder is scanned when unset */
+    scope?: vscode.Uri[];
+}
+
+/**
+ * A workspace folder chosen for a diagram, with its own scan settings
+ */
+interface ScannedRoot extends WorkspaceRoot {
+    config: FlowchartConfig;
+    /** Paths of the selected files or folders, when only part of the folder was scanned */
+    scope?: string[];
+    /** Every file path of the folder, for resolving imports that leave the selection */
+    knownFiles?: string[];
+}
+
+/**
+ * Graph options for a set of scanned folders; selections get boundary nodes
+ */
+function graphOptions(roots: ScannedRoot[], config: FlowchartConfig, cache?: ParseCache): BuildGraphOptions {
+    const scoped = roots.some(r => r.scope);
+    return {
+        cache,
+        languages: config.languages,
+        boundaries: scoped,
+        knownFiles: scoped ? roots.flatMap(r => r.knownFiles || r.files.map(f => f.path)) : undefined
+    };
+}
+
+/**
+ * Title of a diagram panel: the selected files and folders, or the folder names
+ */
+function diagramTitle(roots: { name: string; scope?: (string | vscode.Uri)[] }[]): string {
+    return roots.map(r => r.scope ? r.scope.map(p => path.basename(typeof p === 'string' ? p : p.fsPath)).join(', ') : r.name).join(', ');
+}
+
+/**
+ * Key of the panel a diagram of these folders is shown in
+ */
+function panelRoot(roots: { path: string }[]): string {
+    return roots.map(r => r.path).join(path.delimiter);
+}
+
+/**
+ * Opens a folder diagram panel that follows file saves, creations, deletions and renames.
+ * Changed files are parsed again through the cache and the panel is updated in place. Folders
+ * are clusters that can be collapsed and expanded by clicking them, a picker colours the files by
+ * a metric and lists the hotspots, and toolbar toggles hide packages, the backbone, Start/End and
+ * symbol nodes.
+ * @param context - The extension context
+ * @param panels - Hands out the panel of the folders
+ * @param roots - The scanned folders or selections; several folders are drawn as one diagram with a cluster per folder
+ * @param cache - Parse cache filled by the initial build
+ * @param graph - The initial dependency graph
+ * @param config - Diagram settings and architecture rules, until the settings of the folders change
+ * @param report - Publishes the cycles and rule violations of each rebuilt graph
+ * @param output - Channel that receives the skip summaries when new settings lead to a rescan
+ */
+function showLiveFolderDiagram(context: vscode.ExtensionContext, panels: PanelManager, roots: ScannedRoot[], cache: ParseCache, graph: DependencyGraph, config: FlowchartConfig, report: (graph: DependencyGraph, config: FlowchartConfig) => void, output: vscode.OutputChannel) {
+    const title = diagramTitle(roots);
+    const fileCount = () => roots.reduce((n, r) => n + r.files.length, 0);
+    const diagram = panels.open({ mode: 'folder', root: panelRoot(roots), scope: title, title: `Code Flowchart - ${title}` });
+    const { panel } = diagram;
+    // Large folders start with deep folders collapsed; the user opens and closes them from the panel
+    let view: ClusterView = { depth: autoCollapseDepth(graph), expanded: [], collapsed: [] };
+    let metric = config.metric;
+    let layers: LayerState = { externals: true, backbone: config.showBackbone, startEnd: config.showStartEnd, symbols: true };
+    let nodeTargets: Record<string, NodeTarget> = {};
+    const render = () => {
+        const shown = applyLayers(collapseGraph(graph, view, config.rules), { ...config, metric }, layers);
+        nodeTargets = getMermaidNodeTargets(shown.graph, shown.options);
+        return emitMermaid(shown.graph, shown.options);
+    };
+    // Hotspots are measured on every file, also those inside collapsed folders
+    const hotspots = (): HotspotTable => ({ metric, rows: computeMetrics(graph) });
+    const postUpdate = () => panel.webview.postMessage({ command: 'update', mermaidCode: render(), nodeTargets, fileCount: fileCount(), metrics: hotspots() });
+    const page = () => getWebviewContent(render(), panel.webview, context.extensionUri, { fileCount: fileCount(), nodeTargets, theme: config.theme, metrics: hotspots(), layers, panel: diagram.info });
+
+    panel.webview.html = page();
+    // Rows of the hotspot table open their file as well
+    const fileTargets = () => Object.fromEntries(graph.files.map(f => [f.id, { path: f.path, line: 1, tooltip: f.name }]));
+    diagram.track(registerNodeNavigation(panel, () => ({ ...fileTargets(), ...nodeTargets })));
+    diagram.track(panel.webview.onDidReceiveMessage(async message => {
+        // Only the view changes: the diagram is emitted again from the graph already built
+        if (message.command === 'toggleFolder' && typeof message.folder === 'string') {
+            view = toggleFolder(view, message.folder, !!message.collapsed);
+            postUpdate();
+        } else if (message.command === 'setMetric' && (message.metric === 'none' || METRICS.includes(message.metric))) {
+            metric = message.metric;
+            postUpdate();
+        } else if (message.command === 'setLayers') {
+            layers = toggledLayers(layers, message.layers);
+            postUpdate();
+        } else if (message.command === 'exportHotspots' && metric !== 'none') {
+            const json = message.format === 'json';
+            const target = await vscode.window.showSaveDialog({ defaultUri: vscode.Uri.file(path.join(roots[0].path, json ? 'hotspots.json' : 'hotspots.csv')) });
+            if (!target) return;
+            const rows = sortHotspots(computeMetrics(graph), metric);
+            try {
+                fs.writeFileSync(target.fsPath, json ? formatMetricsJson(rows) : formatMetricsCsv(rows), 'utf8');
+                vscode.window.showInformationMessage(`Exported ${rows.length} hotspots to ${target.fsPath}`);
+            } catch (err: any) {
+                vscode.window.showErrorMessage('Error exporting hotspots: ' + (err && err.message ? err.message : String(err)));
+            }
+        }
+    }));
+
+    // Watchers are started again when new settings change the include/exclude globs
+    let watchers: vscode.Disposable | undefined;
+    const watch = () => {
+        if (watchers) watchers.dispose();
+        watchers = vscode.Disposable.from(...roots.map(root => watchFolder(root.path, root.files, { ...root.config, scope: root.scope }, updated => {
+            root.files = updated;
+            graph = buildWorkspaceGraph(roots, graphOptions(roots, config, cache));
+            report(graph, config);
+            postUpdate();
+        })));
+    };
+    watch();
+    diagram.track({ dispose: () => watchers!.dispose() });
+
+    // Settings the user changed win over the panel's metric and toggles; the theme needs a new page
+    reloadOnConfigChange(diagram, roots, output, rescanned => {
+        const previous = config;
+        roots = rescanned;
+        config = roots[0].config;
+        if (config.metric !== previous.metric) metric = config.metric;
+        if (config.showBackbone !== previous.showBackbone) layers = { ...layers, backbone: config.showBackbone };
+        if (config.showStartEnd !== previous.showStartEnd) layers = { ...layers, startEnd: config.showStartEnd };
+        graph = buildWorkspaceGraph(roots, graphOptions(roots, config, cache));
+        report(graph, config);
+        watch();
+        panel.webview.html = page();
+    });
+}
+
+/**
+ * Opens a panel with the neighbourhood of one file: the files it imports and the files that import
+ * it, to the configured depths. The panel follows the active editor and file changes, and its depth
+ * controls and layer toggles redraw it from the graph already built.
+ * @param context - The extension context
+ * @param panels - Hands out the panel of the folder
+ * @param root - The workspace folder of the file
+ * @param cache - Parse cache filled by the initial build
+ * @param graph - The dependency graph of the folder
+ * @param config - Diagram settings and the initial depths, until the settings of the folder change
+ * @param filePath - The file to focus on
+ * @param output - Channel that receives the skip summaries when new settings lead to a rescan
+ */
+function showFocusDiagram(context: vscode.ExtensionContext, panels: PanelManager, root: ScannedRoot, cache: ParseCache, graph: DependencyGraph, config: FlowchartConfig, filePath: string, output: vscode.OutputChannel) {
+    let depth: FocusDepth = { dependencies: config.focusDependencyDepth, dependents: config.focusDependentDepth };
+    const fileOf = (p: string) => graph.files.find(f => path.resolve(f.path) === path.resolve(p));
+    let focused = fileOf(filePath)!;
+    // The scope is the folder: a pinned focus panel keeps following the editor, so it has no single file
+    const diagram = panels.open({ mode: 'focus', root: root.path, scope: root.name, title: `Focus - ${path.basename(focused.name)}` });
+    const { panel } = diagram;
+    // Backbone and Start/End describe the whole folder, not a neighbourhood, so they have no toggle
+    let layers: LayerState = { externals: true, symbols: true };
+    let nodeTargets: Record<string, NodeTarget> = {};
+    const render = () => {
+        // The focused file may have been deleted since; the last drawn neighbourhood stays then
+        const neighbourhood = focusGraph(graph, focused.id, depth) || focusGraph({ ...graph, files: [...graph.files, focused] }, focused.id, depth)!;
+        const shown = applyLayers(neighbourhood, { ...config, showBackbone: false, showStartEnd: false }, layers);
+        nodeTargets = getMermaidNodeTargets(shown.graph, shown.options);
+        return emitMermaid(shown.graph, shown.options);
+    };
+    const postUpdate = () => {
+        diagram.setTitle(`Focus - ${path.basename(focused.name)}`);
+        panel.webview.postMessage({ command: 'update', mermaidCode: render(), nodeTargets, focusName: focused.name });
+    };
+
+    const page = () => getWebviewContent(render(), panel.webview, context.extensionUri, { nodeTargets, theme: config.theme, focus: { name: focused.name, depth }, layers, panel: diagram.info });
+
+    panel.webview.html = page();
+    diagram.track(registerNodeNavigation(panel, () => nodeTargets));
+    diagram.track(panel.webview.onDidReceiveMessage(message => {
+        if (message.command === 'setFocusDepth') {
+            depth = { dependencies: Number(message.dependencies) || 0, dependents: Number(message.dependents) || 0 };
+            postUpdate();
+        } else if (message.command === 'setLayers') {
+            layers = toggledLayers(layers, message.layers);
+            postUpdate();
+        }
+    }));
+
+    // Follow the editor; files outside the scanned folder keep the current focus
+    diagram.track(vscode.window.onDidChangeActiveTextEditor(editor => {
+        const next = editor && fileOf(editor.document.uri.fsPath);
+        if (!next || next.id === focused.id) return;
+        focused = next;
+        postUpdate();
+    }));
+    let watcher: vscode.Disposable | undefined;
+    const watch = () => {
+        if (watcher) watcher.dispose();
+        watcher = watchFolder(root.path, root.files, root.config, updated => {
+            root.files = updated;
+            graph = buildDependencyGraph(root.files, root.path, { cache, languages: config.languages });
+            focused = fileOf(focused.path) || focused;
+            postUpdate();
+        });
+    };
+    watch();
+    diagram.track({ dispose: () => watcher!.dispose() });
+
+    // Depths set in the settings win over the panel's depth controls; the theme needs a new page
+    reloadOnConfigChange(diagram, [root], output, ([rescanned]) => {
+        const previous = config;
+        root = rescanned;
+        config = root.config;
+        if (config.focusDependencyDepth !== previous.focusDependencyDepth || config.focusDependentDepth !== previous.focusDependentDepth) {
+            depth = { dependencies: config.focusDependencyDepth, dependents: config.focusDependentDepth };
+        }
+        graph = buildDependencyGraph(root.files, root.path, { cache, languages: config.languages });
+        focused = fileOf(focused.path) || focused;
+        watch();
+        panel.webview.html = page();
+    });
+}
+
+/**
+ * Scans the folders of a live diagram again when their `.flowchartrc.json` or `codeToFlowchart.*`
+ * settings change, so that an open panel picks up new globs, rules and diagram settings
+ * @param diagram - The panel; nothing is reloaded once it is closed or shows another diagram
+ * @param roots - The folders the diagram was drawn from
+ * @param output - Channel that receives the skip summaries
+ * @param onReload - Called with the folders scanned with their new settings
+ */
+function reloadOnConfigChange(diagram: DiagramPanel, roots: ScannedRoot[], output: vscode.OutputChannel, onReload: (roots: ScannedRoot[]) => void) {
+    let active = true;
+    const folders = roots.map(r => vscode.Uri.file(r.path));
+    const choices = roots.map(r => ({ name: r.name, uri: vscode.Uri.file(r.path), scope: r.scope && r.scope.map(p => vscode.Uri.file(p)) }));
+    diagram.track({ dispose: () => { active = false; } }, watchConfig(folders, folders.map(configRoot), async () => {
+        try {
+            const rescanned = await scanRoots(choices, output);
+            if (active) onReload(rescanned);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Could not apply the new flowchart settings: ${error}`);
+        }
+    }));
+}
+
+/**
+ * Asks which folders to diagram. In a multi-root workspace the user picks one folder or all of
+ * them; otherwise the single workspace folder is used, then the active file's folder, then a folder
+ * chosen in a dialog.
+ * @returns The chosen folders, or undefined when the user cancelled
+ */
+async function pickWorkspaceRoots(): Promise<RootChoice[] | undefined> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length > 1) {
+        const items = [
+            { label: 'All folders', description: folders.map(f => f.name).join(', '), roots: [...folders] },
+            ...folders.map(f => ({ label: f.name, description: f.uri.fsPath, roots: [f] }))
+        ];
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Which workspace folder should be diagrammed?' });
+        return picked && picked.roots.map(f => ({ name: f.name, uri: f.uri }));
+    }
+    if (folders.length === 1) {
+        return [{ name: folders[0].name, uri: folders[0].uri }];
+    }
+    if (vscode.window.activeTextEditor) {
+        const folderUri = vscode.Uri.joinPath(vscode.window.activeTextEditor.document.uri, '..');
+        return [{ name: path.basename(folderUri.fsPath), uri: folderUri }];
+    }
+    const selected = await vscode.window.showOpenDialog({ canSelectFolders: true, canSelectFiles: false, canSelectMany: false, openLabel: 'Select Folder' });
+    if (!selected || selected.length === 0) return undefined;
+    return [{ name: path.basename(selected[0].fsPath), uri: selected[0] }];
+}
+
+/**
+ * Turns the Explorer selection a command was run on into folders to scan. Selected files and
+ * folders are grouped by workspace folder, which stays the root for import resolution and names.
+ * @param uri - The clicked file or folder
+ * @param uris - All selected files and folders, when several are selected
+ * @returns The folders with their selections, or undefined when the command was not run from the Explorer
+ */
+function rootsFromSelection(uri?: vscode.Uri, uris?: vscode.Uri[]): RootChoice[] | undefined {
+    const selection = uris && uris.length > 0 ? uris : uri ? [uri] : [];
+    if (selection.length === 0 || !(selection[0] instanceof vscode.Uri)) return undefined;
+
+    const roots = new Map<string, RootChoice>();
+    for (const selected of selection) {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(selected);
+        const rootUri = workspaceFolder ? workspaceFolder.uri : isDirectory(selected.fsPath) ? selected : vscode.Uri.joinPath(selected, '..');
+        const key = rootUri.toString();
+        if (!roots.has(key)) roots.set(key, { name: workspaceFolder ? workspaceFolder.name : path.basename(rootUri.fsPath), uri: rootUri, scope: [] });
+        const root = roots.get(key)!;
+        // Selecting the workspace folder itself means the whole folder
+        if (selected.fsPath === rootUri.fsPath) root.scope = undefined;
+        else if (root.scope) root.scope.push(selected);
+    }
+    return [...roots.values()];
+}
+
+function isDirectory(fsPath: string): boolean {
+    try {
+        return fs.statSync(fsPath).isDirectory();
+    } catch (e) {
+        return false;
+    }
+}
+
+/**
+ * Scans each chosen folder, or its selection, with the settings of that folder
+ * @param roots - Folders returned by pickWorkspaceRoots or rootsFromSelection
+ * @param output - Channel that receives the skip summaries
+ */
+async function scanRoots(roots: RootChoice[], output: vscode.OutputChannel): Promise<ScannedRoot[]> {
+    const scanned: ScannedRoot[] = [];
+    for (const root of roots) {
+        const config = loadFlowchartConfig(root.uri);
+        const scope = root.scope && root.scope.map(u => u.fsPath);
+        const files = await scanFolder(root.uri.fsPath, config, output, scope);
+        let knownFiles: string[] | undefined;
+        if (scope) {
+            // Paths only, so imports of files outside the selection still resolve
+            const found = await vscode.workspace.findFiles(new vscode.RelativePattern(root.uri, '**/*'), '**/node_modules/**');
+            knownFiles = found.map(u => u.fsPath);
+        }
+        scanned.push({ name: root.name, path: root.uri.fsPath, files, config, scope, knownFiles });
+    }
+    return scanned;
+}
+
+/**
+ * The folder whose `.flowchartrc.json` applies to a scanned folder: its workspace root, or the
+ * folder itself outside a workspace
+ */
+function configRoot(folderUri: vscode.Uri): string {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(folderUri);
+    return workspaceFolder ? workspaceFolder.uri.fsPath : folderUri.fsPath;
+}
+
+/**
+ * Reads the `codeToFlowchart.*` settings and the `.flowchartrc.json` of the folder's workspace root.
+ * The project file wins over settings so that the extension and the CLI draw the same diagram.
+ * Invalid settings are reported and skipped.
+ * @param folderUri - The folder that is about to be scanned
+ */
+function loadFlowchartConfig(folderUri: vscode.Uri): FlowchartConfig {
+    const settings = vscode.workspace.getConfiguration('codeToFlowchart', folderUri);
+    const raw: Record<string, unknown> = {};
+    for (const key of Object.keys(DEFAULT_CONFIG)) {
+        raw[key] = settings.get(key);
+    }
+    const root = configRoot(folderUri);
+
+    // An invalid setting is reported and skipped on its own, so one typo does not reset the other settings
+    const warn = (error: any) => vscode.window.showWarningMessage(`Ignoring flowchart configuration: ${error && error.message ? error.message : String(error)}`);
+    const layers = [() => validateConfig(raw, 'Settings', warn), () => loadProjectConfig(root, warn)].map(load => {
+        try {
+            return load();
+        } catch (error: any) {
+            // Only a project file that is not a JSON object is ignored as a whole
+            warn(error);
+            return {};
+        }
+    });
+    return resolveConfig(...layers);
+}
+
+/**
+ * Reads the files of a folder and writes what was skipped, and why, to the output channel
+ * @param folderPath - The folder to scan
+ * @param config - Include/exclude globs and extensions
+ * @param output - Channel that receives the skip summary
+ * @param scope - Files or folders inside the folder to read instead of the whole folder
+ */
+async function scanFolder(folderPath: string, config: FlowchartConfig, output: vscode.OutputChannel, scope?: string[]): Promise<FileInfo[]> {
+    const skipped: SkipCounts = {};
+    const byPath = new Map<string, FileInfo>();
+    for (const startPath of scope || [folderPath]) {
+        // Overlapping selections (a folder and a file inside it) are read once
+        for (const f of await readFolderRecursive(folderPath, { ...config, startPath, skipped })) byPath.set(f.path, f);
+    }
+    const files = [...byPath.values()];
+    const summary = formatSkipCounts(skipped);
+    if (summary) {
+        output.appendLine(`${folderPath}: ${summary}`);
+    }
+    return files;
+}
+
+/**
+ * Finds import cycles, publishes them as diagnostics and writes the cycle report to the output channel
+ * @param graph - The dependency graph of the scanned folder
+ * @param diagnostics - Collection that receives one warning per import closing a cycle
+ * @param output - Channel that receives the report
+ * @returns The cycles found
+ */
+function reportCycles(graph: DependencyGraph, diagnostics: vscode.DiagnosticCollection, output: vscode.OutputChannel): DependencyCycle[] {
+    const cycles = findCycles(graph);
+    publishCycleDiagnostics(diagnostics, graph, cycles);
+    output.clear();
+    output.appendLine(`Dependency cycles in ${graph.root}`);
+    output.append(formatCycleReport(graph, cycles));
+    return cycles;
+}
+
+/**
+ * Checks the architecture rules, publishes violations as diagnostics and appends them to the
+ * output channel after the cycle report
+ * @param graph - The dependency graph of the scanned folder
+ * @param rules - Rules from the configuration; nothing is reported without rules
+ * @param diagnostics - Collection that receives one error per violation
+ * @param output - Channel that receives the report
+ * @returns The violations found
+ */
+function reportRuleViolations(graph: DependencyGraph, rules: ArchitectureRule[], diagnostics: vscode.DiagnosticCollection, output: vscode.OutputChannel): RuleViolation[] {
+    const violations = checkRules(graph, rules);
+    publishRuleDiagnostics(diagnostics, graph, violations);
+    if (rules.length > 0) {
+        output.appendLine('');
+        output.append(formatRuleReport(graph, violations));
+    }
+    return violations;
+}
+
+/**
+ * Suffix for the "flowchart generated" message when cycles or rule violations were found
+ */
+function describeProblems(cycles: DependencyCycle[], violations: RuleViolation[]): string {
+    const parts: string[] = [];
+    if (cycles.length > 0) parts.push(`${cycles.length} dependency cycle${cycles.length === 1 ? '' : 's'}`);
+    if (violations.length > 0) parts.push(`${violations.length} rule violation${violations.length === 1 ? '' : 's'}`);
+    return parts.length > 0 ? ` (${parts.join(', ')}, see the Problems panel)` : '';
+}
+
 /**
  * Activates the extension
  */
 export function activate(context: vscode.ExtensionContext) {
     console.log('Code to Flowchart extension is now active!');
 
+    const cycleDiagnostics = vscode.languages.createDiagnosticCollection('codeToFlowchart');
+    const ruleDiagnostics = vscode.languages.createDiagnosticCollection('codeToFlowchart.rules');
+    const output = vscode.window.createOutputChannel('Code to Flowchart');
+    context.subscriptions.push(cycleDiagnostics, ruleDiagnostics, output);
+
+    // Commands reuse one panel per folder; panels left open are restored from their saved diagram
+    // after a reload. They are static until a command draws into them again.
+    const panels = createPanelManager(context.extensionUri);
+    context.subscriptions.push(vscode.window.registerWebviewPanelSerializer(PANEL_VIEW_TYPE, {
+        async deserializeWebviewPanel(panel: vscode.WebviewPanel, state: SavedPanelState | undefined) {
+            // Panels saved by an older version have nothing to restore
+            if (!state || typeof state.mermaidCode !== 'string' || !state.panel) {
+                panel.dispose();
+                return;
+            }
+            const nodeTargets = state.nodeTargets || {};
+            const diagram = panels.adopt(panel, state.panel);
+            panel.webview.html = getWebviewContent(state.mermaidCode, panel.webview, context.extensionUri, { nodeTargets, theme: state.theme, summary: state.summary, panel: diagram.info });
+            diagram.track(registerNodeNavigation(panel, () => nodeTargets));
+        }
+    }));
+
+    // Every folder diagram reports its cycles and architecture rule violations
+    const reportProblems = (graph: DependencyGraph, config: FlowchartConfig) => ({
+        cycles: reportCycles(graph, cycleDiagnostics, output),
+        violations: reportRuleViolations(graph, config.rules, ruleDiagnostics, output)
+    });
+
     // Register the command for single file
     // Default `Generate Flow Chart` now produces a workspace-level diagram (scans project root).
     const disposable1 = vscode.commands.registerCommand('codeToFlowchart.generate', async () => {
-        // Determine workspace folder (prefer root)
-        let folderUri: vscode.Uri | undefined;
-        if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-            folderUri = vscode.workspace.workspaceFolders[0].uri;
-        } else if (vscode.window.activeTextEditor) {
-            const fileUri = vscode.window.activeTextEditor.document.uri;
-            folderUri = vscode.Uri.joinPath(fileUri, '..');
-        } else {
-            const selected = await vscode.window.showOpenDialog({ canSelectFolders: true, canSelectFiles: false, canSelectMany: false });
-            if (!selected || selected.length === 0) return;
-            folderUri = selected[0];
-        }
-
-        if (!folderUri) {
-            vscode.window.showErrorMessage('No folder found to scan.');
-            return;
-        }
+        const picked = await pickWorkspaceRoots();
+        if (!picked) return;
 
-        const folderPath = folderUri.fsPath;
-        const folderName = path.basename(folderPath);
+        // A combined diagram is drawn with the settings of the first folder
+        const config = loadFlowchartConfig(picked[0].uri);
+        const title = diagramTitle(picked);
 
         await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'Generating Flowchart (Workspace)', cancellable: false }, async (progress) => {
             progress.report({ increment: 0, message: 'Reading folder...' });
             try {
-                const files = await readFolderRecursive(folderPath);
-                if (files.length === 0) {
+                const roots = await scanRoots(picked, output);
+                const fileCount = roots.reduce((n, r) => n + r.files.length, 0);
+                if (fileCount === 0) {
                     vscode.window.showWarningMessage('No code files found in the selected folder.');
                     return;
                 }
-                progress.report({ increment: 50, message: `Processing ${files.length} files...` });
-                const mermaidCode = convertFolderToFlowchart(files, folderName);
+                progress.report({ increment: 50, message: `Processing ${fileCount} files...` });
+                const cache: ParseCache = new Map();
+                const graph = buildWorkspaceGraph(roots, graphOptions(roots, config, cache));
+                const { cycles, violations } = reportProblems(graph, config);
                 progress.report({ increment: 100, message: 'Rendering flowchart...' });
 
-                const panel = vscode.window.createWebviewPanel('codeToFlowchart', `Code Flowchart - ${folderName}`, vscode.ViewColumn.Beside, { enableScripts: true, localResourceRoots: [vscode.Uri.joinPath(context.extensionUri, 'media')] });
-                panel.webview.html = getWebviewContent(mermaidCode, panel.webview, context.extensionUri, files.length);
-                panel.onDidDispose(() => { }, null, context.subscriptions);
-                vscode.window.showInformationMessage(`Flowchart generated for ${files.length} files in ${folderName}`);
+                showLiveFolderDiagram(context, panels, roots, cache, graph, config, reportProblems, output);
+                vscode.window.showInformationMessage(`Flowchart generated for ${fileCount} files in ${title}${describeProblems(cycles, violations)}`);
             } catch (error) {
                 vscode.window.showErrorMessage(`Error generating flowchart: ${error}`);
             }
@@ -472,40 +1130,14 @@ export function activate(context: vscode.ExtensionContext) {
     });
 
     // Register the command for folder
-    const disposable2 = vscode.commands.registerCommand('codeToFlowchart.generateFolder', async () => {
-        // Prefer the workspace root (scan whole project). Fall back to active file's folder or ask the user.
-        let folderUri: vscode.Uri | undefined;
-
-        if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-            // Use the first workspace folder as the project root
-            folderUri = vscode.workspace.workspaceFolders[0].uri;
-        } else if (vscode.window.activeTextEditor) {
-            // Fallback to the folder of the active file
-            const fileUri = vscode.window.activeTextEditor.document.uri;
-            folderUri = vscode.Uri.joinPath(fileUri, '..');
-        } else {
-            // Ask user to select a folder
-            const selectedFolders = await vscode.window.showOpenDialog({
-                canSelectFiles: false,
-                canSelectFolders: true,
-                canSelectMany: false,
-                openLabel: 'Select Folder'
-            });
+    const disposable2 = vscode.commands.registerCommand('codeToFlowchart.generateFolder', async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        // From the Explorer: the selected files and folders. Otherwise prefer the workspace root(s),
+        // then the active file's folder, or ask the user.
+        const picked = rootsFromSelection(uri, uris) || await pickWorkspaceRoots();
+        if (!picked) return;
 
-            if (!selectedFolders || selectedFolders.length === 0) {
-                return;
-            }
-
-            folderUri = selectedFolders[0];
-        }
-
-        if (!folderUri) {
-            vscode.window.showErrorMessage('No folder selected. Please select a folder.');
-            return;
-        }
-
-        const folderPath = folderUri.fsPath;
-        const folderName = path.basename(folderPath);
+        const config = loadFlowchartConfig(picked[0].uri);
+        const title = diagramTitle(picked);
 
         // Show progress
         await vscode.window.withProgress({
@@ -516,47 +1148,28 @@ export function activate(context: vscode.ExtensionContext) {
             progress.report({ increment: 0, message: 'Reading folder...' });
 
             try {
-                // Read all files in the folder
-                const files = await readFolderRecursive(folderPath);
+                // Read all files in the chosen folders
+                const roots = await scanRoots(picked, output);
+                const fileCount = roots.reduce((n, r) => n + r.files.length, 0);
                 
-                if (files.length === 0) {
+                if (fileCount === 0) {
                     vscode.window.showWarningMessage('No code files found in the selected folder.');
                     return;
                 }
 
-                progress.report({ increment: 50, message: `Processing ${files.length} files...` });
+                progress.report({ increment: 50, message: `Processing ${fileCount} files...` });
 
-                // Convert folder to flowchart
-                const mermaidCode = convertFolderToFlowchart(files, folderName);
+                // Convert folders to flowchart, one cluster per folder when several were chosen
+                const cache: ParseCache = new Map();
+                const graph = buildWorkspaceGraph(roots, graphOptions(roots, config, cache));
+                const { cycles, violations } = reportProblems(graph, config);
 
                 progress.report({ increment: 100, message: 'Rendering flowchart...' });
 
-                // Create and show a new WebView panel
-                const panel = vscode.window.createWebviewPanel(
-                    'codeToFlowchart',
-                    `Code Flowchart - ${folderName}`,
-                    vscode.ViewColumn.Beside,
-                    {
-                        enableScripts: true,
-                        localResourceRoots: [
-                            vscode.Uri.joinPath(context.extensionUri, 'media')
-                        ]
-                    }
-                );
-
-                // Set the WebView content
-                panel.webview.html = getWebviewContent(mermaidCode, panel.webview, context.extensionUri, files.length);
+                // Show the diagram in a WebView panel that follows later file changes
+                showLiveFolderDiagram(context, panels, roots, cache, graph, config, reportProblems, output);
 
-                // Handle panel disposal
-                panel.onDidDispose(
-                    () => {
-                        // Clean up resources if needed
-                    },
-                    null,
-                    context.subscriptions
-                );
-
-                vscode.window.showInformationMessage(`Flowchart generated for ${files.length} files in ${folderName}`);
+                vscode.window.showInformationMessage(`Flowchart generated for ${fileCount} files in ${title}${describeProblems(cycles, violations)}`);
             } catch (error) {
                 vscode.window.showErrorMessage(`Error generating flowchart: ${error}`);
             }
@@ -567,51 +1180,38 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Register the command to generate and save SVG directly into the workspace
     const disposable3 = vscode.commands.registerCommand('codeToFlowchart.exportWorkspace', async () => {
-        // Determine workspace folder (prefer root)
-        let folderUri: vscode.Uri | undefined;
-        if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-            folderUri = vscode.workspace.workspaceFolders[0].uri;
-        } else if (vscode.window.activeTextEditor) {
-            const fileUri = vscode.window.activeTextEditor.document.uri;
-            folderUri = vscode.Uri.joinPath(fileUri, '..');
-        } else {
-            const selected = await vscode.window.showOpenDialog({ canSelectFolders: true, canSelectFiles: false, canSelectMany: false });
-            if (!selected || selected.length === 0) return;
-            folderUri = selected[0];
-        }
-
-        if (!folderUri) {
-            vscode.window.showErrorMessage('No folder found to scan.');
-            return;
-        }
+        const picked = await pickWorkspaceRoots();
+        if (!picked) return;
 
-        const folderPath = folderUri.fsPath;
-        const folderName = path.basename(folderPath);
+        // A combined export is written into the first folder
+        const folderPath = picked[0].uri.fsPath;
+        const config = loadFlowchartConfig(picked[0].uri);
 
         await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'Generating Flowchart and saving SVG', cancellable: false }, async (progress) => {
             progress.report({ increment: 0, message: 'Reading folder...' });
             try {
-                const files = await readFolderRecursive(folderPath);
-                if (files.length === 0) {
+                const roots = await scanRoots(picked, output);
+                const fileCount = roots.reduce((n, r) => n + r.files.length, 0);
+                if (fileCount === 0) {
                     vscode.window.showWarningMessage('No code files found in the selected folder.');
                     return;
                 }
 
-                progress.report({ increment: 40, message: `Processing ${files.length} files...` });
-                const mermaidCode = convertFolderToFlowchart(files, folderName);
+                progress.report({ increment: 40, message: `Processing ${fileCount} files...` });
+                const graph = buildWorkspaceGraph(roots, graphOptions(roots, config));
 
                 // Write the mermaid fenced file into the workspace root
-                const outFile = path.join(folderPath, 'wholeflow.mmd');
-                fs.writeFileSync(outFile, '```mermaid\n' + mermaidCode + '\n```\n', 'utf8');
+                const outFile = path.join(folderPath, 'wholeflow' + FORMAT_EXTENSIONS.markdown);
+                fs.writeFileSync(outFile, emitGraph(graph, 'markdown', config), 'utf8');
 
                 progress.report({ increment: 60, message: 'Exporting to SVG...' });
 
-                // Export using an internal helper so the extension works when installed
-                await runExportMermaid(folderPath);
+                // Rendered in-process from the graph, so no browser or Mermaid CLI is needed
+                const svgPath = path.join(folderPath, 'wholeflow.svg');
+                fs.writeFileSync(svgPath, emitGraph(graph, 'svg', config), 'utf8');
 
                 progress.report({ increment: 100, message: 'Opening SVG...' });
 
-                const svgPath = path.join(folderPath, 'wholeflow.svg');
                 const svgUri = vscode.Uri.file(svgPath);
                 await vscode.commands.executeCommand('vscode.open', svgUri);
 
@@ -623,77 +1223,307 @@ export function activate(context: vscode.ExtensionContext) {
     });
 
     context.subscriptions.push(disposable3);
-}
 
-async function runExportMermaid(folderPath: string): Promise<void> {
-    const fsP = { readFile: util.promisify(fs.readFile), writeFile: util.promisify(fs.writeFile), access: util.promisify(fs.access), unlink: util.promisify(fs.unlink) } as any;
-    const inputFenced = path.join(folderPath, 'wholeflow.mmd');
-    const inputRaw = path.join(folderPath, 'wholeflow_raw.mmd');
-    const outSvg = path.join(folderPath, 'wholeflow.svg');
+    // Register the command for the function under the cursor
+    const disposable4 = vscode.commands.registerCommand('codeToFlowchart.generateFunction', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('Open a file and place the cursor inside a function.');
+            return;
+        }
 
-    if (!fs.existsSync(inputFenced)) {
-        throw new Error('wholeflow.mmd not found in the workspace root. Run generation first.');
-    }
+        const document = editor.document;
+        if (!FUNCTION_FLOW_LANGUAGES.includes(document.languageId)) {
+            vscode.window.showWarningMessage('Function flowcharts are only available for JavaScript and TypeScript files.');
+            return;
+        }
 
-    const fenced = fs.readFileSync(inputFenced, 'utf8');
-    const match = fenced.match(/```\s*mermaid\s*\n([\s\S]*?)\n```/i);
-    let mermaidText = '';
-    if (match && match[1]) mermaidText = match[1];
-    else mermaidText = fenced.replace(/```/g, '').trim();
+        try {
+            const result = buildFunctionFlowchart(document.getText(), document.fileName, document.offsetAt(editor.selection.active));
+            if (!result) {
+                vscode.window.showWarningMessage('No function found at the cursor position.');
+                return;
+            }
 
-    if (!mermaidText || mermaidText.trim().length === 0) {
-        throw new Error('No mermaid content found in wholeflow.mmd');
-    }
+            const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+            const root = workspaceFolder ? workspaceFolder.uri.fsPath : path.dirname(document.fileName);
+            const { panel, info } = panels.open({ mode: 'function', root, scope: `${document.fileName}#${result.name}`, title: `Code Flowchart - ${result.name}` });
+            panel.webview.html = getWebviewContent(result.mermaid, panel.webview, context.extensionUri, { theme: loadFlowchartConfig(document.uri).theme, panel: info });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Error generating flowchart: ${error}`);
+        }
+    });
 
-    fs.writeFileSync(inputRaw, mermaidText, 'utf8');
+    context.subscriptions.push(disposable4);
 
-    // temp config
-    const tempConfig = path.join(folderPath, 'mmdc-temp-config.json');
-    try {
-        fs.writeFileSync(tempConfig, JSON.stringify({ maxTextSize: 1000000 }), 'utf8');
-    } catch (e) {
-        // non-fatal
-    }
+    // Register the command for the cross-file call graph
+    const disposable5 = vscode.commands.registerCommand('codeToFlowchart.generateCallGraph', async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        const picked = rootsFromSelection(uri, uris) || await pickWorkspaceRoots();
+        if (!picked) return;
+
+        const config = loadFlowchartConfig(picked[0].uri);
+        const title = diagramTitle(picked);
+
+        await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'Generating Call Graph', cancellable: false }, async (progress) => {
+            progress.report({ increment: 0, message: 'Reading folder...' });
+            try {
+                const roots = await scanRoots(picked, output);
+                const files = roots.flatMap(r => r.files);
+                progress.report({ increment: 50, message: `Resolving calls in ${files.length} files...` });
+                // Calls into another workspace folder resolve like imports between folders do
+                const paths = files.map(f => f.path);
+                const resolveImport = roots.length === 1 ? createImportResolver(roots[0].path, paths) : createMultiRootResolver(roots.map(r => r.path), paths, config.languages);
+                const edges = buildCallGraph(files, resolveImport);
+                if (edges.length === 0) {
+                    vscode.window.showWarningMessage('No function calls between known functions were found.');
+                    return;
+                }
+                const mermaidCode = convertCallGraphToFlowchart(edges);
+                progress.report({ increment: 100, message: 'Rendering call graph...' });
+
+                const { panel, info } = panels.open({ mode: 'callGraph', root: panelRoot(roots), scope: title, title: `Call Graph - ${title}` });
+                panel.webview.html = getWebviewContent(mermaidCode, panel.webview, context.extensionUri, { fileCount: files.length, theme: config.theme, panel: info });
+                vscode.window.showInformationMessage(`Call graph generated with ${edges.length} calls in ${title}`);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error generating call graph: ${error}`);
+            }
+        });
+    });
+
+    context.subscriptions.push(disposable5);
+
+    // Register the command to export the workspace diagram in another format (Mermaid, Markdown, DOT, JSON)
+    const disposable6 = vscode.commands.registerCommand('codeToFlowchart.exportAs', async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        const roots = rootsFromSelection(uri, uris) || await pickWorkspaceRoots();
+        if (!roots) return;
+
+        const formats: { label: string; description: string; format: OutputFormat }[] = [
+            { label: 'Mermaid', description: 'Raw flowchart source (.mmd)', format: 'mermaid' },
+            { label: 'Markdown', description: 'Mermaid in a fenced code block (.md)', format: 'markdown' },
+            { label: 'Graphviz DOT', description: 'For dot, neato and other Graphviz tools (.dot)', format: 'dot' },
+            { label: 'JSON', description: 'Files, symbols and import edges (.json)', format: 'json' },
+            { label: 'SVG', description: 'Image rendered without a browser (.svg)', format: 'svg' }
+        ];
+        const picked = await vscode.window.showQuickPick(formats, { placeHolder: 'Select an export format' });
+        if (!picked) return;
+
+        const folderPath = roots[0].uri.fsPath;
+        const config = loadFlowchartConfig(roots[0].uri);
+        const target = await vscode.window.showSaveDialog({ defaultUri: vscode.Uri.file(path.join(folderPath, 'wholeflow' + FORMAT_EXTENSIONS[picked.format])) });
+        if (!target) return;
+
+        await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Exporting Flowchart as ${picked.label}`, cancellable: false }, async (progress) => {
+            progress.report({ increment: 0, message: 'Reading folder...' });
+            try {
+                const scanned = await scanRoots(roots, output);
+                const fileCount = scanned.reduce((n, r) => n + r.files.length, 0);
+                if (fileCount === 0) {
+                    vscode.window.showWarningMessage('No code files found in the selected folder.');
+                    return;
+                }
+                progress.report({ increment: 50, message: `Processing ${fileCount} files...` });
+                fs.writeFileSync(target.fsPath, emitGraph(buildWorkspaceGraph(scanned, graphOptions(scanned, config)), picked.format, config), 'utf8');
+                progress.report({ increment: 100 });
+                vscode.window.showInformationMessage(`Exported flowchart to ${target.fsPath}`);
+            } catch (err: any) {
+                vscode.window.showErrorMessage('Error exporting flowchart: ' + (err && err.message ? err.message : String(err)));
+            }
+        });
+    });
+
+    context.subscriptions.push(disposable6);
+
+    // Register the command that lists import cycles and marks the imports that close them
+    const disposable7 = vscode.commands.registerCommand('codeToFlowchart.findCycles', async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        const picked = rootsFromSelection(uri, uris) || await pickWorkspaceRoots();
+        if (!picked) return;
+
+        const config = loadFlowchartConfig(picked[0].uri);
+        const title = diagramTitle(picked);
+
+        await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'Finding Dependency Cycles', cancellable: false }, async (progress) => {
+            progress.report({ increment: 0, message: 'Reading folder...' });
+            try {
+                const roots = await scanRoots(picked, output);
+                const fileCount = roots.reduce((n, r) => n + r.files.length, 0);
+                progress.report({ increment: 50, message: `Processing ${fileCount} files...` });
+                // Several folders are checked as one graph, so cycles through imports between folders are found too
+                const cycles = reportCycles(buildWorkspaceGraph(roots, graphOptions(roots, config)), cycleDiagnostics, output);
+                progress.report({ increment: 100 });
+                if (cycles.length === 0) {
+                    vscode.window.showInformationMessage(`No dependency cycles found in ${title}`);
+                } else {
+                    output.show(true);
+                    vscode.window.showWarningMessage(`Found ${cycles.length} dependency cycle${cycles.length === 1 ? '' : 's'} in ${title}`);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error finding dependency cycles: ${error}`);
+            }
+        });
+    });
+
+    context.subscriptions.push(disposable7);
+
+    // Register the command that shows the imports and importers of the active file
+    const disposable8 = vscode.commands.registerCommand('codeToFlowchart.focusFile', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.uri.scheme !== 'file') {
+            vscode.window.showErrorMessage('Open a file to focus the diagram on.');
+            return;
+        }
+
+        const fileUri = editor.document.uri;
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(fileUri);
+        const rootUri = workspaceFolder ? workspaceFolder.uri : vscode.Uri.joinPath(fileUri, '..');
+        const name = workspaceFolder ? workspaceFolder.name : path.basename(rootUri.fsPath);
 
-    // Try npm exec mmdc first
-    const tryExec = () => new Promise<void>((resolve, reject) => {
-        const child = spawn('npm', ['exec', '--', 'mmdc', '-i', inputRaw, '-o', outSvg, '--configFile', tempConfig], { cwd: folderPath, stdio: 'inherit', shell: true });
-        child.on('error', (err) => reject(err));
-        child.on('close', (code) => code === 0 ? resolve() : reject(new Error('npm exec mmdc failed with code ' + code)));
+        await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'Generating Focus View', cancellable: false }, async (progress) => {
+            progress.report({ increment: 0, message: 'Reading folder...' });
+            try {
+                const [root] = await scanRoots([{ name, uri: rootUri }], output);
+                progress.report({ increment: 50, message: `Processing ${root.files.length} files...` });
+                const cache: ParseCache = new Map();
+                const graph = buildDependencyGraph(root.files, root.path, { cache, languages: root.config.languages });
+                if (!graph.files.some(f => path.resolve(f.path) === path.resolve(fileUri.fsPath))) {
+                    vscode.window.showWarningMessage(`${path.basename(fileUri.fsPath)} is not part of the scanned files (check the include, exclude and extensions settings).`);
+                    return;
+                }
+                progress.report({ increment: 100, message: 'Rendering flowchart...' });
+                showFocusDiagram(context, panels, root, cache, graph, root.config, fileUri.fsPath, output);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error generating focus view: ${error}`);
+            }
+        });
     });
 
-    // Try local binary
-    const tryLocal = () => new Promise<void>((resolve, reject) => {
-        const localBin = path.join(folderPath, 'node_modules', '.bin', process.platform === 'win32' ? 'mmdc.cmd' : 'mmdc');
-        if (!fs.existsSync(localBin)) return reject(new Error('Local mmdc not found'));
-        if (process.platform === 'win32') {
-            const cmd = `"${localBin}" -i "${inputRaw}" -o "${outSvg}" --configFile "${tempConfig}"`;
-            const child = spawn('cmd', ['/c', cmd], { cwd: folderPath, stdio: 'inherit', shell: true });
-            child.on('error', (err) => reject(err));
-            child.on('close', (code) => code === 0 ? resolve() : reject(new Error('local mmdc failed with code ' + code)));
-        } else {
-            const child = spawn(localBin, ['-i', inputRaw, '-o', outSvg, '--configFile', tempConfig], { cwd: folderPath, stdio: 'inherit' });
-            child.on('error', (err) => reject(err));
-            child.on('close', (code) => code === 0 ? resolve() : reject(new Error('local mmdc failed with code ' + code)));
+    context.subscriptions.push(disposable8);
+
+    // Register the command that compares the dependency graphs of two git revisions
+    const disposable9 = vscode.commands.registerCommand('codeToFlowchart.diffRevisions', async () => {
+        const picked = await pickWorkspaceRoots();
+        if (!picked) return;
+        if (picked.length > 1) {
+            vscode.window.showWarningMessage('Pick a single folder to compare revisions.');
+            return;
         }
+        const base = await vscode.window.showInputBox({ prompt: 'Base revision (branch, tag or commit)', value: 'main' });
+        if (!base) return;
+        const head = await vscode.window.showInputBox({ prompt: `Revision to compare with ${base}`, value: 'HEAD' });
+        if (!head) return;
+
+        const folderPath = picked[0].uri.fsPath;
+        const config = loadFlowchartConfig(picked[0].uri);
+
+        await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Comparing ${base} with ${head}`, cancellable: false }, async (progress) => {
+            try {
+                progress.report({ increment: 0, message: `Reading ${base}...` });
+                const before = await buildRevisionGraph(folderPath, base, config);
+                progress.report({ increment: 40, message: `Reading ${head}...` });
+                const after = await buildRevisionGraph(folderPath, head, config);
+                progress.report({ increment: 80, message: 'Rendering flowchart...' });
+                const diff = diffGraphs(before, after, { base, head });
+                const summary = formatGraphDiff(diff);
+                output.appendLine(summary);
+
+                // The backbone and Start/End describe one revision, not the changes
+                const options = { ...config, showBackbone: false, showStartEnd: false };
+                const diagram = panels.open({ mode: 'diff', root: folderPath, scope: `${base}..${head}`, title: `Flowchart Diff - ${base}..${head}` });
+                const nodeTargets = getMermaidNodeTargets(diff.graph, options);
+                diagram.panel.webview.html = getWebviewContent(emitMermaid(diff.graph, options), diagram.panel.webview, context.extensionUri, { nodeTargets, theme: config.theme, summary, panel: diagram.info });
+                diagram.track(registerNodeNavigation(diagram.panel, () => nodeTargets));
+                vscode.window.showInformationMessage(`${base}..${head}: ${diff.addedFiles.length} added and ${diff.removedFiles.length} removed files, ${diff.addedEdges.length} new and ${diff.removedEdges.length} removed imports`);
+            } catch (error: any) {
+                vscode.window.showErrorMessage('Error comparing revisions: ' + (error && error.message ? error.message : String(error)));
+            }
+        });
     });
 
-    try {
-        await tryExec();
-    } catch (e1) {
-        try {
-            await tryLocal();
-        } catch (e2) {
-            // cleanup temp config
-            try { if (fs.existsSync(tempConfig)) fs.unlinkSync(tempConfig); } catch (e) {}
-            throw new Error('Failed to run Mermaid CLI automatically. Install @mermaid-js/mermaid-cli or use npx. ' + (e2 && (e2 as any).message ? (e2 as any).message : String(e2)));
+    context.subscriptions.push(disposable9);
+
+    // Register the command that draws the classes and interfaces of a folder or file as a class diagram
+    const disposable10 = vscode.commands.registerCommand('codeToFlowchart.generateClassDiagram', async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        const roots = rootsFromSelection(uri, uris) || await pickWorkspaceRoots();
+        if (!roots) return;
+        const config = loadFlowchartConfig(roots[0].uri);
+
+        await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'Generating Class Diagram', cancellable: false }, async (progress) => {
+            progress.report({ increment: 0, message: 'Reading folder...' });
+            try {
+                const scanned = await scanRoots(roots, output);
+                const files = scanned.flatMap(r => r.files);
+                progress.report({ increment: 50, message: `Parsing ${files.length} files...` });
+                const classes = buildClassModel(files);
+                if (classes.length === 0) {
+                    vscode.window.showWarningMessage('No TypeScript or JavaScript classes or interfaces found.');
+                    return;
+                }
+                const diagram = emitClassDiagram(classes);
+                const nodeTargets: Record<string, NodeTarget> = {};
+                for (const [id, c] of Object.entries(diagram.nodes)) {
+                    nodeTargets[id] = { path: c.path, line: c.line, tooltip: `${c.kind} ${c.name} (${c.file}:${c.line})` };
+                }
+                progress.report({ increment: 100, message: 'Rendering class diagram...' });
+
+                const title = diagramTitle(scanned);
+                const shown = panels.open({ mode: 'class', root: panelRoot(scanned), scope: title, title: `Class Diagram - ${title}` });
+                shown.panel.webview.html = getWebviewContent(diagram.mermaid, shown.panel.webview, context.extensionUri, { nodeTargets, theme: config.theme, panel: shown.info });
+                shown.track(registerNodeNavigation(shown.panel, () => nodeTargets));
+                vscode.window.showInformationMessage(`Class diagram generated with ${classes.length} classes and interfaces`);
+            } catch (error: any) {
+                vscode.window.showErrorMessage('Error generating class diagram: ' + (error && error.message ? error.message : String(error)));
+            }
+        });
+    });
+
+    context.subscriptions.push(disposable10);
+
+    // Register the command that follows the calls of the function under the cursor into a sequence diagram
+    const disposable11 = vscode.commands.registerCommand('codeToFlowchart.generateSequence', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('Open a file and place the cursor inside a function.');
+            return;
+        }
+
+        const document = editor.document;
+        if (!FUNCTION_FLOW_LANGUAGES.includes(document.languageId)) {
+            vscode.window.showWarningMessage('Sequence diagrams are only available for JavaScript and TypeScript files.');
+            return;
         }
-    }
 
-    // cleanup temp config
-    try { if (fs.existsSync(tempConfig)) fs.unlinkSync(tempConfig); } catch (e) {}
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+        const rootUri = workspaceFolder ? workspaceFolder.uri : vscode.Uri.joinPath(document.uri, '..');
+        const folderPath = rootUri.fsPath;
+        const config = loadFlowchartConfig(rootUri);
+        const offset = document.offsetAt(editor.selection.active);
+
+        await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'Generating Sequence Diagram', cancellable: false }, async (progress) => {
+            progress.report({ increment: 0, message: 'Reading folder...' });
+            try {
+                // The entry point is read from the editor, so unsaved changes and excluded files work too
+                const others = (await scanFolder(folderPath, config, output)).filter(f => path.resolve(f.path) !== path.resolve(document.fileName));
+                const files = [{ path: document.fileName, name: path.join(path.basename(folderPath), path.relative(folderPath, document.fileName)), content: document.getText() }, ...others];
+                progress.report({ increment: 50, message: `Resolving calls in ${files.length} files...` });
+                const result = buildSequenceDiagram(files, createImportResolver(folderPath, files.map(f => f.path)), document.fileName, offset, config.sequenceDepth);
+                if (!result) {
+                    vscode.window.showWarningMessage('No function found at the cursor position.');
+                    return;
+                }
+                if (result.callCount === 0) {
+                    vscode.window.showWarningMessage(`${result.name} makes no calls to functions in the workspace.`);
+                    return;
+                }
+                progress.report({ increment: 100, message: 'Rendering sequence diagram...' });
+
+                const { panel, info } = panels.open({ mode: 'sequence', root: folderPath, scope: `${document.fileName}#${result.name}`, title: `Sequence - ${result.name}` });
+                panel.webview.html = getWebviewContent(result.mermaid, panel.webview, context.extensionUri, { theme: config.theme, panel: info });
+            } catch (error: any) {
+                vscode.window.showErrorMessage('Error generating sequence diagram: ' + (error && error.message ? error.message : String(error)));
+            }
+        });
+    });
 
-    return;
+    context.subscriptions.push(disposable11);
 }
 
 /**
@@ -0,0 +1,98 @@
+import { DependencyGraph, GraphEdge } from './graph';
+
+/**
+ * How far the focus view reaches from the focused file
+ */
+export interface FocusDepth {
+    /** Levels of imports followed from the focused file */
+    dependencies: number;
+    /** Levels of importers followed towards the focused file */
+    dependents: number;
+}
+
+/**
+ * Which side of the focused file another file of a focus view is on
+ */
+export type FocusSide = 'dependency' | 'dependent';
+
+/**
+ * Distance of every file reachable from `start` within `maxDepth` steps
+ */
+function reach(start: string, next: Map<string, GraphEdge[]>, step: (e: GraphEdge) => string, maxDepth: number): Map<string, number> {
+    const distance = new Map<string, number>([[start, 0]]);
+    let frontier = [start];
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+        const following: string[] = [];
+        for (const id of frontier) {
+            for (const e of next.get(id) || []) {
+                const to = step(e);
+                if (distance.has(to)) continue;
+                distance.set(to, depth);
+                following.push(to);
+            }
+        }
+        frontier = following;
+    }
+    return distance;
+}
+
+/**
+ * Cuts a dependency graph down to the neighbourhood of one file: the files it imports and the
+ * files that import it, each up to its own depth. Imports between the kept files stay; external
+ * packages and boundary files are kept when a kept dependency imports them within the depth.
+ * @param graph - The full dependency graph
+ * @param fileId - Id of the focused file
+ * @param depth - Levels to follow in each direction
+ * @returns A graph with `focus` set, or undefined when the file is not in the graph
+ */
+export function focusGraph(graph: DependencyGraph, fileId: string, depth: FocusDepth): DependencyGraph | undefined {
+    if (!graph.files.some(f => f.id === fileId)) return undefined;
+
+    const outgoing = new Map<string, GraphEdge[]>();
+    const incoming = new Map<string, GraphEdge[]>();
+    for (const e of graph.edges) {
+        if (!outgoing.has(e.from)) outgoing.set(e.from, []);
+        outgoing.get(e.from)!.push(e);
+        if (e.kind !== 'internal') continue;
+        if (!incoming.has(e.to)) incoming.set(e.to, []);
+        incoming.get(e.to)!.push(e);
+    }
+
+    const dependencies = reach(fileId, outgoing, e => e.to, depth.dependencies);
+    const dependents = reach(fileId, incoming, e => e.from, depth.dependents);
+    const kept = new Set([...dependencies.keys(), ...dependents.keys()]);
+
+    return {
+        ...graph,
+        files: graph.files.filter(f => kept.has(f.id)),
+        externals: graph.externals.filter(x => kept.has(x.id)),
+        boundaries: graph.boundaries.filter(b => kept.has(b.id)),
+        edges: graph.edges.filter(e => kept.has(e.from) && kept.has(e.to)),
+        focus: fileId
+    };
+}
+
+/**
+ * Tells the dependencies of the focused file apart from its dependents, so that emitters can
+ * colour them differently. A file in a cycle with the focused file is both and counts as a
+ * dependency.
+ * @param graph - A graph built by focusGraph
+ * @returns File id → side, without the focused file; empty for graphs without a focus
+ */
+export function focusSides(graph: DependencyGraph): Map<string, FocusSide> {
+    const sides = new Map<string, FocusSide>();
+    if (!graph.focus) return sides;
+    const outgoing = new Map<string, GraphEdge[]>();
+    const incoming = new Map<string, GraphEdge[]>();
+    for (const e of graph.edges) {
+        if (e.kind !== 'internal') continue;
+        if (!outgoing.has(e.from)) outgoing.set(e.from, []);
+        outgoing.get(e.from)!.push(e);
+        if (!incoming.has(e.to)) incoming.set(e.to, []);
+        incoming.get(e.to)!.push(e);
+    }
+    for (const id of reach(graph.focus, incoming, e => e.from, Infinity).keys()) sides.set(id, 'dependent');
+    for (const id of reach(graph.focus, outgoing, e => e.to, Infinity).keys()) sides.set(id, 'dependency');
+    sides.delete(graph.focus);
+    return sides;
+}
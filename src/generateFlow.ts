@@ -1,160 +1,275 @@
+#!/usr/bin/env node
 import * as fs from 'fs';
 import * as path from 'path';
+import { FlowchartConfig, loadProjectConfig, MetricKind, METRICS, resolveConfig } from './config';
+import { findCycles, formatCycleReport } from './cycles';
+import { diffGraphs, formatGraphDiff } from './diff';
+import { EMITTERS, emitGraph, FORMAT_EXTENSIONS, OutputFormat } from './emitters';
+import { focusGraph } from './focus';
+import { buildDependencyGraph, DependencyGraph } from './graph';
+import { computeMetrics, formatMetricsCsv, formatMetricsJson, sortHotspots } from './metrics';
+import { buildRevisionGraph } from './revision';
+import { checkRules, formatRuleReport } from './rules';
+import { formatSkipCounts, readFolderRecursive, SkipCounts } from './scanner';
 
-type FileNode = {
-    filePath: string;
-    relPath: string;
-    imports: Set<string>;
-    functions: string[];
-    classes: string[];
-};
+/**
+ * Exit codes, also listed by `--help`
+ */
+const EXIT_OK = 0;
+/** Architecture rules are broken; the diagram is still written */
+const EXIT_VIOLATIONS = 1;
+/** Unknown option, bad value or invalid `.flowchartrc.json` */
+const EXIT_USAGE = 2;
+/** No files to draw, the folder or git revisions could not be read, or an output file could not be written */
+const EXIT_FAILURE = 3;
 
-const IGNORES = ['node_modules', '.git', '.vscode', 'out', 'dist', 'build'];
-const TEXT_EXTS = ['.js', '.ts', '.jsx', '.tsx', '.py', '.java', '.cpp', '.c', '.cs', '.go', '.rs', '.php', '.rb', '.swift', '.kt', '.html', '.css', '.json', '.xml', '.yaml', '.yml', '.md', '.txt'];
+const USAGE = `Usage: generate-flow [options] [root]
 
-function shouldIgnore(p: string) {
-    return IGNORES.some(i => p.includes(i));
-}
+Draws the dependency graph of a folder.
 
-function getAllFiles(dir: string): string[] {
-    const results: string[] = [];
-    const list = fs.readdirSync(dir);
-    for (const file of list) {
-        const full = path.join(dir, file);
-        const stat = fs.statSync(full);
-        if (shouldIgnore(full)) continue;
-        if (stat && stat.isDirectory()) {
-            results.push(...getAllFiles(full));
-        } else {
-            const ext = path.extname(full).toLowerCase();
-            if (TEXT_EXTS.includes(ext) || ext === '') results.push(full);
-        }
-    }
-    return results;
-}
+Options:
+  -r, --root <dir>         Folder to scan (default: the current directory)
+  -o, --output <file>      Output file (default: wholeflow.<ext> in the root, where
+                           <ext> is .md for markdown, .mmd for mermaid, or .dot,
+                           .json or .svg)
+      --stdout             Write the diagram to standard output instead of a file
+  -f, --format <format>    markdown, mermaid, json, dot or svg (default: markdown)
+      --focus <file>       Only draw the imports and importers of this file
+                           (relative to the root)
+      --depth <n>          Levels followed from the focus file in both directions
+                           (default: focusDependencyDepth and focusDependentDepth)
+      --include <glob>     Only read matching files; repeat for several globs
+      --exclude <glob>     Skip matching files and folders; repeat for several globs
+      --metric <metric>    Colour files by fanIn, fanOut, lines, symbols or complexity,
+                           or none (default: the metric setting)
+      --hotspots <file>    Also write every file's metrics, hottest first, as CSV
+                           (or JSON for a .json file)
+      --diff <base>[..<head>]
+                           Compare two git revisions (head defaults to HEAD) and
+                           write wholeflow-diff.<ext>
+  -q, --quiet              Only print errors and rule violations
+  -h, --help               Show this help
 
-function extractImportsAndSymbols(content: string): { imports: string[]; functions: string[]; classes: string[] } {
-    const imports: string[] = [];
+--include and --exclude replace the globs from .flowchartrc.json.
 
-    // ES imports
-    const importRe = /import\s+(?:[^'";]+from\s+)?['"]([^'"]+)['"];?/g;
-    let m: RegExpExecArray | null;
-    while ((m = importRe.exec(content)) !== null) {
-        imports.push(m[1]);
-    }
+Exit codes:
+  ${EXIT_OK}  Diagram written
+  ${EXIT_VIOLATIONS}  Diagram written, but architecture rules are broken
+  ${EXIT_USAGE}  Invalid arguments or configuration
+  ${EXIT_FAILURE}  No files found, the folder or git revisions could not be read, or an
+     output file could not be written
+`;
 
-    // CommonJS require
-    const requireRe = /require\(['"]([^'"]+)['"]\)/g;
-    while ((m = requireRe.exec(content)) !== null) {
-        imports.push(m[1]);
-    }
+/**
+ * Parsed command-line arguments
+ */
+interface CliOptions {
+    root: string;
+    output?: string;
+    stdout: boolean;
+    format: OutputFormat;
+    focus?: string;
+    depth?: number;
+    include: string[];
+    exclude: string[];
+    metric?: MetricKind | 'none';
+    hotspots?: string;
+    diff?: string;
+    quiet: boolean;
+}
 
-    // Simple function and class extraction (best-effort)
-    const functions: string[] = [];
-    const functionRe = /function\s+([a-zA-Z0-9_]+)\s*\(|const\s+([a-zA-Z0-9_]+)\s*=\s*\(?\s*\)?\s*=>/g;
-    while ((m = functionRe.exec(content)) !== null) {
-        const name = m[1] || m[2];
-        if (name) functions.push(name);
-    }
+function fail(message: string, code: number): never {
+    console.error(message);
+    process.exit(code);
+}
 
-    const classes: string[] = [];
-    const classRe = /class\s+([a-zA-Z0-9_]+)/g;
-    while ((m = classRe.exec(content)) !== null) {
-        classes.push(m[1]);
+/**
+ * Writes an output file; a missing folder or a read-only file ends the run with EXIT_FAILURE
+ * instead of a stack trace, so CI does not mistake it for broken rules
+ */
+function writeOutput(file: string, text: string) {
+    try {
+        fs.writeFileSync(file, text, 'utf-8');
+    } catch (error: any) {
+        fail(`Could not write ${file}: ${error && error.message ? error.message : String(error)}`, EXIT_FAILURE);
     }
-
-    return { imports, functions, classes };
 }
 
-function resolveImport(fromFile: string, imp: string, root: string): string | null {
-    // Only resolve relative imports (./ or ../) to files inside the workspace
-    if (imp.startsWith('.') || imp.startsWith('/')) {
-        // Try various extensions
-        const base = path.resolve(path.dirname(fromFile), imp);
-        const candidates = [base, base + '.ts', base + '.js', base + '.tsx', base + '.jsx', path.join(base, 'index.ts'), path.join(base, 'index.js')];
-        for (const c of candidates) {
-            if (fs.existsSync(c) && fs.statSync(c).isFile()) return path.resolve(c);
+/**
+ * Parses `--option value`, `--option=value` and a positional root folder
+ * @param args - Arguments after the script name
+ */
+function parseArgs(args: string[]): CliOptions {
+    const options: CliOptions = { root: process.cwd(), stdout: false, format: 'markdown', include: [], exclude: [], quiet: false };
+    let root: string | undefined;
+    for (let i = 0; i < args.length; i++) {
+        let arg = args[i];
+        let inlineValue: string | undefined;
+        const eq = arg.indexOf('=');
+        if (arg.startsWith('--') && eq > 0) {
+            inlineValue = arg.slice(eq + 1);
+            arg = arg.slice(0, eq);
+        }
+        const value = () => {
+            if (inlineValue !== undefined) return inlineValue;
+            // Values may start with `-` (an exclude glob, a file name), so only a missing value is an error
+            const next = args[++i];
+            if (next === undefined) fail(`${arg} needs a value\n\n${USAGE}`, EXIT_USAGE);
+            return next;
+        };
+        switch (arg) {
+            case '-r': case '--root': root = value(); break;
+            case '-o': case '--output': options.output = value(); break;
+            case '--stdout': options.stdout = true; break;
+            case '-f': case '--format': options.format = value() as OutputFormat; break;
+            case '--focus': options.focus = value(); break;
+            case '--depth': {
+                const depth = Number(value());
+                if (!Number.isInteger(depth) || depth < 0) fail('--depth must be a non-negative integer', EXIT_USAGE);
+                options.depth = depth;
+                break;
+            }
+            case '--include': options.include.push(value()); break;
+            case '--exclude': options.exclude.push(value()); break;
+            case '--metric': {
+                const metric = value();
+                if (metric !== 'none' && !METRICS.includes(metric as MetricKind)) fail(`Unknown metric "${metric}". Expected one of: none, ${METRICS.join(', ')}`, EXIT_USAGE);
+                options.metric = metric as MetricKind | 'none';
+                break;
+            }
+            case '--hotspots': options.hotspots = value(); break;
+            case '--diff': options.diff = value(); break;
+            case '-q': case '--quiet': options.quiet = true; break;
+            case '-h': case '--help':
+                process.stdout.write(USAGE);
+                process.exit(EXIT_OK);
+            default:
+                if (arg.startsWith('-')) fail(`Unknown option ${arg}\n\n${USAGE}`, EXIT_USAGE);
+                if (root !== undefined) fail(`Only one root folder can be given\n\n${USAGE}`, EXIT_USAGE);
+                root = arg;
         }
     }
-    return null;
-}
 
-function makeId(s: string) {
-    return s.replace(/[^a-zA-Z0-9_]/g, '_').replace(/^_+/, '');
+    if (!Object.prototype.hasOwnProperty.call(EMITTERS, options.format)) {
+        fail(`Unknown format "${options.format}". Expected one of: ${Object.keys(EMITTERS).join(', ')}`, EXIT_USAGE);
+    }
+    if (options.stdout && options.output) fail('--stdout and --output cannot be combined', EXIT_USAGE);
+    if (options.depth !== undefined && !options.focus) fail('--depth needs --focus', EXIT_USAGE);
+    if (root !== undefined) options.root = path.resolve(root);
+    return options;
 }
 
-function buildMermaid(nodes: FileNode[], root: string): string {
-    const byPath = new Map(nodes.map(n => [path.resolve(n.filePath), n]));
+async function main() {
+    const options = parseArgs(process.argv.slice(2));
+    const { root } = options;
+    // With --stdout the diagram owns standard output, so progress goes to standard error
+    const log = (message: string) => {
+        if (options.quiet) return;
+        if (options.stdout) console.error(message);
+        else console.log(message);
+    };
 
-    let out = 'flowchart TD\n';
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) fail(`Not a folder: ${root}`, EXIT_FAILURE);
+    let config: FlowchartConfig;
+    try {
+        const cliSettings: Partial<FlowchartConfig> = {};
+        if (options.include.length > 0) cliSettings.include = options.include;
+        if (options.exclude.length > 0) cliSettings.exclude = options.exclude;
+        if (options.metric) cliSettings.metric = options.metric;
+        config = resolveConfig(loadProjectConfig(root), cliSettings);
+    } catch (error: any) {
+        fail(error && error.message ? error.message : String(error), EXIT_USAGE);
+    }
 
-    // Create file nodes as subgraphs with their functions/classes
-    for (const n of nodes) {
-        const id = makeId(n.relPath);
-        out += `    subgraph ${id}[${n.relPath}]\n`;
-        for (const fn of n.functions.slice(0, 8)) {
-            const nid = makeId(n.relPath + '_' + fn);
-            out += `        ${nid}["fn: ${fn}"]\n`;
+    let graph: DependencyGraph;
+    let baseName = 'wholeflow';
+    let diagramOptions = config;
+    if (options.diff) {
+        // `main..` means the same as `main`
+        const [base, head = ''] = options.diff.split('..');
+        const headRef = head || 'HEAD';
+        log(`Comparing ${base} with ${headRef} in ${root}`);
+        try {
+            const before = await buildRevisionGraph(root, base, config);
+            const after = await buildRevisionGraph(root, headRef, config);
+            const diff = diffGraphs(before, after, { base, head: headRef });
+            log(formatGraphDiff(diff));
+            graph = diff.graph;
+        } catch (error: any) {
+            fail(error && error.message ? error.message : String(error), EXIT_FAILURE);
         }
-        for (const c of n.classes.slice(0, 8)) {
-            const cid = makeId(n.relPath + '_' + c);
-            out += `        ${cid}["class: ${c}"]\n`;
+        baseName = 'wholeflow-diff';
+        // The backbone and Start/End describe one revision, not the changes
+        diagramOptions = { ...config, showBackbone: false, showStartEnd: false };
+    } else {
+        log(`Scanning workspace: ${root}`);
+        const skipped: SkipCounts = {};
+        const files = await readFolderRecursive(root, { ...config, skipped });
+        const skipSummary = formatSkipCounts(skipped);
+        if (skipSummary) {
+            log(skipSummary);
         }
-        out += '    end\n';
-    }
+        if (files.length === 0) fail('No files found to analyze.', EXIT_FAILURE);
 
-    // Create edges for imports (file -> imported file)
-    for (const n of nodes) {
-        const from = makeId(n.relPath);
-        for (const imp of n.imports) {
-            const resolved = resolveImport(n.filePath, imp, root);
-            if (resolved) {
-                const targetNode = byPath.get(path.resolve(resolved));
-                if (targetNode) {
-                    const to = makeId(targetNode.relPath);
-                    out += `    ${from} --> ${to}\n`;
-                }
-            } else {
-                // external import - show as external node
-                if (!imp.startsWith('.')) {
-                    const extId = makeId('ext_' + imp);
-                    out += `    ${from} --> ${extId}["${imp}"]\n`;
-                }
-            }
+        graph = buildDependencyGraph(files, root, { languages: config.languages });
+        const cycles = findCycles(graph);
+        if (cycles.length > 0 && !options.quiet) {
+            console.warn(formatCycleReport(graph, cycles));
         }
     }
+    // Rules are checked on every file, also when only a neighbourhood is drawn
+    const fullGraph = graph;
 
-    return out;
-}
-
-function main() {
-    const root = process.cwd();
-    console.log('Scanning workspace:', root);
-
-    const files = getAllFiles(root);
-    const nodes: FileNode[] = [];
+    if (options.focus) {
+        const focusPath = path.resolve(root, options.focus);
+        const file = graph.files.find(f => path.resolve(f.path) === focusPath);
+        if (!file) fail(`${options.focus} is not one of the scanned files`, EXIT_USAGE);
+        const depth = options.depth !== undefined
+            ? { dependencies: options.depth, dependents: options.depth }
+            : { dependencies: config.focusDependencyDepth, dependents: config.focusDependentDepth };
+        graph = focusGraph(graph, file.id, depth)!;
+        // Backbone and Start/End describe the whole folder, not a neighbourhood
+        diagramOptions = { ...diagramOptions, showBackbone: false, showStartEnd: false };
+    }
 
-    for (const f of files) {
-        try {
-            const content = fs.readFileSync(f, 'utf-8');
-            const { imports, functions, classes } = extractImportsAndSymbols(content);
-            nodes.push({ filePath: f, relPath: path.relative(root, f), imports: new Set(imports), functions, classes });
-        } catch (err) {
-            // skip unreadable
+    const text = emitGraph(graph, options.format, diagramOptions);
+    if (options.stdout) {
+        process.stdout.write(text);
+    } else {
+        const outFile = options.output
+            ? path.resolve(options.output)
+            : path.join(root, baseName + FORMAT_EXTENSIONS[options.format]);
+        writeOutput(outFile, text);
+        log(`Wrote flow to ${outFile}`);
+        if (options.format === 'markdown') {
+            log('You can open this file in VS Code or paste the Mermaid block into a Mermaid live editor.');
         }
     }
 
-    if (nodes.length === 0) {
-        console.error('No files found to analyze.');
-        process.exit(1);
+    // Hotspots of the whole folder, sorted by the overlay's metric (complexity without one)
+    if (options.hotspots) {
+        const rows = sortHotspots(computeMetrics(fullGraph), config.metric === 'none' ? 'complexity' : config.metric);
+        const hotspotFile = path.resolve(options.hotspots);
+        writeOutput(hotspotFile, hotspotFile.endsWith('.json') ? formatMetricsJson(rows) : formatMetricsCsv(rows));
+        log(`Wrote hotspots to ${hotspotFile}`);
     }
 
-    const mermaid = buildMermaid(nodes, root);
-
-    const outFile = path.join(root, 'wholeflow.mmd');
-    fs.writeFileSync(outFile, '```mermaid\n' + mermaid + '\n```\n', 'utf-8');
-    console.log('Wrote flow to', outFile);
-    console.log('You can open this file in VS Code or paste the Mermaid block into a Mermaid live editor.');
+    // Broken architecture rules fail the run so that CI can enforce the layering. A diff compares
+    // two revisions and does not check either of them.
+    if (!options.diff) {
+        const violations = checkRules(fullGraph, config.rules);
+        if (violations.length > 0) {
+            console.error(formatRuleReport(fullGraph, violations));
+            // Not process.exit(), which can cut off a diagram still being piped to stdout
+            process.exitCode = EXIT_VIOLATIONS;
+            return;
+        }
+        if (config.rules.length > 0) {
+            log(formatRuleReport(fullGraph, violations));
+        }
+    }
 }
 
-if (require.main === module) main();
+if (require.main === module) {
+    main().catch(error => fail(error && error.message ? error.message : String(error), EXIT_FAILURE));
+}
@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp } from './glob';
+
+/**
+ * One pattern line of a `.gitignore`
+ */
+interface IgnoreRule {
+    /** Folder of the `.gitignore`, relative to the repository root with `/` separators ('' for the root) */
+    base: string;
+    regExp: RegExp;
+    /** `!pattern` re-includes what an earlier rule ignored */
+    negated: boolean;
+    /** `pattern/` only matches folders */
+    directoryOnly: boolean;
+}
+
+/**
+ * Decides whether a file or folder is ignored by git
+ * @param entryPath - Absolute path of the file or folder
+ * @param isDirectory - Whether the path is a folder (for patterns ending in `/`)
+ */
+export type GitignoreMatcher = (entryPath: string, isDirectory: boolean) => boolean;
+
+/**
+ * Parses the lines of a `.gitignore` or `.git/info/exclude` file
+ * @param content - The file content
+ * @param base - Folder of the file relative to the repository root, with `/` separators
+ */
+export function parseGitignore(content: string, base: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+        let line = rawLine.trimEnd();
+        if (!line || line.startsWith('#')) continue;
+
+        const negated = line.startsWith('!');
+        if (negated || line.startsWith('\\!') || line.startsWith('\\#')) {
+            line = line.slice(1);
+        }
+        const directoryOnly = line.endsWith('/');
+        if (line.replace(/\//g, '') === '') continue;
+        rules.push({ base, regExp: globToRegExp(line), negated, directoryOnly });
+    }
+    return rules;
+}
+
+/**
+ * Finds the repository that contains a folder by looking for `.git` in it and its parents
+ * @returns The repository root, or undefined outside a repository
+ */
+export function findRepositoryRoot(folderPath: string): string | undefined {
+    let current = path.resolve(folderPath);
+    while (true) {
+        if (fs.existsSync(path.join(current, '.git'))) return current;
+        const parent = path.dirname(current);
+        if (parent === current) return undefined;
+        current = parent;
+    }
+}
+
+function readRules(file: string, base: string): IgnoreRule[] {
+    try {
+        return parseGitignore(fs.readFileSync(file, 'utf8'), base);
+    } catch (e) {
+        return [];
+    }
+}
+
+/**
+ * Creates a matcher that applies `.git/info/exclude` and every `.gitignore` between the repository
+ * root and a path, the way git does: deeper files win over shallower ones, later lines over earlier
+ * ones. Files are read once per matcher, so create a new matcher for each scan.
+ * @param folderPath - The scanned folder; `.gitignore` files above it up to the repository root also apply
+ */
+export function createGitignoreMatcher(folderPath: string): GitignoreMatcher {
+    const root = findRepositoryRoot(folderPath) || path.resolve(folderPath);
+    const rulesByFolder = new Map<string, IgnoreRule[]>();
+
+    // Rules that apply inside a folder: those of its parents followed by its own `.gitignore`
+    const rulesFor = (folder: string): IgnoreRule[] => {
+        const cached = rulesByFolder.get(folder);
+        if (cached) return cached;
+        const relative = path.relative(root, folder).split(path.sep).join('/');
+        const inherited = folder === root
+            ? readRules(path.join(root, '.git', 'info', 'exclude'), '')
+            : rulesFor(path.dirname(folder));
+        const rules = inherited.concat(readRules(path.join(folder, '.gitignore'), relative));
+        rulesByFolder.set(folder, rules);
+        return rules;
+    };
+
+    return (entryPath, isDirectory) => {
+        const absolute = path.resolve(entryPath);
+        const relative = path.relative(root, absolute).split(path.sep).join('/');
+        if (!relative || relative === '..' || relative.startsWith('../') || path.isAbsolute(relative)) return false;
+
+        let ignored = false;
+        for (const rule of rulesFor(path.dirname(absolute))) {
+            if (rule.directoryOnly && !isDirectory) continue;
+            const subPath = rule.base ? relative.slice(rule.base.length + 1) : relative;
+            if (rule.regExp.test(subPath)) ignored = !rule.negated;
+        }
+        return ignored;
+    };
+}
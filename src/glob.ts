@@ -0,0 +1,67 @@
+const regExpCache = new Map<string, RegExp>();
+
+function escapeRegExp(s: string): string {
+    return s.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Converts a glob into a regular expression over `/`-separated relative paths.
+ * Supports `*`, `**`, `?`, `[abc]`, `[!abc]` and `{a,b}`. A pattern without a `/` matches a name at any depth.
+ */
+export function globToRegExp(glob: string): RegExp {
+    const cached = regExpCache.get(glob);
+    if (cached) return cached;
+
+    let pattern = glob.replace(/\\/g, '/').replace(/^\.\//, '');
+    const anchored = pattern.replace(/\/$/, '').includes('/');
+    pattern = pattern.replace(/^\//, '').replace(/\/$/, '');
+
+    let re = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i];
+        if (c === '*' && pattern[i + 1] === '*') {
+            if (pattern[i + 2] === '/') {
+                // `**/` matches zero or more folders
+                re += '(?:.*/)?';
+                i += 2;
+            } else {
+                re += '.*';
+                i++;
+            }
+        } else if (c === '*') {
+            re += '[^/]*';
+        } else if (c === '?') {
+            re += '[^/]';
+        } else if (c === '[' && pattern.indexOf(']', i + 2) > i) {
+            const end = pattern.indexOf(']', i + 2);
+            const body = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\]/g, '\\]');
+            re += '[' + body + ']';
+            i = end;
+        } else if (c === '{' && pattern.indexOf('}', i) > i) {
+            const end = pattern.indexOf('}', i);
+            re += '(?:' + pattern.slice(i + 1, end).split(',').map(escapeRegExp).join('|') + ')';
+            i = end;
+        } else {
+            re += escapeRegExp(c);
+        }
+    }
+
+    const regExp = new RegExp('^' + (anchored ? '' : '(?:.*/)?') + re + '$');
+    regExpCache.set(glob, regExp);
+    return regExp;
+}
+
+/**
+ * Checks whether a relative path, or one of the folders containing it, matches any of the globs
+ * @param relativePath - Path relative to the scanned folder, with `/` or the platform separator
+ * @param globs - Patterns such as `src/**`, `*.test.ts` or `dist`
+ */
+export function matchesAnyGlob(relativePath: string, globs: string[]): boolean {
+    if (globs.length === 0) return false;
+    const parts = relativePath.replace(/\\/g, '/').split('/').filter(p => p.length > 0);
+    for (let n = parts.length; n > 0; n--) {
+        const candidate = parts.slice(0, n).join('/');
+        if (globs.some(g => globToRegExp(g).test(candidate))) return true;
+    }
+    return false;
+}
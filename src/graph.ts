@@ -0,0 +1,336 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { analyzeFile, createMultiRootResolver, createWorkspaceResolver } from './languages';
+import { ImportInfo, ParsedFile, SymbolInfo } from './parser';
+import { ImportResolver } from './resolver';
+import { FileInfo } from './scanner';
+
+/**
+ * How a file, package or import differs between the two revisions of a diff graph
+ */
+export type ChangeKind = 'added' | 'removed' | 'unchanged';
+
+/**
+ * A scanned file in the dependency graph
+ */
+export interface GraphFile {
+    /** Diagram-safe identifier derived from `name` */
+    id: string;
+    /** Absolute path on disk */
+    path: string;
+    /** Display name, relative to the scanned folder */
+    name: string;
+    lineCount: number;
+    symbols: SymbolInfo[];
+    imports: ImportInfo[];
+    /** Id of the workspace root the file belongs to, in graphs built from several roots */
+    root?: string;
+    /** Id of the open folder cluster that contains the file, in graphs grouped by collapseGraph */
+    folder?: string;
+    /** Set on nodes that stand for a collapsed folder; `name` is then the folder */
+    directory?: { fileCount: number };
+    /** Set in graphs built by diffGraphs */
+    change?: ChangeKind;
+}
+
+/**
+ * An open folder drawn as a cluster around its files and subfolders
+ */
+export interface FolderCluster {
+    id: string;
+    /** Folder name, `/`-separated and relative to the scanned folder like file names */
+    name: string;
+    /** Absolute path on disk */
+    path: string;
+    /** Id of the enclosing folder cluster */
+    parent?: string;
+}
+
+/**
+ * A workspace folder drawn as a top-level cluster when several folders are combined
+ */
+export interface GraphRoot {
+    id: string;
+    name: string;
+    /** Absolute path on disk */
+    path: string;
+}
+
+/**
+ * A workspace folder and the files scanned from it
+ */
+export interface WorkspaceRoot {
+    name: string;
+    path: string;
+    files: FileInfo[];
+}
+
+/**
+ * A package or module that is imported but not part of the scanned files
+ */
+export interface ExternalPackage {
+    id: string;
+    name: string;
+    /** Set in graphs built by diffGraphs */
+    change?: ChangeKind;
+}
+
+/**
+ * A file outside the scanned selection that a scanned file imports
+ */
+export interface BoundaryFile {
+    id: string;
+    /** Display name, relative to the scanned folder */
+    name: string;
+    /** Absolute path on disk */
+    path: string;
+}
+
+/**
+ * An import from a file to another file (`internal`), to a file outside the scanned selection
+ * (`boundary`) or to an external package
+ */
+export interface GraphEdge {
+    from: string;
+    to: string;
+    kind: 'internal' | 'boundary' | 'external';
+    specifier: string;
+    /** 1-based line of the import in the importing file */
+    line: number;
+    /** Number of imports merged into this edge when folders are collapsed */
+    count?: number;
+    /** Set on merged edges that contain an import breaking an architecture rule */
+    violation?: boolean;
+    /** Set in graphs built by diffGraphs */
+    change?: ChangeKind;
+}
+
+/**
+ * In-memory dependency graph shared by every output format
+ */
+export interface DependencyGraph {
+    root: string;
+    /** Set when the graph combines several workspace folders */
+    roots?: GraphRoot[];
+    files: GraphFile[];
+    externals: ExternalPackage[];
+    /** Imported files that were not scanned; only collected with the `boundaries` option */
+    boundaries: BoundaryFile[];
+    edges: GraphEdge[];
+    /** Open folders, when the graph was grouped by collapseGraph */
+    folders?: FolderCluster[];
+    /** Id of the highlighted file, when the graph was cut down by focusGraph */
+    focus?: string;
+    /** The compared revisions, when the graph was built by diffGraphs */
+    diff?: { base: string; head: string };
+}
+
+/**
+ * Parse results of earlier builds keyed by file path; an entry is reused while the file's content hash is unchanged
+ */
+export type ParseCache = Map<string, { hash: string; parsed: ParsedFile }>;
+
+/**
+ * Turns a name into an identifier that is safe in Mermaid and Graphviz
+ */
+export function makeId(s: string) {
+    return s.replace(/[^a-zA-Z0-9_]/g, '_').replace(/^_+/, '');
+}
+
+/**
+ * Options for buildDependencyGraph and buildWorkspaceGraph
+ */
+export interface BuildGraphOptions {
+    /** Parse cache kept between builds, so only changed files are parsed again */
+    cache?: ParseCache;
+    /** Analyzer ids to use; files of other languages have no imports or symbols */
+    languages?: string[];
+    /** Draw imported files that were not scanned (outside a selected folder or file) as boundary nodes */
+    boundaries?: boolean;
+    /**
+     * Every file path of the workspace when only part of it was scanned, so that resolvers that look
+     * files up (local packages, Java classes) also find files outside the selection
+     */
+    knownFiles?: string[];
+}
+
+function analyzeCached(cache: ParseCache, f: FileInfo, languages?: string[]): ParsedFile {
+    const hash = crypto.createHash('sha1').update(f.content).digest('hex');
+    const cached = cache.get(f.path);
+    if (cached && cached.hash === hash) return cached.parsed;
+    const parsed = analyzeFile(f.path, f.content, languages);
+    cache.set(f.path, { hash, parsed });
+    return parsed;
+}
+
+/**
+ * Builds the dependency graph for a set of scanned files
+ * @param files - Files read from the folder
+ * @param root - The scanned folder, used for import resolution
+ * @param options - Parse cache and enabled languages
+ * @returns Files with their symbols, resolved import edges and external packages
+ */
+export function buildDependencyGraph(files: FileInfo[], root: string, options: BuildGraphOptions = {}): DependencyGraph {
+    const resolveImport = createWorkspaceResolver(root, resolverFiles(files, options), options.languages);
+    return buildGraph(files, root, resolveImport, options);
+}
+
+/**
+ * Builds one dependency graph from several workspace folders. Each file is named after its
+ * folder, and imports that resolve into another folder (a shared library, a workspace package)
+ * become edges between the folders.
+ * @param roots - The folders with their scanned files; a single folder gives the same graph as buildDependencyGraph
+ * @param options - Parse cache and enabled languages
+ */
+export function buildWorkspaceGraph(roots: WorkspaceRoot[], options: BuildGraphOptions = {}): DependencyGraph {
+    if (roots.length === 1) return buildDependencyGraph(roots[0].files, roots[0].path, options);
+
+    // Folder names need not be unique across a workspace, but file and cluster ids must be
+    const graphRoots: GraphRoot[] = [];
+    const files: FileInfo[] = [];
+    const rootOfFile = new Map<string, string>();
+    for (const r of roots) {
+        let name = r.name;
+        for (let n = 2; graphRoots.some(g => g.name === name); n++) name = `${r.name}-${n}`;
+        const graphRoot = { id: makeId('root_' + name), name, path: r.path };
+        graphRoots.push(graphRoot);
+        for (const f of r.files) {
+            files.push({ ...f, name: path.join(name, path.relative(r.path, f.path)) });
+            rootOfFile.set(f.path, graphRoot.id);
+        }
+    }
+
+    const resolveImport = createMultiRootResolver(roots.map(r => r.path), resolverFiles(files, options), options.languages);
+    const graph = buildGraph(files, commonFolder(roots.map(r => r.path)), resolveImport, options);
+    for (const f of graph.files) f.root = rootOfFile.get(f.path);
+    return { ...graph, roots: graphRoots };
+}
+
+function resolverFiles(files: FileInfo[], options: BuildGraphOptions): string[] {
+    const paths = files.map(f => f.path);
+    return options.knownFiles ? [...new Set([...paths, ...options.knownFiles])] : paths;
+}
+
+/**
+ * The deepest folder that contains all the given folders
+ */
+function commonFolder(folders: string[]): string {
+    let common = path.resolve(folders[0]);
+    while (!folders.every(f => path.resolve(f) === common || path.resolve(f).startsWith(common + path.sep))) {
+        const parent = path.dirname(common);
+        if (parent === common) break;
+        common = parent;
+    }
+    return common;
+}
+
+/**
+ * Import edges whose files belong to different workspace roots
+ */
+export function crossRootEdges(graph: DependencyGraph): Set<GraphEdge> {
+    const rootOf = new Map(graph.files.map(f => [f.id, f.root]));
+    return new Set(graph.edges.filter(e => e.kind === 'internal' && rootOf.get(e.from) !== rootOf.get(e.to)));
+}
+
+/**
+ * Copy of a graph without its external package nodes and the imports of them
+ */
+export function withoutExternals(graph: DependencyGraph): DependencyGraph {
+    return { ...graph, externals: [], edges: graph.edges.filter(e => e.kind !== 'external') };
+}
+
+function buildGraph(files: FileInfo[], root: string, resolveImport: ImportResolver, options: BuildGraphOptions): DependencyGraph {
+    const { cache, languages } = options;
+    if (cache) {
+        // Forget files that were deleted since the last build
+        const present = new Set(files.map(f => f.path));
+        for (const key of [...cache.keys()]) {
+            if (!present.has(key)) cache.delete(key);
+        }
+    }
+    const graphFiles: GraphFile[] = files.map(f => {
+        const { imports, symbols } = cache ? analyzeCached(cache, f, languages) : analyzeFile(f.path, f.content, languages);
+        return { id: makeId(f.name), path: f.path, name: f.name, lineCount: f.lineCount, symbols, imports };
+    });
+
+    const byResolvedPath = new Map<string, GraphFile>();
+    for (const f of graphFiles) {
+        byResolvedPath.set(path.resolve(f.path), f);
+    }
+
+    const externals = new Map<string, ExternalPackage>();
+    const boundaries = new Map<string, BoundaryFile>();
+    const edges: GraphEdge[] = [];
+    for (const f of graphFiles) {
+        const seen = new Set<string>();
+        for (const imp of f.imports) {
+            const resolved = resolveImport(f.path, imp.specifier);
+            let to: string | undefined;
+            let kind: GraphEdge['kind'] = 'internal';
+            if (resolved) {
+                const target = byResolvedPath.get(path.resolve(resolved));
+                if (target) {
+                    to = target.id;
+                } else if (options.boundaries) {
+                    // Named like the file would be if it had been scanned
+                    const name = path.join(path.basename(root), path.relative(root, resolved));
+                    const id = makeId(name);
+                    if (!boundaries.has(id)) boundaries.set(id, { id, name, path: path.resolve(resolved) });
+                    to = id;
+                    kind = 'boundary';
+                }
+            } else if (!imp.specifier.startsWith('.')) {
+                const id = makeId('ext_' + imp.specifier);
+                if (!externals.has(id)) externals.set(id, { id, name: imp.specifier });
+                to = id;
+                kind = 'external';
+            }
+            // A file may reach the same target through several specifiers (`./a` and `./a.js`)
+            if (!to || seen.has(to)) continue;
+            seen.add(to);
+            edges.push({ from: f.id, to, kind, specifier: imp.specifier, line: imp.line });
+        }
+    }
+
+    return { root, files: graphFiles, externals: [...externals.values()], boundaries: [...boundaries.values()], edges };
+}
+
+/**
+ * Orders files so that importers come before the files they import (Kahn's algorithm).
+ * Files that are part of an import cycle are appended in scan order.
+ * @returns File ids in topological order
+ */
+export function topologicalOrder(graph: DependencyGraph): string[] {
+    const inDegree = new Map<string, number>(graph.files.map(f => [f.id, 0]));
+    const adjacency = new Map<string, string[]>(graph.files.map(f => [f.id, []]));
+    for (const e of graph.edges) {
+        if (e.kind !== 'internal') continue;
+        adjacency.get(e.from)!.push(e.to);
+        inDegree.set(e.to, (inDegree.get(e.to) || 0) + 1);
+    }
+
+    const q: string[] = [];
+    for (const [id, deg] of inDegree.entries()) {
+        if (deg === 0) q.push(id);
+    }
+
+    const order: string[] = [];
+    while (q.length > 0) {
+        const cur = q.shift()!;
+        order.push(cur);
+        for (const nb of adjacency.get(cur)!) {
+            const deg = inDegree.get(nb)! - 1;
+            inDegree.set(nb, deg);
+            if (deg === 0) q.push(nb);
+        }
+    }
+
+    // If the order doesn't include all files (due to cycles), append the remaining ones
+    if (order.length < graph.files.length) {
+        const visited = new Set(order);
+        for (const f of graph.files) {
+            if (!visited.has(f.id)) order.push(f.id);
+        }
+    }
+    return order;
+}
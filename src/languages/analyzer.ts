@@ -0,0 +1,25 @@
+import { ParsedFile } from '../parser';
+import { ImportResolver } from '../resolver';
+
+/**
+ * Extracts imports and symbols for one language and resolves its imports to workspace files.
+ * Every analyzer produces the same `ParsedFile` shape so the diagram code stays language-agnostic.
+ */
+export interface LanguageAnalyzer {
+    /** Short identifier, e.g. `python` */
+    id: string;
+    /** File extensions handled by this analyzer, lower-case with the leading dot */
+    extensions: string[];
+    /**
+     * Parses one file
+     * @param content - The source text
+     * @param filePath - Absolute path of the file
+     */
+    analyze(content: string, filePath: string): ParsedFile;
+    /**
+     * Creates a resolver for imports written in this language
+     * @param root - The folder being scanned
+     * @param files - All scanned file paths
+     */
+    createResolver(root: string, files: string[]): ImportResolver;
+}
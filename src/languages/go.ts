@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ImportInfo, ParsedFile, SymbolInfo, SymbolKind } from '../parser';
+import { ImportResolver } from '../resolver';
+import { LanguageAnalyzer } from './analyzer';
+import { addComplexity, findBraceBlockEnd, LexicalSyntax, maskSource, representativeFile } from './text';
+
+const GO_SYNTAX: LexicalSyntax = {
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    strings: ['"', '`', "'"],
+    rawStrings: ['`']
+};
+
+/**
+ * Branches, loops, `case` clauses (of `switch` and `select`) and short-circuit operators
+ */
+const GO_DECISIONS = /\b(?:if|for|case)\b|&&|\|\|/g;
+
+const isExported = (name: string) => /^[A-Z]/.test(name);
+const isTestFile = (name: string) => name.endsWith('_test.go');
+
+function typeKind(rest: string): SymbolKind {
+    if (/^struct\b/.test(rest)) return 'class';
+    if (/^interface\b/.test(rest)) return 'interface';
+    return 'type';
+}
+
+function parseGo(content: string): ParsedFile {
+    // Import paths are strings, so imports are read from text with only comments removed
+    const withStrings = maskSource(content, GO_SYNTAX, true).split('\n');
+    const lines = maskSource(content, GO_SYNTAX).split('\n');
+    const imports: ImportInfo[] = [];
+    const symbols: SymbolInfo[] = [];
+
+    function addImport(spec: string, index: number) {
+        const m = spec.trim().match(/^([\w.]+\s+)?"([^"]+)"/);
+        if (!m) return;
+        const alias = m[1] ? m[1].trim() : undefined;
+        const specifier = m[2];
+        const bindings = alias === '_' ? [] : [{ local: alias || specifier.split('/').pop()!, imported: '*' }];
+        imports.push({ specifier, kind: 'import', typeOnly: false, bindings, line: index + 1 });
+    }
+
+    let inImportBlock = false;
+    let inTypeBlock = false;
+    let typeDepth = 0;
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (inImportBlock) {
+            if (/^\s*\)/.test(line)) inImportBlock = false;
+            else addImport(withStrings[i], i);
+            continue;
+        }
+        if (inTypeBlock) {
+            if (typeDepth === 0 && /^\)/.test(line)) {
+                inTypeBlock = false;
+                continue;
+            }
+            // Only entries of the group itself, not the fields of a struct declared inside it
+            const t = typeDepth === 0 ? line.match(/^\s+([A-Za-z_]\w*)\s*(?:\[[^\]]*\])?\s*=?\s*(.*)$/) : null;
+            if (t) {
+                const kind = typeKind(t[2]);
+                symbols.push({ name: t[1], kind, exported: isExported(t[1]), isDefault: false, startLine: i + 1, endLine: kind === 'type' ? i + 1 : findBraceBlockEnd(lines, i) });
+            }
+            for (const ch of line) {
+                if (ch === '{') typeDepth++;
+                else if (ch === '}') typeDepth--;
+            }
+            continue;
+        }
+
+        let m: RegExpMatchArray | null;
+        if (/^import\s*\(/.test(line)) {
+            inImportBlock = true;
+        } else if (/^import\s/.test(line)) {
+            addImport(withStrings[i].replace(/^import\s+/, ''), i);
+        } else if (/^type\s*\(/.test(line)) {
+            inTypeBlock = true;
+        } else if ((m = line.match(/^type\s+([A-Za-z_]\w*)\s*(?:\[[^\]]*\])?\s*=?\s*(.*)$/))) {
+            const kind = typeKind(m[2]);
+            symbols.push({ name: m[1], kind, exported: isExported(m[1]), isDefault: false, startLine: i + 1, endLine: kind === 'type' ? i + 1 : findBraceBlockEnd(lines, i) });
+        } else if ((m = line.match(/^func\s+\(\s*(?:\w+\s+)?\*?\s*([A-Za-z_]\w*)(?:\[[^\]]*\])?\s*\)\s*([A-Za-z_]\w*)/))) {
+            symbols.push({ name: `${m[1]}.${m[2]}`, kind: 'method', exported: isExported(m[2]), isDefault: false, startLine: i + 1, endLine: findBraceBlockEnd(lines, i) });
+        } else if ((m = line.match(/^func\s+([A-Za-z_]\w*)/))) {
+            symbols.push({ name: m[1], kind: 'function', exported: isExported(m[1]), isDefault: false, startLine: i + 1, endLine: findBraceBlockEnd(lines, i) });
+        }
+    }
+    addComplexity(symbols, lines, GO_DECISIONS);
+    return { imports, symbols, calls: [] };
+}
+
+function createGoResolver(root: string, files: string[]): ImportResolver {
+    // Module path → module directory, from the go.mod that owns each scanned Go file
+    const rootDir = path.resolve(root);
+    const modules: { modulePath: string; dir: string }[] = [];
+    const checkedDirs = new Set<string>();
+    for (const f of files) {
+        if (path.extname(f) !== '.go') continue;
+        for (let dir = path.dirname(path.resolve(f)); dir.startsWith(rootDir) && !checkedDirs.has(dir); dir = path.dirname(dir)) {
+            checkedDirs.add(dir);
+            try {
+                const m = fs.readFileSync(path.join(dir, 'go.mod'), 'utf8').match(/^module\s+(\S+)/m);
+                if (m) {
+                    modules.push({ modulePath: m[1].replace(/"/g, ''), dir });
+                    break;
+                }
+            } catch (e) {
+                // no go.mod here; keep walking up
+            }
+            if (dir === rootDir) break;
+        }
+    }
+    // Prefer the most specific module when modules are nested
+    modules.sort((a, b) => b.modulePath.length - a.modulePath.length);
+
+    return (fromFile: string, imp: string): string | null => {
+        for (const mod of modules) {
+            if (imp !== mod.modulePath && !imp.startsWith(mod.modulePath + '/')) continue;
+            const dir = path.join(mod.dir, ...imp.slice(mod.modulePath.length).split('/').filter(p => p.length > 0));
+            // Go imports whole packages; the edge points at one file that stands for the package
+            return representativeFile(dir, '.go', isTestFile);
+        }
+        return null;
+    };
+}
+
+/**
+ * Go: single and grouped imports resolved through the module path in `go.mod`
+ */
+export const goAnalyzer: LanguageAnalyzer = {
+    id: 'go',
+    extensions: ['.go'],
+    analyze: (content) => parseGo(content),
+    createResolver: createGoResolver
+};
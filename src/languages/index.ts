@@ -0,0 +1,81 @@
+import * as path from 'path';
+import { ParsedFile } from '../parser';
+import { ImportResolver } from '../resolver';
+import { LanguageAnalyzer } from './analyzer';
+import { goAnalyzer } from './go';
+import { javaAnalyzer } from './java';
+import { pythonAnalyzer } from './python';
+import { typescriptAnalyzer } from './typescript';
+
+export { LanguageAnalyzer } from './analyzer';
+
+const analyzers: LanguageAnalyzer[] = [typescriptAnalyzer, pythonAnalyzer, goAnalyzer, javaAnalyzer];
+
+/**
+ * Adds an analyzer. Analyzers registered later win when several claim the same extension.
+ */
+export function registerLanguageAnalyzer(analyzer: LanguageAnalyzer): void {
+    analyzers.push(analyzer);
+}
+
+/**
+ * Finds the analyzer responsible for a file, based on its extension
+ * @param filePath - The file
+ * @param languages - Optional analyzer ids to choose from; other analyzers are ignored
+ */
+export function getLanguageAnalyzer(filePath: string, languages?: string[]): LanguageAnalyzer | undefined {
+    const ext = path.extname(filePath).toLowerCase();
+    for (let i = analyzers.length - 1; i >= 0; i--) {
+        if (languages && !languages.includes(analyzers[i].id)) continue;
+        if (analyzers[i].extensions.includes(ext)) return analyzers[i];
+    }
+    return undefined;
+}
+
+/**
+ * Parses a file with its language's analyzer; files without one yield no imports or symbols
+ */
+export function analyzeFile(filePath: string, content: string, languages?: string[]): ParsedFile {
+    const analyzer = getLanguageAnalyzer(filePath, languages);
+    return analyzer ? analyzer.analyze(content, filePath) : { imports: [], symbols: [], calls: [] };
+}
+
+/**
+ * Creates a resolver that hands each import to the resolver of the importing file's language
+ * @param root - The folder being scanned
+ * @param files - All scanned file paths
+ * @param languages - Optional analyzer ids to use
+ */
+export function createWorkspaceResolver(root: string, files: string[], languages?: string[]): ImportResolver {
+    const resolvers = new Map<LanguageAnalyzer, ImportResolver>();
+    return (fromFile: string, specifier: string): string | null => {
+        const analyzer = getLanguageAnalyzer(fromFile, languages);
+        if (!analyzer) return null;
+        if (!resolvers.has(analyzer)) resolvers.set(analyzer, analyzer.createResolver(root, files));
+        return resolvers.get(analyzer)!(fromFile, specifier);
+    };
+}
+
+/**
+ * Creates a resolver for several workspace folders. An import is resolved the way its own folder
+ * would resolve it first, then by the other folders, so `import 'shared/x'` can point into a
+ * sibling folder that the importing folder knows nothing about.
+ * @param roots - The workspace folders
+ * @param files - All scanned file paths of every folder
+ * @param languages - Optional analyzer ids to use
+ */
+export function createMultiRootResolver(roots: string[], files: string[], languages?: string[]): ImportResolver {
+    const resolvers = roots.map(root => ({ root: path.resolve(root), resolve: createWorkspaceResolver(root, files, languages) }));
+    return (fromFile: string, specifier: string): string | null => {
+        const file = path.resolve(fromFile);
+        // The deepest folder containing the file owns it when folders are nested
+        const own = resolvers
+            .filter(r => file.startsWith(r.root + path.sep))
+            .sort((a, b) => b.root.length - a.root.length)[0];
+        for (const r of own ? [own, ...resolvers.filter(r => r !== own)] : resolvers) {
+            const resolved = r.resolve(fromFile, specifier);
+            if (resolved) return resolved;
+        }
+        return null;
+    };
+}
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ImportInfo, ParsedFile, SymbolInfo, SymbolKind } from '../parser';
+import { ImportResolver } from '../resolver';
+import { LanguageAnalyzer } from './analyzer';
+import { addComplexity, findBraceBlockEnd, LexicalSyntax, maskSource, representativeFile } from './text';
+
+const JAVA_SYNTAX: LexicalSyntax = {
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    strings: ['"""', '"', "'"]
+};
+
+/**
+ * Branches, loops, `case` labels, `catch` blocks, short-circuit operators and the `?` of
+ * conditional expressions (but not the `?` of wildcard generics)
+ */
+const JAVA_DECISIONS = /\b(?:if|for|while|case|catch)\b|&&|\|\||\?(?=\s)(?!\s*(?:extends|super)\b)/g;
+
+const MODIFIERS = '(?:(?:public|protected|private|static|final|abstract|sealed|non-sealed|strictfp|synchronized|native|default)\\s+)*';
+const TYPE_DECL_RE = new RegExp(`^\\s*(?:@\\w+(?:\\([^)]*\\))?\\s+)*${MODIFIERS}(class|interface|enum|record|@interface)\\s+([A-Za-z_$][\\w$]*)`);
+const METHOD_RE = new RegExp(`^\\s*(?:@\\w+(?:\\([^)]*\\))?\\s+)*${MODIFIERS}(?:<[^>]*>\\s*)?[\\w$.<>\\[\\],?\\s]+\\s+([A-Za-z_$][\\w$]*)\\s*\\(`);
+const CONSTRUCTOR_RE = new RegExp(`^\\s*(?:@\\w+(?:\\([^)]*\\))?\\s+)*${MODIFIERS}(?:<[^>]*>\\s*)?([A-Za-z_$][\\w$]*)\\s*\\(`);
+const STATEMENT_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'new', 'throw', 'else', 'do', 'try', 'synchronized', 'assert']);
+
+function declarationKind(keyword: string): SymbolKind {
+    if (keyword === 'interface' || keyword === '@interface') return 'interface';
+    if (keyword === 'enum') return 'enum';
+    return 'class';
+}
+
+function parseJava(content: string): ParsedFile {
+    const lines = maskSource(content, JAVA_SYNTAX).split('\n');
+    const imports: ImportInfo[] = [];
+    const symbols: SymbolInfo[] = [];
+    // Type declarations whose bodies are open, with the brace depth inside each body
+    const types: { name: string; bodyDepth: number }[] = [];
+    let depth = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        let m: RegExpMatchArray | null;
+
+        if (depth === 0 && (m = line.match(/^\s*import\s+(static\s+)?([\w$.]+(?:\.\*)?)\s*;/))) {
+            const specifier = m[2];
+            const last = specifier.split('.').pop()!;
+            const bindings = last === '*' ? [] : [{ local: last, imported: last }];
+            imports.push({ specifier, kind: 'import', typeOnly: false, bindings, line: i + 1 });
+        } else if ((m = line.match(TYPE_DECL_RE))) {
+            const outer = types[types.length - 1];
+            if (!outer || outer.bodyDepth === depth) {
+                const name = outer ? `${outer.name}.${m[2]}` : m[2];
+                symbols.push({ name, kind: declarationKind(m[1]), exported: /\bpublic\b/.test(line), isDefault: false, startLine: i + 1, endLine: findBraceBlockEnd(lines, i) });
+                types.push({ name, bodyDepth: depth + 1 });
+            }
+        } else if (types.length > 0 && types[types.length - 1].bodyDepth === depth) {
+            const owner = types[types.length - 1].name;
+            const simpleOwner = owner.split('.').pop();
+            const ctor = line.match(CONSTRUCTOR_RE);
+            if (ctor && ctor[1] === simpleOwner) {
+                symbols.push({ name: `${owner}.constructor`, kind: 'method', exported: /\bpublic\b/.test(line), isDefault: false, startLine: i + 1, endLine: findBraceBlockEnd(lines, i) });
+            } else if ((m = line.match(METHOD_RE)) && !STATEMENT_KEYWORDS.has(m[1])) {
+                symbols.push({ name: `${owner}.${m[1]}`, kind: 'method', exported: /\bpublic\b/.test(line), isDefault: false, startLine: i + 1, endLine: findBraceBlockEnd(lines, i) });
+            }
+        }
+
+        for (const ch of line) {
+            if (ch === '{') {
+                depth++;
+            } else if (ch === '}') {
+                depth--;
+                while (types.length > 0 && depth < types[types.length - 1].bodyDepth) types.pop();
+            }
+        }
+    }
+    addComplexity(symbols, lines, JAVA_DECISIONS);
+    return { imports, symbols, calls: [] };
+}
+
+function createJavaResolver(root: string, files: string[]): ImportResolver {
+    const rootDir = path.resolve(root);
+    const javaFiles = files.filter(f => path.extname(f) === '.java').map(f => path.resolve(f));
+    const sourceRoots = new Map<string, string>();
+
+    /**
+     * The source root of a file is its folder minus the folders named by its `package` declaration
+     */
+    function sourceRootOf(file: string): string {
+        const dir = path.dirname(file);
+        if (sourceRoots.has(dir)) return sourceRoots.get(dir)!;
+        let sourceRoot = rootDir;
+        try {
+            const masked = maskSource(fs.readFileSync(file, 'utf8'), JAVA_SYNTAX);
+            const m = masked.match(/^\s*package\s+([\w$.]+)\s*;/m);
+            const pkgPath = m ? m[1].split('.').join(path.sep) : '';
+            if (!pkgPath) sourceRoot = dir;
+            else if (dir.endsWith(path.sep + pkgPath)) sourceRoot = dir.slice(0, -(pkgPath.length + 1));
+        } catch (e) {
+            // unreadable: fall back to the scanned root
+        }
+        sourceRoots.set(dir, sourceRoot);
+        return sourceRoot;
+    }
+
+    function findClassFile(fromFile: string, relPath: string): string | null {
+        const sameRoot = path.join(sourceRootOf(path.resolve(fromFile)), relPath);
+        if (javaFiles.includes(sameRoot)) return sameRoot;
+        // Other modules of a multi-module build have their own source roots
+        return javaFiles.find(f => f.endsWith(path.sep + relPath)) || null;
+    }
+
+    return (fromFile: string, imp: string): string | null => {
+        const parts = imp.split('.');
+        if (parts[parts.length - 1] === '*') {
+            // Wildcard import: either a class's nested members or a whole package (point at one of its files)
+            const pkgPath = parts.slice(0, -1).join(path.sep);
+            const classFile = findClassFile(fromFile, pkgPath + '.java');
+            if (classFile) return classFile;
+            const member = javaFiles.find(f => path.dirname(f).endsWith(path.sep + pkgPath));
+            return member ? representativeFile(path.dirname(member), '.java') : null;
+        }
+        // `a.b.C`, `a.b.C.Inner` or static `a.b.C.member`: the longest prefix that names a file wins
+        for (let n = parts.length; n > 1; n--) {
+            const found = findClassFile(fromFile, parts.slice(0, n).join(path.sep) + '.java');
+            if (found) return found;
+        }
+        return null;
+    };
+}
+
+/**
+ * Java: `package` and `import` (including static and wildcard) declarations
+ */
+export const javaAnalyzer: LanguageAnalyzer = {
+    id: 'java',
+    extensions: ['.java'],
+    analyze: (content) => parseJava(content),
+    createResolver: createJavaResolver
+};
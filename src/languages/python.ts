@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ImportBinding, ImportInfo, ParsedFile, SymbolInfo } from '../parser';
+import { ImportResolver } from '../resolver';
+import { LanguageAnalyzer } from './analyzer';
+import { addComplexity, LexicalSyntax, maskSource } from './text';
+
+const PYTHON_SYNTAX: LexicalSyntax = {
+    lineComment: '#',
+    strings: ['"""', "'''", '"', "'"]
+};
+
+/**
+ * Branches (including conditional expressions and comprehension filters), loops, `except` and
+ * `case` clauses, and boolean operators
+ */
+const PYTHON_DECISIONS = /\b(?:if|elif|for|while|except|case|and|or)\b/g;
+
+/**
+ * A statement that may span several physical lines through brackets or backslashes
+ */
+interface LogicalLine {
+    text: string;
+    indent: number;
+    /** 0-based index of the first physical line */
+    start: number;
+}
+
+function toLogicalLines(masked: string): LogicalLine[] {
+    const physical = masked.split('\n');
+    const result: LogicalLine[] = [];
+    let current: LogicalLine | null = null;
+    let depth = 0;
+
+    for (let i = 0; i < physical.length; i++) {
+        const line = physical[i];
+        if (!current) {
+            if (line.trim() === '') continue;
+            current = { text: '', indent: line.length - line.trimStart().length, start: i };
+        }
+        for (const ch of line) {
+            if (ch === '(' || ch === '[' || ch === '{') depth++;
+            else if ((ch === ')' || ch === ']' || ch === '}') && depth > 0) depth--;
+        }
+        const continued = line.trimEnd().endsWith('\\');
+        current.text += ' ' + line.trim().replace(/\\$/, '');
+        if (depth === 0 && !continued) {
+            current.text = current.text.trim();
+            result.push(current);
+            current = null;
+        }
+    }
+    if (current) {
+        current.text = current.text.trim();
+        result.push(current);
+    }
+    return result;
+}
+
+function parsePython(content: string): ParsedFile {
+    const masked = maskSource(content, PYTHON_SYNTAX);
+    const lines = toLogicalLines(masked);
+    const totalLines = masked.split('\n').length;
+    const imports: ImportInfo[] = [];
+    const symbols: SymbolInfo[] = [];
+    const stack: { indent: number; kind: 'class' | 'def'; name: string }[] = [];
+    const open: { symbol: SymbolInfo; indent: number }[] = [];
+
+    for (const line of lines) {
+        // Close every def/class whose body ended before this line
+        while (open.length > 0 && line.indent <= open[open.length - 1].indent) {
+            open.pop()!.symbol.endLine = line.start;
+        }
+        while (stack.length > 0 && line.indent <= stack[stack.length - 1].indent) stack.pop();
+
+        let m: RegExpMatchArray | null;
+        if ((m = line.text.match(/^import\s+(.+)$/))) {
+            for (const part of m[1].split(',')) {
+                const [name, alias] = part.trim().split(/\s+as\s+/);
+                if (!name) continue;
+                imports.push({ specifier: name, kind: 'import', typeOnly: false, bindings: [{ local: alias || name.split('.')[0], imported: '*' }], line: line.start + 1 });
+            }
+        } else if ((m = line.text.match(/^from\s+(\.*[\w.]*)\s+import\s+(.+)$/))) {
+            const module = m[1];
+            const names = m[2].replace(/[()]/g, '').split(',').map(n => n.trim()).filter(n => n.length > 0);
+            if (/^\.+$/.test(module)) {
+                // `from . import a, b` imports sibling modules; record each as its own specifier
+                for (const n of names) {
+                    const [name, alias] = n.split(/\s+as\s+/);
+                    imports.push({ specifier: module + name, kind: 'import', typeOnly: false, bindings: [{ local: alias || name, imported: '*' }], line: line.start + 1 });
+                }
+            } else {
+                const bindings: ImportBinding[] = names.filter(n => n !== '*').map(n => {
+                    const [name, alias] = n.split(/\s+as\s+/);
+                    return { local: alias || name, imported: name };
+                });
+                imports.push({ specifier: module, kind: 'import', typeOnly: false, bindings, line: line.start + 1 });
+            }
+        } else if ((m = line.text.match(/^(?:async\s+)?def\s+(\w+)/)) || (m = line.text.match(/^class\s+(\w+)/))) {
+            const isClass = line.text.startsWith('class');
+            const parent = stack[stack.length - 1];
+            const name = m[1];
+            // Functions nested inside other functions are implementation details and are not recorded
+            if (!parent || parent.kind === 'class') {
+                const symbol: SymbolInfo = {
+                    name: parent ? `${parent.name}.${name}` : name,
+                    kind: isClass ? 'class' : (parent ? 'method' : 'function'),
+                    exported: !name.startsWith('_') || (name.startsWith('__') && name.endsWith('__')),
+                    isDefault: false,
+                    startLine: line.start + 1,
+                    endLine: totalLines
+                };
+                symbols.push(symbol);
+                open.push({ symbol, indent: line.indent });
+            }
+            stack.push({ indent: line.indent, kind: isClass ? 'class' : 'def', name: parent ? `${parent.name}.${name}` : name });
+        }
+    }
+
+    // Trim trailing blank lines from symbols that run to the end of the file
+    const physical = masked.split('\n');
+    for (const s of symbols) {
+        while (s.endLine > s.startLine && physical[s.endLine - 1].trim() === '') s.endLine--;
+    }
+    addComplexity(symbols, physical, PYTHON_DECISIONS);
+
+    return { imports, symbols, calls: [] };
+}
+
+function createPythonResolver(root: string): ImportResolver {
+    const rootDir = path.resolve(root);
+    const searchRoots = [rootDir, path.join(rootDir, 'src')];
+
+    function moduleFile(base: string): string | null {
+        for (const candidate of [base + '.py', path.join(base, '__init__.py')]) {
+            try {
+                if (fs.statSync(candidate).isFile()) return candidate;
+            } catch (e) {
+                // try the next candidate
+            }
+        }
+        return null;
+    }
+
+    function resolveDotted(baseDir: string, dotted: string): string | null {
+        const parts = dotted.split('.').filter(p => p.length > 0);
+        // `from a.b import c` may name a symbol in a/b.py rather than a module, so fall back to parents
+        for (let n = parts.length; n > 0; n--) {
+            const found = moduleFile(path.join(baseDir, ...parts.slice(0, n)));
+            if (found) return found;
+        }
+        return parts.length === 0 ? moduleFile(baseDir) : null;
+    }
+
+    return (fromFile: string, imp: string): string | null => {
+        const dots = imp.match(/^\.*/)![0].length;
+        if (dots > 0) {
+            let dir = path.dirname(path.resolve(fromFile));
+            for (let i = 1; i < dots; i++) dir = path.dirname(dir);
+            return resolveDotted(dir, imp.slice(dots));
+        }
+        // Absolute imports: the scanned root, a `src/` layout, then the importing file's own folders
+        const dirs = [...searchRoots];
+        for (let dir = path.dirname(path.resolve(fromFile)); dir.startsWith(rootDir); dir = path.dirname(dir)) {
+            if (!dirs.includes(dir)) dirs.push(dir);
+            if (dir === rootDir) break;
+        }
+        const first = imp.split('.')[0];
+        for (const d of dirs) {
+            // Only accept a search root that actually contains the top-level package or module
+            if (!moduleFile(path.join(d, first))) continue;
+            const found = resolveDotted(d, imp);
+            if (found) return found;
+        }
+        return null;
+    };
+}
+
+/**
+ * Python: `import a.b`, `from a.b import c`, relative imports and packages with `__init__.py`
+ */
+export const pythonAnalyzer: LanguageAnalyzer = {
+    id: 'python',
+    extensions: ['.py', '.pyi'],
+    analyze: (content) => parsePython(content),
+    createResolver: createPythonResolver
+};
@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SymbolInfo } from '../parser';
+
+/**
+ * Comment and string delimiters of a language, used to blank out text that must not be scanned
+ */
+export interface LexicalSyntax {
+    lineComment?: string;
+    blockComment?: [string, string];
+    /** String delimiters, longest first (e.g. `"""` before `"`) */
+    strings: string[];
+    /** Delimiters whose contents ignore backslash escapes, e.g. Go raw strings */
+    rawStrings?: string[];
+}
+
+/**
+ * Replaces comments (and optionally string contents) with spaces, keeping offsets and line breaks intact
+ * @param content - The source text
+ * @param syntax - The language's comment and string delimiters
+ * @param keepStrings - When true, string contents are left as they are
+ * @returns Text of the same length where only code remains
+ */
+export function maskSource(content: string, syntax: LexicalSyntax, keepStrings = false): string {
+    const out: string[] = [];
+    const blank = (s: string) => s.replace(/[^\n]/g, ' ');
+    let i = 0;
+
+    while (i < content.length) {
+        if (syntax.lineComment && content.startsWith(syntax.lineComment, i)) {
+            const end = content.indexOf('\n', i);
+            const stop = end < 0 ? content.length : end;
+            out.push(blank(content.slice(i, stop)));
+            i = stop;
+            continue;
+        }
+        if (syntax.blockComment && content.startsWith(syntax.blockComment[0], i)) {
+            const end = content.indexOf(syntax.blockComment[1], i + syntax.blockComment[0].length);
+            const stop = end < 0 ? content.length : end + syntax.blockComment[1].length;
+            out.push(blank(content.slice(i, stop)));
+            i = stop;
+            continue;
+        }
+        const delimiter = syntax.strings.find(d => content.startsWith(d, i));
+        if (delimiter) {
+            const raw = !!syntax.rawStrings && syntax.rawStrings.includes(delimiter);
+            let j = i + delimiter.length;
+            while (j < content.length && !content.startsWith(delimiter, j)) {
+                // Single-character delimiters cannot span lines; stop so an unterminated string does not eat the file
+                if (delimiter.length === 1 && !raw && content[j] === '\n') break;
+                j += !raw && content[j] === '\\' ? 2 : 1;
+            }
+            const bodyEnd = Math.min(j, content.length);
+            const body = content.slice(i + delimiter.length, bodyEnd);
+            out.push(delimiter, keepStrings ? body : blank(body));
+            i = bodyEnd;
+            if (content.startsWith(delimiter, i)) {
+                out.push(delimiter);
+                i += delimiter.length;
+            }
+            continue;
+        }
+        out.push(content[i]);
+        i++;
+    }
+    return out.join('');
+}
+
+/**
+ * Finds the 1-based line that closes the brace block opened on or after the given line.
+ * Returns the start line when a `;` ends the declaration before any `{` (e.g. abstract methods).
+ */
+export function findBraceBlockEnd(lines: string[], startIndex: number): number {
+    let depth = 0;
+    let opened = false;
+    for (let i = startIndex; i < lines.length; i++) {
+        for (const ch of lines[i]) {
+            if (ch === '{') {
+                depth++;
+                opened = true;
+            } else if (ch === '}') {
+                depth--;
+                if (opened && depth === 0) return i + 1;
+            } else if (ch === ';' && !opened) {
+                return i + 1;
+            }
+        }
+    }
+    return opened ? lines.length : startIndex + 1;
+}
+
+/**
+ * Sets the cyclomatic complexity of function and method symbols from the decision points (branch
+ * keywords and short-circuit operators) between their first and last line
+ * @param symbols - Symbols found in the file, with their line ranges
+ * @param lines - Masked source lines, so keywords in comments and strings are not counted
+ * @param decisions - Matches one decision point; needs the `g` flag
+ */
+export function addComplexity(symbols: SymbolInfo[], lines: string[], decisions: RegExp): void {
+    for (const s of symbols) {
+        if (s.kind !== 'function' && s.kind !== 'method') continue;
+        const body = lines.slice(s.startLine - 1, s.endLine).join('\n');
+        s.complexity = 1 + (body.match(decisions) || []).length;
+    }
+}
+
+/**
+ * Picks one file to stand for a package directory (Go packages, Java wildcard imports): the file named
+ * after the directory when present, otherwise the first source file in name order
+ * @param dir - The package directory
+ * @param ext - Source file extension, e.g. `.go`
+ * @param exclude - Optional filter for files that never represent a package (tests)
+ */
+export function representativeFile(dir: string, ext: string, exclude?: (name: string) => boolean): string | null {
+    let entries: string[];
+    try {
+        entries = fs.readdirSync(dir).filter(n => n.endsWith(ext) && !(exclude && exclude(n))).sort();
+    } catch (e) {
+        return null;
+    }
+    if (entries.length === 0) return null;
+    const named = path.basename(dir) + ext;
+    return path.join(dir, entries.includes(named) ? named : entries[0]);
+}
@@ -0,0 +1,13 @@
+import { parseSource } from '../parser';
+import { createImportResolver } from '../resolver';
+import { LanguageAnalyzer } from './analyzer';
+
+/**
+ * JavaScript and TypeScript, parsed with the TypeScript compiler API
+ */
+export const typescriptAnalyzer: LanguageAnalyzer = {
+    id: 'typescript',
+    extensions: ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'],
+    analyze: (content, filePath) => parseSource(content, filePath),
+    createResolver: createImportResolver
+};
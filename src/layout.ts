@@ -0,0 +1,281 @@
+/**
+ * A box to place; its size is decided by the caller
+ */
+export interface LayoutNode {
+    id: string;
+    width: number;
+    height: number;
+    /** Nodes of one group are placed in a band of their own so that the group can be framed */
+    group?: string;
+}
+
+export interface LayoutEdge {
+    from: string;
+    to: string;
+}
+
+/**
+ * A placed box; `x`/`y` are its top-left corner
+ */
+export interface PositionedNode extends LayoutNode {
+    x: number;
+    y: number;
+    /** 0-based layer, top to bottom */
+    layer: number;
+}
+
+/**
+ * The area around the nodes of a group, including its padding
+ */
+export interface GroupFrame {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface Layout {
+    nodes: Map<string, PositionedNode>;
+    /** Frames of the node groups, keyed by group */
+    groups: Map<string, GroupFrame>;
+    width: number;
+    height: number;
+}
+
+/**
+ * Direction in which edges point: top to bottom, bottom to top, left to right or right to left
+ */
+export type LayoutDirection = 'TB' | 'BT' | 'LR' | 'RL';
+
+export interface LayoutOptions {
+    direction?: LayoutDirection;
+    /** Space between boxes in a layer */
+    nodeGap?: number;
+    /** Space between layers */
+    layerGap?: number;
+    margin?: number;
+    /** Number of down/up passes that reorder layers to reduce crossings */
+    sweeps?: number;
+    /** Space between a group's frame and its nodes */
+    groupPadding?: number;
+}
+
+/**
+ * Reverses the edges that close cycles (found by depth-first search in input order) so that
+ * the remaining graph can be layered
+ * @returns Adjacency lists of the acyclic graph
+ */
+function acyclicSuccessors(ids: string[], edges: LayoutEdge[]): Map<string, string[]> {
+    const out = new Map<string, string[]>(ids.map(id => [id, []]));
+    for (const e of edges) {
+        if (e.from !== e.to && out.has(e.from) && out.has(e.to) && !out.get(e.from)!.includes(e.to)) out.get(e.from)!.push(e.to);
+    }
+
+    const state = new Map<string, 'active' | 'done'>();
+    const result = new Map<string, string[]>(ids.map(id => [id, []]));
+    for (const start of ids) {
+        if (state.has(start)) continue;
+        // Iterative DFS: large workspaces would overflow the call stack
+        const stack: { id: string; next: number }[] = [{ id: start, next: 0 }];
+        state.set(start, 'active');
+        while (stack.length > 0) {
+            const top = stack[stack.length - 1];
+            const succ = out.get(top.id)!;
+            if (top.next >= succ.length) {
+                state.set(top.id, 'done');
+                stack.pop();
+                continue;
+            }
+            const to = succ[top.next++];
+            if (state.get(to) === 'active') {
+                result.get(to)!.push(top.id);
+            } else {
+                result.get(top.id)!.push(to);
+                if (!state.has(to)) {
+                    state.set(to, 'active');
+                    stack.push({ id: to, next: 0 });
+                }
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Places boxes in layers so that edges point in the layout direction where possible: cycles are
+ * broken, every node goes one layer after its deepest predecessor, layers are reordered with the
+ * barycenter heuristic and then centred. Grouped nodes are kept in one band per group.
+ * @param nodes - Boxes in their preferred order
+ * @param edges - Directed edges between box ids; unknown ids and self-loops are ignored
+ * @param options - Direction and spacing
+ * @returns Positions of every box, the group frames and the overall size
+ */
+export function layeredLayout(nodes: LayoutNode[], edges: LayoutEdge[], options: LayoutOptions = {}): Layout {
+    const direction = options.direction || 'TB';
+    const horizontal = direction === 'LR' || direction === 'RL';
+    // Other directions are a top-down layout of the transposed boxes, flipped afterwards
+    const layout = layoutTopDown(horizontal ? nodes.map(n => ({ ...n, width: n.height, height: n.width })) : nodes, edges, options);
+    if (direction === 'TB') return { ...layout, groups: groupFrames(layout.nodes, options.groupPadding ?? 24) };
+
+    const width = horizontal ? layout.height : layout.width;
+    const height = horizontal ? layout.width : layout.height;
+    const placed = new Map<string, PositionedNode>();
+    for (const n of layout.nodes.values()) {
+        const p = horizontal ? { ...n, x: n.y, y: n.x, width: n.height, height: n.width } : { ...n };
+        if (direction === 'BT') p.y = height - p.y - p.height;
+        if (direction === 'RL') p.x = width - p.x - p.width;
+        placed.set(n.id, p);
+    }
+    return { nodes: placed, groups: groupFrames(placed, options.groupPadding ?? 24), width, height };
+}
+
+/**
+ * Frames every group around its placed nodes
+ */
+function groupFrames(placed: Map<string, PositionedNode>, padding: number): Map<string, GroupFrame> {
+    const frames = new Map<string, GroupFrame>();
+    for (const n of placed.values()) {
+        if (n.group === undefined) continue;
+        const frame = frames.get(n.group);
+        if (!frame) {
+            frames.set(n.group, { x: n.x - padding, y: n.y - padding, width: n.width + padding * 2, height: n.height + padding * 2 });
+            continue;
+        }
+        const right = Math.max(frame.x + frame.width, n.x + n.width + padding);
+        const bottom = Math.max(frame.y + frame.height, n.y + n.height + padding);
+        frame.x = Math.min(frame.x, n.x - padding);
+        frame.y = Math.min(frame.y, n.y - padding);
+        frame.width = right - frame.x;
+        frame.height = bottom - frame.y;
+    }
+    return frames;
+}
+
+function layoutTopDown(nodes: LayoutNode[], edges: LayoutEdge[], options: LayoutOptions): Omit<Layout, 'groups'> {
+    const nodeGap = options.nodeGap ?? 40;
+    const layerGap = options.layerGap ?? 60;
+    const sweeps = options.sweeps ?? 4;
+    const grouped = nodes.some(n => n.group !== undefined);
+    const groupPadding = grouped ? options.groupPadding ?? 24 : 0;
+    // Frames extend past their nodes, so the margin has to make room for them
+    const margin = (options.margin ?? 20) + groupPadding;
+
+    const ids = nodes.map(n => n.id);
+    const successors = acyclicSuccessors(ids, edges);
+    const predecessors = new Map<string, string[]>(ids.map(id => [id, []]));
+    for (const [from, tos] of successors) {
+        for (const to of tos) predecessors.get(to)!.push(from);
+    }
+
+    // Longest-path layering in topological order
+    const layerOf = new Map<string, number>();
+    const remaining = new Map<string, number>(ids.map(id => [id, predecessors.get(id)!.length]));
+    const queue = ids.filter(id => remaining.get(id) === 0);
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        const layer = Math.max(-1, ...predecessors.get(id)!.map(p => layerOf.get(p)!)) + 1;
+        layerOf.set(id, layer);
+        for (const to of successors.get(id)!) {
+            remaining.set(to, remaining.get(to)! - 1);
+            if (remaining.get(to) === 0) queue.push(to);
+        }
+    }
+
+    const layers: string[][] = [];
+    for (const id of ids) {
+        const layer = layerOf.get(id) ?? 0;
+        while (layers.length <= layer) layers.push([]);
+        layers[layer].push(id);
+    }
+
+    // Barycenter ordering: sort each layer by the mean relative position of its neighbours
+    const position = new Map<string, number>();
+    const updatePositions = (layer: string[]) => layer.forEach((id, i) => position.set(id, (i + 0.5) / layer.length));
+    layers.forEach(updatePositions);
+    const reorder = (layer: string[], neighbours: Map<string, string[]>) => {
+        const keys = new Map<string, number>();
+        for (const id of layer) {
+            const ns = neighbours.get(id)!;
+            keys.set(id, ns.length > 0 ? ns.reduce((sum, n) => sum + position.get(n)!, 0) / ns.length : position.get(id)!);
+        }
+        layer.sort((a, b) => keys.get(a)! - keys.get(b)!);
+        updatePositions(layer);
+    };
+    for (let s = 0; s < sweeps; s++) {
+        for (let i = 1; i < layers.length; i++) reorder(layers[i], predecessors);
+        for (let i = layers.length - 2; i >= 0; i--) reorder(layers[i], successors);
+    }
+
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const placed = new Map<string, PositionedNode>();
+    if (grouped) {
+        placeInGroupBands(layers, byId, placed, { nodeGap, layerGap, margin, groupPadding });
+    } else {
+        // Coordinates: layers stacked top to bottom, each centred on the widest one
+        const layerWidths = layers.map(layer => rowWidth(layer, byId, nodeGap));
+        const contentWidth = Math.max(0, ...layerWidths);
+        let y = margin;
+        layers.forEach((layer, index) => {
+            const layerHeight = Math.max(0, ...layer.map(id => byId.get(id)!.height));
+            placeRow(layer, byId, placed, margin + (contentWidth - layerWidths[index]) / 2, y, layerHeight, index, nodeGap);
+            y += layerHeight + layerGap;
+        });
+    }
+
+    let width = margin * 2;
+    let height = margin * 2;
+    for (const n of placed.values()) {
+        width = Math.max(width, n.x + n.width + margin);
+        height = Math.max(height, n.y + n.height + margin);
+    }
+    return { nodes: placed, width: Math.round(width), height: Math.round(height) };
+}
+
+function rowWidth(ids: string[], byId: Map<string, LayoutNode>, nodeGap: number): number {
+    return ids.reduce((w, id) => w + byId.get(id)!.width, 0) + nodeGap * Math.max(0, ids.length - 1);
+}
+
+/**
+ * Places boxes left to right from `x`, vertically centred in their layer
+ */
+function placeRow(ids: string[], byId: Map<string, LayoutNode>, placed: Map<string, PositionedNode>, x: number, y: number, layerHeight: number, layer: number, nodeGap: number): void {
+    for (const id of ids) {
+        const node = byId.get(id)!;
+        placed.set(id, { ...node, x: Math.round(x), y: Math.round(y + (layerHeight - node.height) / 2), layer });
+        x += node.width + nodeGap;
+    }
+}
+
+/**
+ * Gives every group a vertical band as wide as its widest layer and places each layer's nodes
+ * centred in their group's band, so that group frames never overlap. Ungrouped nodes share a
+ * band after the groups.
+ */
+function placeInGroupBands(layers: string[][], byId: Map<string, LayoutNode>, placed: Map<string, PositionedNode>, spacing: { nodeGap: number; layerGap: number; margin: number; groupPadding: number }): void {
+    const { nodeGap, layerGap, margin, groupPadding } = spacing;
+    const groups: (string | undefined)[] = [];
+    for (const n of byId.values()) {
+        if (!groups.includes(n.group)) groups.push(n.group);
+    }
+    // Ungrouped nodes (Start/End, external packages) go last
+    groups.sort((a, b) => (a === undefined ? 1 : 0) - (b === undefined ? 1 : 0));
+
+    // The barycenter order is kept inside each group
+    const rows = layers.map(layer => groups.map(g => layer.filter(id => byId.get(id)!.group === g)));
+    const bandWidths = groups.map((_, gi) => Math.max(0, ...rows.map(row => rowWidth(row[gi], byId, nodeGap))));
+    const bandStarts: number[] = [];
+    let x = margin;
+    groups.forEach((_, gi) => {
+        bandStarts.push(x);
+        if (bandWidths[gi] > 0) x += bandWidths[gi] + nodeGap + groupPadding * 2;
+    });
+
+    let y = margin;
+    rows.forEach((row, index) => {
+        const layerHeight = Math.max(0, ...row.flat().map(id => byId.get(id)!.height));
+        row.forEach((ids, gi) => {
+            placeRow(ids, byId, placed, bandStarts[gi] + (bandWidths[gi] - rowWidth(ids, byId, nodeGap)) / 2, y, layerHeight, index, nodeGap);
+        });
+        y += layerHeight + layerGap;
+    });
+}
@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CONFIG_FILE_NAME, ScanOptions } from './config';
+import { FileInfo, rescanPaths, shouldIgnorePath } from './scanner';
+
+/**
+ * How long to wait after the last file event before rescanning, so a burst of saves
+ * (format on save, git checkout) leads to one update
+ */
+const DEBOUNCE_MS = 300;
+
+/**
+ * Options for watchFolder: the scan options of the initial scan plus its selection
+ */
+export interface WatchOptions extends Partial<ScanOptions> {
+    /** Files or folders inside the folder that the diagram is limited to; changes elsewhere are ignored */
+    scope?: string[];
+}
+
+/**
+ * Watches a scanned folder and reports the updated file list whenever files are saved, created,
+ * deleted or renamed. Only the affected paths are read again.
+ * @param folderPath - The scanned folder
+ * @param files - The files read by the initial scan
+ * @param options - The include/exclude globs, extensions and selection of the initial scan
+ * @param onChange - Called with the new file list after each batch of changes
+ * @returns Disposable that stops watching
+ */
+export function watchFolder(folderPath: string, files: FileInfo[], options: WatchOptions, onChange: (files: FileInfo[]) => void): vscode.Disposable {
+    const { scope, ...scanOptions } = options;
+    const inScope = (fsPath: string) => !scope || scope.some(p => fsPath === p || fsPath.startsWith(p + path.sep));
+    const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folderPath, '**/*'));
+    const pending = new Set<string>();
+    let current = files;
+    let timer: NodeJS.Timeout | undefined;
+    let running: Promise<void> = Promise.resolve();
+    let disposed = false;
+
+    const flush = () => {
+        timer = undefined;
+        const changed = [...pending];
+        pending.clear();
+        // Batches are applied one after another so a slow rescan never overwrites a newer one
+        running = running.then(async () => {
+            current = await rescanPaths(folderPath, current, changed, scanOptions);
+            if (!disposed) onChange(current);
+        }).catch(error => console.warn(`Could not update flowchart: ${error}`));
+    };
+
+    // A rename arrives as a delete of the old path and a create of the new one
+    const queue = (uri: vscode.Uri) => {
+        if (shouldIgnorePath(path.relative(folderPath, uri.fsPath)) || !inScope(uri.fsPath)) return;
+        // An edited .gitignore can hide or reveal anything next to it or below it
+        pending.add(path.basename(uri.fsPath) === '.gitignore' ? path.dirname(uri.fsPath) : uri.fsPath);
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(flush, DEBOUNCE_MS);
+    };
+
+    return vscode.Disposable.from(
+        watcher,
+        watcher.onDidChange(queue),
+        watcher.onDidCreate(queue),
+        watcher.onDidDelete(queue),
+        {
+            dispose: () => {
+                disposed = true;
+                if (timer) clearTimeout(timer);
+            }
+        }
+    );
+}
+
+/**
+ * Reports edits of the settings a diagram was drawn with: the `.flowchartrc.json` of its workspace
+ * roots and the `codeToFlowchart.*` settings that apply to its folders
+ * @param folders - The scanned folders, the scopes of the settings
+ * @param configRoots - The folders whose `.flowchartrc.json` is read
+ * @param onChange - Called once per batch of changes
+ * @returns Disposable that stops watching
+ */
+export function watchConfig(folders: vscode.Uri[], configRoots: string[], onChange: () => void): vscode.Disposable {
+    let timer: NodeJS.Timeout | undefined;
+    const queue = () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+            timer = undefined;
+            onChange();
+        }, DEBOUNCE_MS);
+    };
+    const watchers = [...new Set(configRoots)].map(root => vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(root, CONFIG_FILE_NAME)));
+
+    return vscode.Disposable.from(
+        ...watchers,
+        ...watchers.flatMap(w => [w.onDidChange(queue), w.onDidCreate(queue), w.onDidDelete(queue)]),
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (folders.some(f => e.affectsConfiguration('codeToFlowchart', f))) queue();
+        }),
+        {
+            dispose: () => {
+                if (timer) clearTimeout(timer);
+            }
+        }
+    );
+}
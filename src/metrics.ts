@@ -0,0 +1,181 @@
+import { MetricKind } from './config';
+import { DependencyGraph } from './graph';
+
+/**
+ * Names of the metrics in legends, table headers and pickers
+ */
+export const METRIC_LABELS: Record<MetricKind, string> = {
+    fanIn: 'Fan-in',
+    fanOut: 'Fan-out',
+    lines: 'Lines',
+    symbols: 'Symbols',
+    complexity: 'Complexity'
+};
+
+/**
+ * Measures of one file, or of a collapsed folder, in a dependency graph
+ */
+export interface FileMetrics {
+    id: string;
+    /** Display name, relative to the scanned folder */
+    name: string;
+    /** Absolute path on disk */
+    path: string;
+    /** Files that import this file */
+    fanIn: number;
+    /** Files and packages this file imports */
+    fanOut: number;
+    lines: number;
+    /** Declared functions, classes, methods, types and variables */
+    symbols: number;
+    /** Highest cyclomatic complexity of the file's functions and methods; 0 when it has none */
+    complexity: number;
+    /** The function or method with that complexity */
+    mostComplex?: string;
+}
+
+/**
+ * One colour band of the overlay and its legend entry
+ */
+export interface MetricBucket {
+    /** Lowest value in the band, inclusive */
+    min: number;
+    /** Highest value in the band, inclusive */
+    max: number;
+    /** 0 for the lowest band, up to HEAT_COLORS.length - 1 */
+    level: number;
+    fill: string;
+    text: string;
+}
+
+/**
+ * The overlay of one metric on a graph
+ */
+export interface MetricOverlay {
+    metric: MetricKind;
+    label: string;
+    /** Bands from 0 up to the highest value, lowest first */
+    buckets: MetricBucket[];
+    /** File id → band */
+    levels: Map<string, MetricBucket>;
+}
+
+/**
+ * Heatmap colours from cool to hot, with a readable text colour for each
+ */
+const HEAT_COLORS = [
+    { fill: '#fff5eb', text: '#333333' },
+    { fill: '#fdd0a2', text: '#333333' },
+    { fill: '#fd8d3c', text: '#333333' },
+    { fill: '#e6550d', text: '#ffffff' },
+    { fill: '#a63603', text: '#ffffff' }
+];
+
+/**
+ * Computes fan-in, fan-out, size and complexity for every file node of a graph
+ * @param graph - The dependency graph; collapsed folders are measured as one node
+ * @returns One entry per file, in graph order
+ */
+export function computeMetrics(graph: DependencyGraph): FileMetrics[] {
+    const fanIn = new Map<string, number>();
+    const fanOut = new Map<string, number>();
+    for (const e of graph.edges) {
+        fanOut.set(e.from, (fanOut.get(e.from) || 0) + 1);
+        if (e.kind === 'internal') fanIn.set(e.to, (fanIn.get(e.to) || 0) + 1);
+    }
+    return graph.files.map(f => {
+        let complexity = 0;
+        let mostComplex: string | undefined;
+        for (const s of f.symbols) {
+            if (s.complexity !== undefined && s.complexity > complexity) {
+                complexity = s.complexity;
+                mostComplex = s.name;
+            }
+        }
+        return {
+            id: f.id,
+            name: f.name,
+            path: f.path,
+            fanIn: fanIn.get(f.id) || 0,
+            fanOut: fanOut.get(f.id) || 0,
+            lines: f.lineCount,
+            symbols: f.symbols.length,
+            complexity,
+            mostComplex
+        };
+    });
+}
+
+/**
+ * Splits the range from 0 to the highest value into equal bands, one per heatmap colour. Bands
+ * that cannot hold an integer (when the highest value is small) are left out.
+ * @param values - Values of one metric
+ */
+export function metricBuckets(values: number[]): MetricBucket[] {
+    const highest = Math.max(0, ...values);
+    const buckets: MetricBucket[] = [];
+    let min = 0;
+    HEAT_COLORS.forEach((color, level) => {
+        const max = Math.floor(highest * (level + 1) / HEAT_COLORS.length);
+        if (max < min) return;
+        buckets.push({ min, max, level, fill: color.fill, text: color.text });
+        min = max + 1;
+    });
+    return buckets;
+}
+
+/**
+ * Measures a graph for the overlay of the chosen metric
+ * @param graph - The graph about to be drawn
+ * @param metric - The metric from the diagram options
+ * @returns Undefined when the overlay is off, and for diff graphs, which are coloured by change
+ */
+export function metricOverlay(graph: DependencyGraph, metric: MetricKind | 'none'): MetricOverlay | undefined {
+    if (metric === 'none' || graph.diff) return undefined;
+    const metrics = computeMetrics(graph);
+    const buckets = metricBuckets(metrics.map(m => m[metric]));
+    const levels = new Map<string, MetricBucket>();
+    for (const m of metrics) {
+        levels.set(m.id, buckets.find(b => m[metric] <= b.max)!);
+    }
+    return { metric, label: METRIC_LABELS[metric], buckets, levels };
+}
+
+/**
+ * Legend text of a band, e.g. "4–7" or "12"
+ */
+export function describeBucket(bucket: MetricBucket): string {
+    return bucket.min === bucket.max ? String(bucket.min) : `${bucket.min}–${bucket.max}`;
+}
+
+/**
+ * Orders files from the highest value of a metric down; ties are ordered by name
+ */
+export function sortHotspots(metrics: FileMetrics[], by: MetricKind): FileMetrics[] {
+    return [...metrics].sort((a, b) => b[by] - a[by] || a.name.localeCompare(b.name));
+}
+
+function csvField(value: string | number | undefined): string {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats the hotspot table as CSV with a header row
+ * @param metrics - Rows in the order to write them
+ */
+export function formatMetricsCsv(metrics: FileMetrics[]): string {
+    const rows = [['file', 'fanIn', 'fanOut', 'lines', 'symbols', 'complexity', 'mostComplex']];
+    for (const m of metrics) {
+        rows.push([m.name, m.fanIn, m.fanOut, m.lines, m.symbols, m.complexity, m.mostComplex].map(csvField));
+    }
+    return rows.map(r => r.join(',')).join('\n') + '\n';
+}
+
+/**
+ * Formats the hotspot table as JSON. Absolute paths are left out so the output is portable.
+ * @param metrics - Rows in the order to write them
+ */
+export function formatMetricsJson(metrics: FileMetrics[]): string {
+    return JSON.stringify(metrics.map(({ path, ...m }) => m), null, 2) + '\n';
+}
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+
+/**
+ * View type of every diagram panel, also used to restore them after a reload
+ */
+export const PANEL_VIEW_TYPE = 'codeToFlowchart';
+
+/**
+ * The kind of diagram a panel shows
+ */
+export type PanelMode = 'folder' | 'focus' | 'function' | 'callGraph' | 'diff' | 'class' | 'sequence';
+
+/**
+ * What a panel shows. Kept in the WebView state so that restored panels keep it.
+ */
+export interface PanelInfo {
+    mode: PanelMode;
+    /** Path of the workspace folder the diagram belongs to (several, joined, for combined folders) */
+    root: string;
+    /** What was diagrammed inside the folder: the selection, file, function or revisions */
+    scope: string;
+    title: string;
+    /** A pinned panel is only reused for the same mode and scope */
+    pinned: boolean;
+}
+
+/**
+ * A panel handed out for one diagram
+ */
+export interface DiagramPanel {
+    panel: vscode.WebviewPanel;
+    info: PanelInfo;
+    /** Disposes listeners and watchers of this diagram when the panel is closed or reused for another one */
+    track(...disposables: vscode.Disposable[]): void;
+    /** Renames the panel, e.g. when a live diagram follows the editor to another file */
+    setTitle(title: string): void;
+}
+
+/**
+ * Hands out diagram panels so that repeated commands reuse one panel per workspace folder
+ */
+export interface PanelManager {
+    /**
+     * Finds the panel for a new diagram: a pinned panel showing the same mode and scope, else the
+     * folder's unpinned panel, else a new panel beside the editor. The previous diagram's listeners
+     * are disposed before the panel is returned.
+     * @param info - The diagram about to be shown
+     */
+    open(info: Omit<PanelInfo, 'pinned'>): DiagramPanel;
+    /**
+     * Takes over a panel restored by VS Code after a reload
+     * @param panel - The restored panel
+     * @param info - The panel info saved in its state
+     */
+    adopt(panel: vscode.WebviewPanel, info: PanelInfo): DiagramPanel;
+}
+
+interface ManagedPanel {
+    panel: vscode.WebviewPanel;
+    info: PanelInfo;
+    /** Disposables of the diagram shown now */
+    session: vscode.Disposable[];
+}
+
+function endSession(managed: ManagedPanel) {
+    managed.session.forEach(d => d.dispose());
+    managed.session = [];
+}
+
+/**
+ * Creates the panel manager of the extension. Panels are pinned and unpinned from their toolbar;
+ * the manager keeps their info and title in sync and tells the page, which saves it in its state.
+ * @param extensionUri - Root of the extension, for the media folder
+ */
+export function createPanelManager(extensionUri: vscode.Uri): PanelManager {
+    const panels: ManagedPanel[] = [];
+
+    const updateTitle = (managed: ManagedPanel) => {
+        managed.panel.title = managed.info.pinned ? `${managed.info.title} (pinned)` : managed.info.title;
+    };
+
+    function manage(panel: vscode.WebviewPanel, info: PanelInfo): ManagedPanel {
+        const managed: ManagedPanel = { panel, info, session: [] };
+        panels.push(managed);
+        panel.webview.onDidReceiveMessage(message => {
+            if (message.command !== 'setPinned' || typeof message.pinned !== 'boolean') return;
+            managed.info = { ...managed.info, pinned: message.pinned };
+            updateTitle(managed);
+            panel.webview.postMessage({ command: 'panelInfo', panel: managed.info });
+        });
+        panel.onDidDispose(() => {
+            endSession(managed);
+            panels.splice(panels.indexOf(managed), 1);
+        });
+        updateTitle(managed);
+        return managed;
+    }
+
+    function handOut(managed: ManagedPanel): DiagramPanel {
+        return {
+            panel: managed.panel,
+            info: managed.info,
+            track: (...disposables) => managed.session.push(...disposables),
+            setTitle: title => {
+                managed.info = { ...managed.info, title };
+                updateTitle(managed);
+                managed.panel.webview.postMessage({ command: 'panelInfo', panel: managed.info });
+            }
+        };
+    }
+
+    return {
+        open(info) {
+            let managed = panels.find(p => p.info.pinned && p.info.mode === info.mode && p.info.root === info.root && p.info.scope === info.scope)
+                || panels.find(p => !p.info.pinned && p.info.root === info.root);
+            // Restored panels cannot keep their page while hidden, which live diagrams need
+            if (managed && !managed.panel.options.retainContextWhenHidden) {
+                managed.panel.dispose();
+                managed = undefined;
+            }
+            if (!managed) {
+                const panel = vscode.window.createWebviewPanel(PANEL_VIEW_TYPE, info.title, vscode.ViewColumn.Beside, {
+                    enableScripts: true,
+                    // Live diagrams post updates to the page, so it must survive being moved to a background tab
+                    retainContextWhenHidden: true,
+                    localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')]
+                });
+                return handOut(manage(panel, { ...info, pinned: false }));
+            }
+            endSession(managed);
+            managed.info = { ...info, pinned: managed.info.pinned };
+            updateTitle(managed);
+            managed.panel.reveal(undefined, true);
+            return handOut(managed);
+        },
+        adopt(panel, info) {
+            panel.webview.options = { enableScripts: true, localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')] };
+            return handOut(manage(panel, info));
+        }
+    };
+}
@@ -0,0 +1,335 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+
+export type SymbolKind = 'function' | 'class' | 'method' | 'interface' | 'type' | 'enum' | 'variable';
+
+/**
+ * A top-level declaration (or class member) found in a source file
+ */
+export interface SymbolInfo {
+    name: string;
+    kind: SymbolKind;
+    exported: boolean;
+    isDefault: boolean;
+    /** 1-based, inclusive */
+    startLine: number;
+    /** 1-based, inclusive */
+    endLine: number;
+    /** Cyclomatic complexity; set on functions and methods */
+    complexity?: number;
+}
+
+export type ImportKind = 'import' | 'require' | 'dynamic-import' | 're-export' | 'export-all';
+
+/**
+ * A name brought in by an import. `imported` is `default` for default imports and `*` for namespaces.
+ * For re-exports `local` is the name the symbol is exported under.
+ */
+export interface ImportBinding {
+    local: string;
+    imported: string;
+}
+
+/**
+ * A module reference found in a source file
+ */
+export interface ImportInfo {
+    specifier: string;
+    kind: ImportKind;
+    typeOnly: boolean;
+    bindings: ImportBinding[];
+    /** 1-based line of the import statement */
+    line: number;
+}
+
+/**
+ * A call or `new` expression. `caller` is the enclosing symbol name (null at module top level);
+ * `callee` is the called expression split on dots, e.g. `['ns', 'run']` or `['this', 'save']`.
+ */
+export interface CallSite {
+    caller: string | null;
+    callee: string[];
+    isNew: boolean;
+    line: number;
+}
+
+export interface ParsedFile {
+    imports: ImportInfo[];
+    symbols: SymbolInfo[];
+    calls: CallSite[];
+}
+
+const PARSABLE_EXTS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Checks whether a file can be parsed as JavaScript or TypeScript
+ */
+export function isParsableFile(fileName: string): boolean {
+    return PARSABLE_EXTS.includes(path.extname(fileName).toLowerCase());
+}
+
+/**
+ * Picks the TypeScript script kind from a file name so JSX and plain JS parse correctly
+ */
+export function getScriptKind(fileName: string): ts.ScriptKind {
+    switch (path.extname(fileName).toLowerCase()) {
+        case '.tsx': return ts.ScriptKind.TSX;
+        case '.jsx': return ts.ScriptKind.JSX;
+        case '.js':
+        case '.mjs':
+        case '.cjs': return ts.ScriptKind.JS;
+        default: return ts.ScriptKind.TS;
+    }
+}
+
+/**
+ * Parses a file into a TypeScript syntax tree with parent pointers set
+ */
+export function createSourceFile(fileName: string, content: string): ts.SourceFile {
+    return ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, getScriptKind(fileName));
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+    return !!modifiers && modifiers.some(m => m.kind === kind);
+}
+
+function lineOf(sourceFile: ts.SourceFile, pos: number): number {
+    return sourceFile.getLineAndCharacterOfPosition(pos).line + 1;
+}
+
+function isFunctionInitializer(node: ts.Expression | undefined): boolean {
+    if (!node) return false;
+    while (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+        node = node.expression;
+    }
+    return ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+}
+
+/**
+ * Cyclomatic complexity of a function or method: one plus its branches, loops, `case` clauses,
+ * `catch` blocks, conditional expressions and short-circuit operators, nested callbacks included
+ */
+function complexityOf(node: ts.Node): number {
+    let complexity = 1;
+    const visit = (n: ts.Node) => {
+        switch (n.kind) {
+            case ts.SyntaxKind.IfStatement:
+            case ts.SyntaxKind.ConditionalExpression:
+            case ts.SyntaxKind.ForStatement:
+            case ts.SyntaxKind.ForInStatement:
+            case ts.SyntaxKind.ForOfStatement:
+            case ts.SyntaxKind.WhileStatement:
+            case ts.SyntaxKind.DoStatement:
+            case ts.SyntaxKind.CaseClause:
+            case ts.SyntaxKind.CatchClause:
+                complexity++;
+                break;
+            case ts.SyntaxKind.BinaryExpression:
+                switch ((n as ts.BinaryExpression).operatorToken.kind) {
+                    case ts.SyntaxKind.AmpersandAmpersandToken:
+                    case ts.SyntaxKind.BarBarToken:
+                    case ts.SyntaxKind.QuestionQuestionToken:
+                    case ts.SyntaxKind.AmpersandAmpersandEqualsToken:
+                    case ts.SyntaxKind.BarBarEqualsToken:
+                    case ts.SyntaxKind.QuestionQuestionEqualsToken:
+                        complexity++;
+                }
+                break;
+        }
+        ts.forEachChild(n, visit);
+    };
+    ts.forEachChild(node, visit);
+    return complexity;
+}
+
+/**
+ * Splits `a.b.c` / `this.x` into name segments; returns null for anything more dynamic
+ */
+export function calleePath(expr: ts.Expression): string[] | null {
+    if (ts.isIdentifier(expr)) return [expr.text];
+    if (expr.kind === ts.SyntaxKind.ThisKeyword) return ['this'];
+    if (ts.isPropertyAccessExpression(expr) && ts.isIdentifier(expr.name)) {
+        const left = calleePath(expr.expression);
+        return left ? [...left, expr.name.text] : null;
+    }
+    return null;
+}
+
+function bindingsFromName(name: ts.BindingName): ImportBinding[] {
+    if (ts.isIdentifier(name)) return [{ local: name.text, imported: '*' }];
+    if (ts.isObjectBindingPattern(name)) {
+        return name.elements
+            .filter(e => ts.isIdentifier(e.name))
+            .map(e => ({
+                local: (e.name as ts.Identifier).text,
+                imported: e.propertyName && (ts.isIdentifier(e.propertyName) || ts.isStringLiteral(e.propertyName))
+                    ? e.propertyName.text
+                    : (e.name as ts.Identifier).text
+            }));
+    }
+    return [];
+}
+
+/**
+ * Extracts imports, re-exports, declared symbols and call sites from JavaScript or TypeScript source
+ * @param content - The source text
+ * @param fileName - The file name, used to pick TS/JS/JSX parsing
+ * @returns The imports, symbols and calls found in the file
+ */
+export function parseSource(content: string, fileName: string): ParsedFile {
+    const sourceFile = createSourceFile(fileName, content);
+    const imports: ImportInfo[] = [];
+    const symbols: SymbolInfo[] = [];
+    const calls: CallSite[] = [];
+    const exportedNames = new Set<string>();
+    let defaultExportName: string | undefined;
+
+    function addSymbol(node: ts.Node, name: string, kind: SymbolKind, exported: boolean, isDefault = false) {
+        symbols.push({
+            name,
+            kind,
+            exported,
+            isDefault,
+            startLine: lineOf(sourceFile, node.getStart(sourceFile)),
+            endLine: lineOf(sourceFile, node.getEnd()),
+            complexity: kind === 'function' || kind === 'method' ? complexityOf(node) : undefined
+        });
+    }
+
+    function addImport(node: ts.Node, specifier: string, kind: ImportKind, typeOnly: boolean, bindings: ImportBinding[]) {
+        imports.push({ specifier, kind, typeOnly, bindings, line: lineOf(sourceFile, node.getStart(sourceFile)) });
+    }
+
+    function visitDeclaration(stmt: ts.Statement) {
+        const exported = hasModifier(stmt, ts.SyntaxKind.ExportKeyword);
+        const isDefault = hasModifier(stmt, ts.SyntaxKind.DefaultKeyword);
+
+        if (ts.isFunctionDeclaration(stmt)) {
+            addSymbol(stmt, stmt.name ? stmt.name.text : 'default', 'function', exported, isDefault);
+        } else if (ts.isClassDeclaration(stmt)) {
+            const className = stmt.name ? stmt.name.text : 'default';
+            addSymbol(stmt, className, 'class', exported, isDefault);
+            for (const member of stmt.members) {
+                if ((ts.isMethodDeclaration(member) || ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) && member.body) {
+                    addSymbol(member, `${className}.${member.name.getText(sourceFile)}`, 'method', exported);
+                } else if (ts.isConstructorDeclaration(member) && member.body) {
+                    addSymbol(member, `${className}.constructor`, 'method', exported);
+                } else if (ts.isPropertyDeclaration(member) && isFunctionInitializer(member.initializer)) {
+                    addSymbol(member, `${className}.${member.name.getText(sourceFile)}`, 'method', exported);
+                }
+            }
+        } else if (ts.isInterfaceDeclaration(stmt)) {
+            addSymbol(stmt, stmt.name.text, 'interface', exported, isDefault);
+        } else if (ts.isTypeAliasDeclaration(stmt)) {
+            addSymbol(stmt, stmt.name.text, 'type', exported);
+        } else if (ts.isEnumDeclaration(stmt)) {
+            addSymbol(stmt, stmt.name.text, 'enum', exported);
+        } else if (ts.isVariableStatement(stmt)) {
+            for (const decl of stmt.declarationList.declarations) {
+                if (!ts.isIdentifier(decl.name)) continue;
+                addSymbol(decl, decl.name.text, isFunctionInitializer(decl.initializer) ? 'function' : 'variable', exported);
+            }
+        } else if (ts.isExportDeclaration(stmt) && !stmt.moduleSpecifier && stmt.exportClause && ts.isNamedExports(stmt.exportClause)) {
+            // export { a, b as c }
+            for (const el of stmt.exportClause.elements) {
+                exportedNames.add((el.propertyName || el.name).text);
+            }
+        } else if (ts.isExportAssignment(stmt) && ts.isIdentifier(stmt.expression)) {
+            // export default foo
+            defaultExportName = stmt.expression.text;
+        }
+    }
+
+    /**
+     * Name of the symbol a node declares, when it is one of the top-level symbols recorded above
+     */
+    function declaredSymbolName(node: ts.Node): string | null {
+        const parent = node.parent;
+        if (ts.isFunctionDeclaration(node) && parent === sourceFile) {
+            return node.name ? node.name.text : 'default';
+        }
+        if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && isFunctionInitializer(node.initializer) &&
+            parent.parent && parent.parent.parent === sourceFile) {
+            return node.name.text;
+        }
+        if ((ts.isMethodDeclaration(node) || ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node) ||
+            ts.isConstructorDeclaration(node) || (ts.isPropertyDeclaration(node) && isFunctionInitializer(node.initializer))) &&
+            ts.isClassDeclaration(parent) && parent.parent === sourceFile) {
+            const className = parent.name ? parent.name.text : 'default';
+            const member = ts.isConstructorDeclaration(node) ? 'constructor' : node.name.getText(sourceFile);
+            return `${className}.${member}`;
+        }
+        return null;
+    }
+
+    function visitCalls(node: ts.Node, caller: string | null) {
+        const declared = declaredSymbolName(node);
+        if (declared) caller = declared;
+        if ((ts.isCallExpression(node) || ts.isNewExpression(node)) && node.expression.kind !== ts.SyntaxKind.ImportKeyword) {
+            const callee = calleePath(node.expression);
+            if (callee && !(callee.length === 1 && callee[0] === 'require')) {
+                calls.push({ caller, callee, isNew: ts.isNewExpression(node), line: lineOf(sourceFile, node.getStart(sourceFile)) });
+            }
+        }
+        ts.forEachChild(node, child => visitCalls(child, caller));
+    }
+
+    function visitImports(node: ts.Node) {
+        if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+            const clause = node.importClause;
+            const bindings: ImportBinding[] = [];
+            if (clause) {
+                if (clause.name) bindings.push({ local: clause.name.text, imported: 'default' });
+                if (clause.namedBindings) {
+                    if (ts.isNamespaceImport(clause.namedBindings)) {
+                        bindings.push({ local: clause.namedBindings.name.text, imported: '*' });
+                    } else {
+                        for (const el of clause.namedBindings.elements) {
+                            bindings.push({ local: el.name.text, imported: (el.propertyName || el.name).text });
+                        }
+                    }
+                }
+            }
+            addImport(node, node.moduleSpecifier.text, 'import', !!clause && clause.isTypeOnly, bindings);
+        } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+            const clause = node.exportClause;
+            if (!clause) {
+                addImport(node, node.moduleSpecifier.text, 'export-all', node.isTypeOnly, []);
+            } else if (ts.isNamespaceExport(clause)) {
+                addImport(node, node.moduleSpecifier.text, 're-export', node.isTypeOnly, [{ local: clause.name.text, imported: '*' }]);
+            } else {
+                const bindings = clause.elements.map(el => ({ local: el.name.text, imported: (el.propertyName || el.name).text }));
+                addImport(node, node.moduleSpecifier.text, 're-export', node.isTypeOnly, bindings);
+            }
+        } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference) &&
+            ts.isStringLiteral(node.moduleReference.expression)) {
+            addImport(node, node.moduleReference.expression.text, 'require', node.isTypeOnly, [{ local: node.name.text, imported: '*' }]);
+        } else if (ts.isCallExpression(node) && node.arguments.length >= 1 && ts.isStringLiteralLike(node.arguments[0])) {
+            const specifier = node.arguments[0].text;
+            if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+                addImport(node, specifier, 'dynamic-import', false, []);
+            } else if (ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+                const parent = node.parent;
+                const bindings = ts.isVariableDeclaration(parent) && parent.initializer === node ? bindingsFromName(parent.name) : [];
+                addImport(node, specifier, 'require', false, bindings);
+            }
+        }
+        ts.forEachChild(node, visitImports);
+    }
+
+    for (const stmt of sourceFile.statements) visitDeclaration(stmt);
+    visitImports(sourceFile);
+    visitCalls(sourceFile, null);
+
+    for (const s of symbols) {
+        const owner = s.name.split('.')[0];
+        if (exportedNames.has(owner)) s.exported = true;
+        if (defaultExportName && owner === defaultExportName) {
+            s.exported = true;
+            if (s.name === owner) s.isDefault = true;
+        }
+    }
+
+    return { imports, symbols, calls };
+}
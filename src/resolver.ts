@@ -0,0 +1,222 @@
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Resolves an import specifier from a file to an absolute path, or null for external modules
+ */
+export type ImportResolver = (fromFile: string, specifier: string) => string | null;
+
+/**
+ * The module-resolution settings of one tsconfig.json / jsconfig.json, with `extends` already applied
+ */
+interface PathConfig {
+    baseUrl?: string;
+    paths: Record<string, string[]>;
+    pathsBase: string;
+}
+
+const RESOLVE_EXTS = ['.ts', '.tsx', '.d.ts', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+const CONFIG_NAMES = ['tsconfig.json', 'jsconfig.json'];
+const EXPORT_CONDITIONS = ['types', 'import', 'require', 'node', 'default'];
+
+// TypeScript projects import `./foo.js` while the source on disk is `./foo.ts`
+const JS_TO_TS: Record<string, string[]> = {
+    '.js': ['.ts', '.tsx'],
+    '.jsx': ['.tsx'],
+    '.mjs': ['.mts'],
+    '.cjs': ['.cts']
+};
+
+function isFile(p: string): boolean {
+    try {
+        return fs.statSync(p).isFile();
+    } catch (e) {
+        return false;
+    }
+}
+
+function isDirectory(p: string): boolean {
+    try {
+        return fs.statSync(p).isDirectory();
+    } catch (e) {
+        return false;
+    }
+}
+
+function readJson(file: string): any {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+        return null;
+    }
+}
+
+function loadPathConfig(configFile: string): PathConfig | null {
+    const read = ts.readConfigFile(configFile, ts.sys.readFile);
+    if (read.error || !read.config) return null;
+    const parsed = ts.parseJsonConfigFileContent(read.config, ts.sys, path.dirname(configFile), undefined, configFile);
+    // pathsBasePath is where `paths` was declared, which matters when it comes from an extended config
+    const options = parsed.options as ts.CompilerOptions & { pathsBasePath?: string };
+    return {
+        baseUrl: options.baseUrl,
+        paths: options.paths || {},
+        pathsBase: options.baseUrl || options.pathsBasePath || path.dirname(configFile)
+    };
+}
+
+/**
+ * Picks a file path out of a package.json `exports` value, trying common conditions in order
+ */
+function pickExportTarget(value: any): string | null {
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) {
+        for (const v of value) {
+            const picked = pickExportTarget(v);
+            if (picked) return picked;
+        }
+        return null;
+    }
+    if (value && typeof value === 'object') {
+        for (const condition of EXPORT_CONDITIONS) {
+            if (condition in value) {
+                const picked = pickExportTarget(value[condition]);
+                if (picked) return picked;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Creates a resolver that understands relative imports, tsconfig `paths`/`baseUrl` (including `extends`)
+ * and package.json `exports`/`main` of packages that live inside the scanned folder
+ * @param root - The folder being scanned; tsconfig lookup stops here
+ * @param files - All scanned file paths; package.json files among them define local packages
+ * @returns A resolver function
+ */
+export function createImportResolver(root: string, files: string[]): ImportResolver {
+    const rootDir = path.resolve(root);
+    const configByDir = new Map<string, PathConfig | null>();
+    const localPackages = new Map<string, string>();
+
+    for (const f of files) {
+        if (path.basename(f) !== 'package.json' || f.split(path.sep).includes('node_modules')) continue;
+        const pkg = readJson(f);
+        if (pkg && typeof pkg.name === 'string') localPackages.set(pkg.name, path.dirname(path.resolve(f)));
+    }
+
+    function findConfig(dir: string): PathConfig | null {
+        if (configByDir.has(dir)) return configByDir.get(dir)!;
+        let config: PathConfig | null = null;
+        const configFile = CONFIG_NAMES.map(n => path.join(dir, n)).find(isFile);
+        if (configFile) {
+            config = loadPathConfig(configFile);
+        } else {
+            const parent = path.dirname(dir);
+            if (parent !== dir && dir !== rootDir && dir.startsWith(rootDir)) config = findConfig(parent);
+        }
+        configByDir.set(dir, config);
+        return config;
+    }
+
+    function packageEntry(dir: string, subpath: string): string | null {
+        const pkg = readJson(path.join(dir, 'package.json'));
+        if (!pkg) return null;
+
+        if (pkg.exports !== undefined) {
+            const key = subpath ? './' + subpath : '.';
+            const exportsMap = typeof pkg.exports === 'object' && !Array.isArray(pkg.exports) && Object.keys(pkg.exports).some(k => k.startsWith('.'))
+                ? pkg.exports
+                : { '.': pkg.exports };
+            let target: string | null = null;
+            if (key in exportsMap) {
+                target = pickExportTarget(exportsMap[key]);
+            } else {
+                for (const pattern of Object.keys(exportsMap)) {
+                    const star = pattern.indexOf('*');
+                    if (star < 0) continue;
+                    const prefix = pattern.slice(0, star);
+                    const suffix = pattern.slice(star + 1);
+                    if (key.startsWith(prefix) && key.endsWith(suffix) && key.length >= prefix.length + suffix.length) {
+                        const picked = pickExportTarget(exportsMap[pattern]);
+                        if (picked) target = picked.replace('*', key.slice(prefix.length, key.length - suffix.length));
+                        break;
+                    }
+                }
+            }
+            const resolved = target && resolveFile(path.resolve(dir, target));
+            if (resolved) return resolved;
+        }
+
+        if (subpath) return resolveFile(path.resolve(dir, subpath));
+        for (const field of ['types', 'module', 'main']) {
+            const resolved = typeof pkg[field] === 'string' ? resolveFile(path.resolve(dir, pkg[field])) : null;
+            if (resolved) return resolved;
+        }
+        return null;
+    }
+
+    function resolveFile(base: string): string | null {
+        const candidates = [base];
+        const ext = path.extname(base);
+        if (JS_TO_TS[ext]) {
+            const stem = base.slice(0, -ext.length);
+            candidates.push(...JS_TO_TS[ext].map(e => stem + e));
+        }
+        candidates.push(...RESOLVE_EXTS.map(e => base + e));
+        candidates.push(...RESOLVE_EXTS.map(e => path.join(base, 'index' + e)));
+        for (const c of candidates) {
+            if (isFile(c)) return path.resolve(c);
+        }
+        if (isDirectory(base) && isFile(path.join(base, 'package.json'))) return packageEntry(base, '');
+        return null;
+    }
+
+    function resolveWithPaths(config: PathConfig, imp: string): string | null {
+        // Like TypeScript, prefer the pattern with the longest matching prefix
+        const prefixLength = (p: string) => p.includes('*') ? p.indexOf('*') : Number.MAX_SAFE_INTEGER;
+        const patterns = Object.keys(config.paths).sort((a, b) => prefixLength(b) - prefixLength(a));
+        for (const pattern of patterns) {
+            const star = pattern.indexOf('*');
+            let captured: string | null = null;
+            if (star < 0) {
+                if (pattern === imp) captured = '';
+            } else {
+                const prefix = pattern.slice(0, star);
+                const suffix = pattern.slice(star + 1);
+                if (imp.startsWith(prefix) && imp.endsWith(suffix) && imp.length >= prefix.length + suffix.length) {
+                    captured = imp.slice(prefix.length, imp.length - suffix.length);
+                }
+            }
+            if (captured === null) continue;
+            for (const target of config.paths[pattern]) {
+                const resolved = resolveFile(path.resolve(config.pathsBase, target.replace('*', captured)));
+                if (resolved) return resolved;
+            }
+        }
+        return null;
+    }
+
+    return (fromFile: string, imp: string): string | null => {
+        if (imp.startsWith('.') || path.isAbsolute(imp)) {
+            return resolveFile(path.resolve(path.dirname(fromFile), imp));
+        }
+
+        const config = findConfig(path.dirname(path.resolve(fromFile)));
+        if (config) {
+            const viaPaths = resolveWithPaths(config, imp);
+            if (viaPaths) return viaPaths;
+            if (config.baseUrl) {
+                const viaBaseUrl = resolveFile(path.resolve(config.baseUrl, imp));
+                if (viaBaseUrl) return viaBaseUrl;
+            }
+        }
+
+        for (const [name, dir] of localPackages) {
+            if (imp === name) return packageEntry(dir, '');
+            if (imp.startsWith(name + '/')) return packageEntry(dir, imp.slice(name.length + 1));
+        }
+        return null;
+    };
+}
@@ -0,0 +1,174 @@
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as util from 'util';
+import { FlowchartConfig } from './config';
+import { buildDependencyGraph, DependencyGraph } from './graph';
+import { MAX_FILE_SIZE, readFolderRecursive, shouldIgnorePath, SkipCounts } from './scanner';
+
+const execFile = util.promisify(childProcess.execFile);
+
+/**
+ * A file in a git tree, with its path relative to the folder it was listed from
+ */
+interface TreeEntry {
+    path: string;
+    object: string;
+    size: number;
+}
+
+function gitError(args: string[], error: any): Error {
+    if (error && error.code === 'ENOENT') return new Error('git was not found on the PATH');
+    const detail = error && (error.stderr || error.message) ? String(error.stderr || error.message).trim() : String(error);
+    return new Error(`git ${args[0]} failed: ${detail}`);
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+    try {
+        const { stdout } = await execFile('git', args, { cwd, encoding: 'utf8', maxBuffer: 256 * 1024 * 1024 });
+        return stdout;
+    } catch (error) {
+        throw gitError(args, error);
+    }
+}
+
+/**
+ * Resolves a branch, tag or other revision to a commit id
+ * @throws When the folder is not in a git repository or the revision does not exist
+ */
+async function resolveCommit(folderPath: string, ref: string): Promise<string> {
+    try {
+        return (await git(folderPath, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`])).trim();
+    } catch (error) {
+        await git(folderPath, ['rev-parse', '--git-dir']);
+        throw new Error(`Unknown revision "${ref}"`);
+    }
+}
+
+/**
+ * Lists the regular files below a folder in a commit; symlinks and submodules are left out
+ */
+async function listTree(folderPath: string, commit: string): Promise<TreeEntry[]> {
+    // -z keeps paths unquoted; paths are relative to the folder
+    return parseTree(await git(folderPath, ['ls-tree', '-r', '-z', '-l', commit, '--', '.']));
+}
+
+/**
+ * Lists the `.gitignore` files of the folders above a folder in a commit, from the repository root down
+ * @param prefix - The folder relative to the repository root, with `/` separators
+ */
+async function listParentGitignores(folderPath: string, commit: string, prefix: string): Promise<TreeEntry[]> {
+    if (!prefix) return [];
+    const parents = prefix.split('/').slice(0, -1);
+    const files = ['.gitignore', ...parents.map((_, i) => parents.slice(0, i + 1).join('/') + '/.gitignore')];
+    // Paths are relative to the repository root here
+    return parseTree(await git(folderPath, ['ls-tree', '--full-tree', '-z', '-l', commit, '--', ...files]));
+}
+
+function parseTree(output: string): TreeEntry[] {
+    const entries: TreeEntry[] = [];
+    for (const record of output.split('\0')) {
+        const m = record.match(/^(\d+) blob ([0-9a-f]+)\s+(\d+)\t(.+)$/s);
+        if (!m || m[1] === '120000') continue;
+        entries.push({ object: m[2], size: Number(m[3]), path: m[4] });
+    }
+    return entries;
+}
+
+/**
+ * Reads blob contents with a single `git cat-file --batch`
+ * @returns Object id → content
+ */
+function readBlobs(folderPath: string, objects: string[]): Promise<Map<string, Buffer>> {
+    return new Promise((resolve, reject) => {
+        const args = ['cat-file', '--batch'];
+        const proc = childProcess.spawn('git', args, { cwd: folderPath });
+        const chunks: Buffer[] = [];
+        let stderr = '';
+        proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+        proc.stderr.on('data', (chunk: Buffer) => stderr += chunk.toString());
+        proc.on('error', error => reject(gitError(args, error)));
+        proc.on('close', code => {
+            if (code !== 0) {
+                reject(gitError(args, { stderr: stderr || `exit code ${code}` }));
+                return;
+            }
+            // Each object is "<id> <type> <size>\n<content>\n"
+            const output = Buffer.concat(chunks);
+            const blobs = new Map<string, Buffer>();
+            let offset = 0;
+            while (offset < output.length) {
+                const headerEnd = output.indexOf(10, offset);
+                if (headerEnd < 0) break;
+                const [object, type, size] = output.subarray(offset, headerEnd).toString().split(' ');
+                offset = headerEnd + 1;
+                if (type === 'missing' || size === undefined) continue;
+                blobs.set(object, output.subarray(offset, offset + Number(size)));
+                offset += Number(size) + 1;
+            }
+            resolve(blobs);
+        });
+        proc.stdin.end(objects.join('\n') + '\n');
+    });
+}
+
+/**
+ * Builds the dependency graph of a folder as it was in a git revision, read through the local
+ * `git` binary without touching the working tree. The revision's files are written to a temporary
+ * folder so that import resolution sees that revision's tsconfig, package.json and go.mod, and the
+ * scan its `.gitignore` files up to the repository root; the folder is removed again afterwards.
+ * Files are scanned with the same settings as the working tree.
+ * @param folderPath - A folder inside a git repository
+ * @param ref - Branch, tag or commit
+ * @param config - Scan settings and languages
+ * @param skipped - Receives the number of skipped files per reason
+ * @returns The graph, with paths pointing into `folderPath`
+ * @throws When git is missing, the folder is not in a repository or the revision does not exist
+ */
+export async function buildRevisionGraph(folderPath: string, ref: string, config: FlowchartConfig, skipped: SkipCounts = {}): Promise<DependencyGraph> {
+    const commit = await resolveCommit(folderPath, ref);
+    const prefix = (await git(folderPath, ['rev-parse', '--show-prefix'])).trim().replace(/\/$/, '');
+    const entries = (await listTree(folderPath, commit)).filter(e => !shouldIgnorePath(e.path));
+    const tooLarge = entries.filter(e => e.size > MAX_FILE_SIZE).length;
+    if (tooLarge > 0) skipped['too-large'] = (skipped['too-large'] || 0) + tooLarge;
+    const wanted = entries.filter(e => e.size <= MAX_FILE_SIZE);
+    const parentGitignores = await listParentGitignores(folderPath, commit, prefix);
+    const blobs = await readBlobs(folderPath, [...new Set([...wanted, ...parentGitignores].map(e => e.object))]);
+    const excludeFile = path.resolve(folderPath, (await git(folderPath, ['rev-parse', '--git-path', 'info/exclude'])).trim());
+
+    const tempRoot = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'flowchart-'));
+    // The folder keeps the working tree's name, so file names and ids match between revisions, and
+    // sits as deep below a stand-in repository as in the real one, so that the revision's
+    // `.gitignore` files above it apply as they do when scanning the working tree
+    const folderName = path.basename(path.resolve(folderPath));
+    const tempRepository = path.join(tempRoot, prefix ? 'repository' : folderName);
+    const tempFolder = prefix ? path.join(tempRepository, ...prefix.split('/').slice(0, -1), folderName) : tempRepository;
+    const write = async (target: string, content: Buffer) => {
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        await fs.promises.writeFile(target, content);
+    };
+    try {
+        for (const entry of wanted) {
+            await write(path.join(tempFolder, entry.path), blobs.get(entry.object) || Buffer.alloc(0));
+        }
+        for (const entry of parentGitignores) {
+            await write(path.join(tempRepository, entry.path), blobs.get(entry.object) || Buffer.alloc(0));
+        }
+        // Local excludes are not part of any revision, but the working tree scan applies them too
+        await write(path.join(tempRepository, '.git', 'info', 'exclude'), await fs.promises.readFile(excludeFile).catch(() => Buffer.alloc(0)));
+        await fs.promises.mkdir(tempFolder, { recursive: true });
+        const files = await readFolderRecursive(tempFolder, { ...config, skipped });
+        const graph = buildDependencyGraph(files, tempFolder, { languages: config.languages });
+
+        const relocate = (p: string) => path.join(folderPath, path.relative(tempFolder, p));
+        return {
+            ...graph,
+            root: folderPath,
+            files: graph.files.map(f => ({ ...f, path: relocate(f.path) })),
+            boundaries: graph.boundaries.map(b => ({ ...b, path: relocate(b.path) }))
+        };
+    } finally {
+        await fs.promises.rm(tempRoot, { recursive: true, force: true });
+    }
+}
@@ -0,0 +1,136 @@
+import { ArchitectureRule } from './config';
+import { globToRegExp, matchesAnyGlob } from './glob';
+import { DependencyGraph, GraphEdge } from './graph';
+
+/**
+ * An import, or a file's set of imports, that breaks an architecture rule
+ */
+export interface RuleViolation {
+    /** The rule's name, or a description of it */
+    rule: string;
+    message: string;
+    /** Id of the importing file */
+    from: string;
+    /** The forbidden import; unset when a file imports too much */
+    edge?: GraphEdge;
+    /** 1-based line of the import to report */
+    line: number;
+}
+
+function list(value: string | string[] | undefined): string[] {
+    return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Path of a file relative to its scanned folder; graph names start with the folder's name
+ */
+function relativeName(name: string): string {
+    return name.replace(/\\/g, '/').split('/').slice(1).join('/');
+}
+
+/**
+ * Package part of an import specifier: `lodash/fp` → `lodash`, `@scope/pkg/x` → `@scope/pkg`
+ */
+function packageName(specifier: string): string {
+    const parts = specifier.split('/');
+    return parts.slice(0, specifier.startsWith('@') ? 2 : 1).join('/');
+}
+
+function matchesPackage(specifier: string, patterns: string[]): boolean {
+    const name = packageName(specifier);
+    return patterns.some(p => p === name || p === specifier || (/[*?[{]/.test(p) && globToRegExp(p).test(name)));
+}
+
+/**
+ * Describes a rule for reports, e.g. "src/ui/** may not import src/db/**"
+ */
+export function describeRule(rule: ArchitectureRule): string {
+    if (rule.name) return rule.name;
+    const from = list(rule.from);
+    const except = list(rule.except);
+    const parts: string[] = [];
+    if (rule.forbid !== undefined) parts.push(`may not import ${list(rule.forbid).join(', ')}`);
+    if (rule.forbidPackages !== undefined) parts.push(`may not import packages ${list(rule.forbidPackages).join(', ')}`);
+    if (rule.maxFanOut !== undefined) parts.push(`may import at most ${rule.maxFanOut} files and packages`);
+    return `${from.length > 0 ? from.join(', ') : 'Files'}${except.length > 0 ? ` (except ${except.join(', ')})` : ''} ${parts.join(' and ')}`;
+}
+
+/**
+ * Checks the import edges of a graph against architecture rules
+ * @param graph - The dependency graph; collapsed folder nodes are skipped
+ * @param rules - Rules from the configuration
+ * @returns One violation per forbidden import, and one per file that imports too much
+ */
+export function checkRules(graph: DependencyGraph, rules: ArchitectureRule[]): RuleViolation[] {
+    if (rules.length === 0) return [];
+    const names = new Map<string, string>([
+        ...graph.files.map(f => [f.id, f.name] as [string, string]),
+        ...graph.boundaries.map(b => [b.id, b.name] as [string, string])
+    ]);
+    const outgoing = new Map<string, GraphEdge[]>();
+    for (const e of graph.edges) {
+        if (!outgoing.has(e.from)) outgoing.set(e.from, []);
+        outgoing.get(e.from)!.push(e);
+    }
+
+    const violations: RuleViolation[] = [];
+    for (const rule of rules) {
+        const description = describeRule(rule);
+        const from = list(rule.from);
+        const except = list(rule.except);
+        const forbid = list(rule.forbid);
+        const forbidPackages = list(rule.forbidPackages);
+        for (const f of graph.files) {
+            if (f.directory) continue;
+            const relative = relativeName(f.name);
+            if (from.length > 0 && !matchesAnyGlob(relative, from)) continue;
+            if (matchesAnyGlob(relative, except)) continue;
+
+            const edges = outgoing.get(f.id) || [];
+            for (const e of edges) {
+                const forbidden = e.kind === 'external'
+                    ? matchesPackage(e.specifier, forbidPackages)
+                    : names.has(e.to) && matchesAnyGlob(relativeName(names.get(e.to)!), forbid);
+                if (!forbidden) continue;
+                const target = e.kind === 'external' ? `package '${packageName(e.specifier)}'` : names.get(e.to);
+                violations.push({ rule: description, message: `Forbidden import of ${target}: ${description}`, from: f.id, edge: e, line: e.line });
+            }
+            if (rule.maxFanOut !== undefined && edges.length > rule.maxFanOut) {
+                violations.push({
+                    rule: description,
+                    message: `${f.name} imports ${edges.length} files and packages: ${description}`,
+                    from: f.id,
+                    line: edges[rule.maxFanOut].line
+                });
+            }
+        }
+    }
+    return violations;
+}
+
+/**
+ * Import edges to draw as violations: those that break a rule, and merged edges of collapsed
+ * folders that contain such an import
+ */
+export function violatingEdges(graph: DependencyGraph, rules: ArchitectureRule[]): Set<GraphEdge> {
+    const edges = new Set(graph.edges.filter(e => e.violation));
+    for (const v of checkRules(graph, rules)) {
+        if (v.edge) edges.add(v.edge);
+    }
+    return edges;
+}
+
+/**
+ * Formats violations as a plain-text report, one line per violation
+ * @param graph - The dependency graph the rules were checked against
+ * @param violations - Result of checkRules
+ */
+export function formatRuleReport(graph: DependencyGraph, violations: RuleViolation[]): string {
+    if (violations.length === 0) return 'No architecture rule violations found.\n';
+    const names = new Map(graph.files.map(f => [f.id, f.name]));
+    let report = `Found ${violations.length} architecture rule violation${violations.length === 1 ? '' : 's'}\n`;
+    for (const v of violations) {
+        report += `  ${names.get(v.from)}:${v.line} ${v.message}\n`;
+    }
+    return report;
+}
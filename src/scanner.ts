@@ -0,0 +1,238 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as util from 'util';
+import { DEFAULT_CONFIG, ScanOptions } from './config';
+import { createGitignoreMatcher } from './gitignore';
+import { matchesAnyGlob } from './glob';
+
+/**
+ * File information interface
+ */
+export interface FileInfo {
+    path: string;
+    name: string;
+    content: string;
+    lineCount: number;
+}
+
+/**
+ * Why a file or folder was left out of a scan
+ */
+export type SkipReason = 'ignored' | 'gitignored' | 'excluded' | 'binary' | 'too-large' | 'symlink-loop' | 'unreadable';
+
+/**
+ * Number of skipped entries per reason; a skipped folder counts once
+ */
+export type SkipCounts = Partial<Record<SkipReason, number>>;
+
+/**
+ * Options for readFolderRecursive; unset scan options fall back to the defaults
+ */
+export interface ReadFolderOptions extends Partial<ScanOptions> {
+    /** File or folder inside the scanned folder to read instead of the whole folder */
+    startPath?: string;
+    /** Receives the number of skipped files and folders per reason */
+    skipped?: SkipCounts;
+}
+
+/**
+ * Files larger than this are not read; they are usually generated or data files
+ */
+export const MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Number of leading bytes checked for a NUL byte to recognise binary files
+ */
+const BINARY_SNIFF_LENGTH = 8000;
+
+/**
+ * File and folder names that are never scanned
+ */
+const IGNORED_NAMES = new Set([
+    'node_modules',
+    '.git',
+    '.vscode',
+    'out',
+    'dist',
+    'build',
+    '.next',
+    '.cache',
+    'coverage',
+    '.DS_Store',
+    'package-lock.json',
+    'yarn.lock',
+    '.env',
+    '.env.local'
+]);
+
+/**
+ * Checks if a path should be ignored because one of its segments is a build output, dependency
+ * folder or lock file
+ * @param relativePath - Path relative to the scanned folder, so the folder's own location does not matter
+ */
+export function shouldIgnorePath(relativePath: string): boolean {
+    return relativePath.split(/[\\/]/).some(segment => IGNORED_NAMES.has(segment));
+}
+
+/**
+ * Gets file extension
+ */
+function getFileExtension(fileName: string): string {
+    const ext = path.extname(fileName).toLowerCase();
+    return ext || 'no-ext';
+}
+
+function isBinary(content: Buffer): boolean {
+    return content.subarray(0, BINARY_SNIFF_LENGTH).includes(0);
+}
+
+/**
+ * Summarises skipped entries for the output channel or the console
+ * @returns E.g. "Skipped 5 entries: 3 gitignored, 2 binary", or undefined when nothing was skipped
+ */
+export function formatSkipCounts(skipped: SkipCounts): string | undefined {
+    const parts = Object.entries(skipped)
+        .filter(([, count]) => count && count > 0)
+        .map(([reason, count]) => `${count} ${reason}`);
+    if (parts.length === 0) return undefined;
+    const total = Object.values(skipped).reduce((sum: number, count) => sum + (count || 0), 0);
+    return `Skipped ${total} ${total === 1 ? 'entry' : 'entries'}: ${parts.join(', ')}`;
+}
+
+/**
+ * Recursively reads all files in a directory. Build outputs, `.gitignore`d paths, excluded globs,
+ * binary and very large files are skipped, and symlinked folders are read only once.
+ * @param folderPath - The scanned folder; file names and globs are relative to it
+ * @param options - Include/exclude globs, extensions, an optional start path and skip counts
+ */
+export async function readFolderRecursive(folderPath: string, options: ReadFolderOptions = {}): Promise<FileInfo[]> {
+    const startPath = options.startPath || folderPath;
+    const include = options.include || DEFAULT_CONFIG.include;
+    const exclude = options.exclude || DEFAULT_CONFIG.exclude;
+    const extensions = options.extensions || DEFAULT_CONFIG.extensions;
+    const skipped = options.skipped || {};
+    const files: FileInfo[] = [];
+    const readdir = util.promisify(fs.readdir);
+    const stat = util.promisify(fs.stat);
+    const realpath = util.promisify(fs.realpath);
+    const readFile = util.promisify(fs.readFile);
+    const isGitignored = createGitignoreMatcher(folderPath);
+    const visitedFolders = new Set<string>();
+
+    const skip = (reason: SkipReason) => {
+        skipped[reason] = (skipped[reason] || 0) + 1;
+    };
+
+    async function processEntry(entryPath: string, relativePath: string): Promise<void> {
+        const relativeToRoot = path.relative(folderPath, entryPath);
+        if (shouldIgnorePath(relativeToRoot)) {
+            skip('ignored');
+            return;
+        }
+        if (matchesAnyGlob(relativeToRoot, exclude)) {
+            skip('excluded');
+            return;
+        }
+
+        let stats: fs.Stats;
+        try {
+            stats = await stat(entryPath);
+        } catch (error) {
+            // Dangling symlink, or removed while scanning
+            skip('unreadable');
+            return;
+        }
+        if (isGitignored(entryPath, stats.isDirectory())) {
+            skip('gitignored');
+            return;
+        }
+
+        if (stats.isDirectory()) {
+            // A symlink back to a parent (or a second link to the same folder) would be read again
+            const realFolder = await realpath(entryPath);
+            if (visitedFolders.has(realFolder)) {
+                skip('symlink-loop');
+                return;
+            }
+            visitedFolders.add(realFolder);
+
+            const entries = await readdir(entryPath);
+            for (const entry of entries) {
+                await processEntry(path.join(entryPath, entry), path.join(relativePath, entry));
+            }
+        } else if (stats.isFile()) {
+            // Only process text-based files
+            const ext = getFileExtension(entryPath);
+            const included = include.length === 0 || matchesAnyGlob(relativeToRoot, include);
+            if (!included || !(extensions.includes(ext) || ext === 'no-ext')) {
+                return;
+            }
+            if (stats.size > MAX_FILE_SIZE) {
+                skip('too-large');
+                return;
+            }
+            try {
+                const buffer = await readFile(entryPath);
+                if (isBinary(buffer)) {
+                    skip('binary');
+                    return;
+                }
+                const content = buffer.toString('utf-8');
+                const lineCount = content.split('\n').length;
+                
+                files.push({
+                    path: entryPath,
+                    name: relativePath,
+                    content: content,
+                    lineCount: lineCount
+                });
+            } catch (error) {
+                // Skip files that can't be read
+                console.warn(`Skipping file ${entryPath}: ${error}`);
+                skip('unreadable');
+            }
+        }
+    }
+
+    // A rescan of a path inside the folder must still honour ignored parent folders
+    for (let parent = path.dirname(startPath); parent.startsWith(folderPath + path.sep); parent = path.dirname(parent)) {
+        if (isGitignored(parent, true)) {
+            skip('gitignored');
+            return files;
+        }
+    }
+    
+    await processEntry(startPath, path.join(path.basename(folderPath), path.relative(folderPath, startPath)));
+    return files;
+}
+
+/**
+ * Re-reads the given files or folders and merges them into the scanned file list. Files keep
+ * their position, files that no longer exist are dropped and new files are appended.
+ * @param folderPath - The scanned folder
+ * @param files - The current file list
+ * @param changed - Absolute paths of the changed files or folders
+ * @param scanOptions - The include/exclude globs and extensions of the initial scan
+ */
+export async function rescanPaths(folderPath: string, files: FileInfo[], changed: string[], scanOptions: Partial<ScanOptions>): Promise<FileInfo[]> {
+    const fresh = new Map<string, FileInfo>();
+    for (const changedPath of changed) {
+        try {
+            for (const f of await readFolderRecursive(folderPath, { ...scanOptions, startPath: changedPath })) fresh.set(f.path, f);
+        } catch (e) {
+            // Deleted (or renamed away): only the removal below applies
+        }
+    }
+
+    const isAffected = (filePath: string) => changed.some(p => filePath === p || filePath.startsWith(p + path.sep));
+    const result: FileInfo[] = [];
+    for (const f of files) {
+        if (!isAffected(f.path)) {
+            result.push(f);
+        } else if (fresh.has(f.path)) {
+            result.push(fresh.get(f.path)!);
+            fresh.delete(f.path);
+        }
+    }
+    return result.concat([...fresh.values()]);
+}
@@ -0,0 +1,238 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { CallGraphFile, createCallResolver, ParsedEntry } from './callGraph';
+import { findFunctionAtOffset, findFunctionByName, getFunctionName } from './controlFlow';
+import { calleePath, createSourceFile } from './parser';
+import { ImportResolver } from './resolver';
+
+/**
+ * Result of following the calls of one function into a sequence diagram
+ */
+export interface SequenceDiagram {
+    /** Name of the entry-point function, e.g. `handleRequest` or `UserService.create` */
+    name: string;
+    mermaid: string;
+    /** Calls drawn as messages */
+    callCount: number;
+}
+
+/**
+ * The function whose body is being walked and the participant it belongs to
+ */
+interface Frame {
+    entry: ParsedEntry;
+    /** Symbol name of the function, used to resolve `this.method()` calls */
+    caller: string | null;
+    participant: string;
+    /** 0 for the entry point, 1 for the functions it calls, and so on */
+    depth: number;
+}
+
+/**
+ * One section of an `alt` block
+ */
+interface Branch {
+    /** Condition of the section; empty for a plain `else` */
+    label: string;
+    lines: string[];
+}
+
+const MAX_LABEL_LENGTH = 50;
+const MAX_CALLS = 300;
+
+/**
+ * Array methods whose callback runs once per element; calls in the callback are drawn in a `loop`
+ */
+const ITERATION_METHODS = new Set(['forEach', 'map', 'flatMap', 'filter', 'reduce', 'reduceRight', 'some', 'every', 'find', 'findIndex']);
+
+/**
+ * Collapses code to one short line that Mermaid accepts in a message or block label: `;` ends a
+ * statement and `#` starts an entity in sequence diagrams
+ */
+function sequenceText(text: string): string {
+    const line = text.replace(/\s+/g, ' ').trim().replace(/;/g, ',').replace(/#/g, '');
+    return line.length > MAX_LABEL_LENGTH ? line.slice(0, MAX_LABEL_LENGTH - 1) + '…' : line;
+}
+
+function indent(lines: string[]): string[] {
+    return lines.map(l => '    ' + l);
+}
+
+/**
+ * Wraps lines in a `loop`, `opt` or `alt` block; nothing when no calls happen inside
+ */
+function block(keyword: string, label: string, lines: string[]): string[] {
+    return lines.length === 0 ? [] : [`${keyword} ${label}`, ...indent(lines), 'end'];
+}
+
+/**
+ * Draws the branches of a conditional: `opt` for a single branch, otherwise `alt` with an `else`
+ * section per further branch
+ */
+function alternatives(branches: Branch[]): string[] {
+    if (branches.every(b => b.lines.length === 0)) return [];
+    // A final `else` without calls adds nothing to read
+    const last = branches[branches.length - 1];
+    if (branches.length > 1 && !last.label && last.lines.length === 0) branches = branches.slice(0, -1);
+    if (branches.length === 1) return block('opt', branches[0].label, branches[0].lines);
+    const lines = [`alt ${branches[0].label}`, ...indent(branches[0].lines)];
+    for (const b of branches.slice(1)) lines.push(b.label ? `else ${b.label}` : 'else', ...indent(b.lines));
+    lines.push('end');
+    return lines;
+}
+
+/**
+ * Follows the calls made by the function at the given offset into a Mermaid sequence diagram.
+ * Participants are the classes that own called methods, and the files that declare called
+ * functions. Calls are drawn in evaluation order; `if`, `switch` and `?:` become `alt`/`opt`
+ * blocks, loops and array iteration callbacks become `loop` blocks. Calls that cannot be resolved
+ * to a workspace function are left out, like in the call graph.
+ * @param files - Files to resolve calls in; only JavaScript and TypeScript files are parsed
+ * @param resolveImport - Resolves an import specifier to a file path
+ * @param filePath - File that contains the entry point; must be one of `files`
+ * @param offset - Character offset inside the entry-point function
+ * @param maxDepth - Levels of calls drawn; the entry point's own calls are level 1
+ * @returns The diagram, or null when the offset is not inside a function
+ */
+export function buildSequenceDiagram(files: CallGraphFile[], resolveImport: ImportResolver, filePath: string, offset: number, maxDepth: number): SequenceDiagram | null {
+    const { entries, resolveCall } = createCallResolver(files, resolveImport);
+    const start = entries.get(path.resolve(filePath));
+    if (!start) return null;
+
+    const sourceFiles = new Map<ParsedEntry, ts.SourceFile>();
+    const sourceOf = (entry: ParsedEntry) => {
+        if (!sourceFiles.has(entry)) sourceFiles.set(entry, createSourceFile(entry.file.path, entry.file.content));
+        return sourceFiles.get(entry)!;
+    };
+    const startSource = sourceOf(start);
+    const fn = findFunctionAtOffset(startSource, offset);
+    if (!fn || !fn.body) return null;
+    const name = getFunctionName(fn, startSource);
+
+    // A callback inside a method still resolves `this` against the method's class
+    let caller: string | null = null;
+    for (let node: ts.Node | undefined = fn; node && !caller; node = node.parent) {
+        if (ts.isFunctionLike(node) && getFunctionName(node as ts.FunctionLikeDeclaration, startSource).includes('.')) {
+            caller = getFunctionName(node as ts.FunctionLikeDeclaration, startSource);
+        }
+    }
+
+    const participants = new Map<string, string>();
+    const participantLines: string[] = [];
+    // `new X()` of a class without a constructor resolves to the class itself, which belongs with its methods
+    function participantOf(entry: ParsedEntry, symbolName: string | null, isClass = false): string {
+        const owner = symbolName && (isClass || symbolName.includes('.')) ? symbolName.split('.')[0] : null;
+        const key = owner ? `${entry.file.path}#${owner}` : entry.file.path;
+        if (!participants.has(key)) {
+            const id = `P${participants.size}`;
+            participants.set(key, id);
+            participantLines.push(`participant ${id} as ${sequenceText(owner || entry.file.name)}`);
+        }
+        return participants.get(key)!;
+    }
+
+    let callCount = 0;
+    let truncated = false;
+    // Functions being expanded; a recursive call is drawn but not followed again
+    const stack: string[] = [];
+
+    function drawCall(node: ts.CallExpression | ts.NewExpression, frame: Frame): string[] {
+        const callee = calleePath(node.expression);
+        if (!callee || (callee.length === 1 && callee[0] === 'require')) return [];
+        const line = sourceOf(frame.entry).getLineAndCharacterOfPosition(node.getStart(sourceOf(frame.entry))).line + 1;
+        const target = resolveCall(frame.entry, { caller: frame.caller, callee, isNew: ts.isNewExpression(node), line });
+        if (!target) return [];
+        if (callCount >= MAX_CALLS) {
+            truncated = true;
+            return [];
+        }
+        callCount++;
+
+        const { entry, symbol } = target;
+        const to = participantOf(entry, symbol.name, symbol.kind === 'class');
+        const [owner, member] = symbol.name.split('.');
+        // Callbacks passed as arguments are drawn where they run, not in the label
+        const args = (node.arguments || []).map(a => ts.isArrowFunction(a) || ts.isFunctionExpression(a) ? '…' : a.getText(sourceOf(frame.entry))).join(', ');
+        const label = symbol.kind === 'class' || member === 'constructor' ? `new ${owner}(${args})` : `${member || owner}(${args})`;
+        const lines = [`${frame.participant}->>${to}: ${sequenceText(label)}`];
+
+        const key = `${entry.file.path}#${symbol.name}`;
+        if (symbol.kind === 'class' || frame.depth + 1 >= maxDepth || stack.includes(key)) return lines;
+        const decl = findFunctionByName(sourceOf(entry), symbol.name, symbol.startLine);
+        if (!decl || !decl.body) return lines;
+        stack.push(key);
+        const body = walk(decl.body, { entry, caller: symbol.name, participant: to, depth: frame.depth + 1 });
+        stack.pop();
+        return body.length === 0 ? lines : [...lines, `activate ${to}`, ...indent(body), `deactivate ${to}`];
+    }
+
+    function walk(node: ts.Node | undefined, frame: Frame): string[] {
+        if (!node) return [];
+        const source = sourceOf(frame.entry);
+        const lines: string[] = [];
+        const visit = (child: ts.Node) => {
+            lines.push(...walk(child, frame));
+        };
+        const header = (body: ts.Node) => sequenceText(source.text.slice(node.getStart(source), body.getStart(source)).replace(/\{\s*$/, ''));
+
+        // Nested declarations run when they are called, not where they are written
+        if (ts.isFunctionDeclaration(node) || ts.isClassLike(node) || ts.isMethodDeclaration(node)) return lines;
+
+        if (ts.isIfStatement(node)) {
+            visit(node.expression);
+            const branches: Branch[] = [];
+            let stmt: ts.Statement | undefined = node;
+            while (stmt && ts.isIfStatement(stmt)) {
+                // The first condition is evaluated before the block; later ones only when reached
+                const condition = branches.length === 0 ? [] : walk(stmt.expression, frame);
+                branches.push({ label: sequenceText(stmt.expression.getText(source)), lines: [...condition, ...walk(stmt.thenStatement, frame)] });
+                stmt = stmt.elseStatement;
+            }
+            if (stmt) branches.push({ label: '', lines: walk(stmt, frame) });
+            lines.push(...alternatives(branches));
+        } else if (ts.isConditionalExpression(node)) {
+            visit(node.condition);
+            lines.push(...alternatives([
+                { label: sequenceText(node.condition.getText(source)), lines: walk(node.whenTrue, frame) },
+                { label: '', lines: walk(node.whenFalse, frame) }
+            ]));
+        } else if (ts.isSwitchStatement(node)) {
+            visit(node.expression);
+            const branches = node.caseBlock.clauses
+                .map(c => ({ label: sequenceText(ts.isCaseClause(c) ? `case ${c.expression.getText(source)}` : 'default'), lines: c.statements.flatMap(s => walk(s, frame)) }))
+                .filter(b => b.lines.length > 0);
+            lines.push(...alternatives(branches));
+        } else if (ts.isForStatement(node)) {
+            lines.push(...walk(node.initializer, frame));
+            lines.push(...block('loop', header(node.statement), [...walk(node.condition, frame), ...walk(node.statement, frame), ...walk(node.incrementor, frame)]));
+        } else if (ts.isForOfStatement(node) || ts.isForInStatement(node)) {
+            visit(node.expression);
+            lines.push(...block('loop', header(node.statement), walk(node.statement, frame)));
+        } else if (ts.isWhileStatement(node)) {
+            lines.push(...block('loop', header(node.statement), [...walk(node.expression, frame), ...walk(node.statement, frame)]));
+        } else if (ts.isDoStatement(node)) {
+            lines.push(...block('loop', sequenceText(`do … while (${node.expression.getText(source)})`), [...walk(node.statement, frame), ...walk(node.expression, frame)]));
+        } else if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) && ITERATION_METHODS.has(node.expression.name.text) &&
+            node.arguments.some(a => ts.isArrowFunction(a) || ts.isFunctionExpression(a))) {
+            visit(node.expression.expression);
+            const isCallback = (a: ts.Expression) => ts.isArrowFunction(a) || ts.isFunctionExpression(a);
+            node.arguments.filter(a => !isCallback(a)).forEach(visit);
+            lines.push(...block('loop', sequenceText(node.expression.getText(source)), node.arguments.filter(isCallback).flatMap(c => walk(c, frame))));
+        } else if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+            // The receiver and the arguments are evaluated before the call itself
+            ts.forEachChild(node, visit);
+            lines.push(...drawCall(node, frame));
+        } else {
+            ts.forEachChild(node, visit);
+        }
+        return lines;
+    }
+
+    const entryParticipant = participantOf(start, caller || name);
+    stack.push(`${start.file.path}#${name}`);
+    const body = walk(fn.body, { entry: start, caller, participant: entryParticipant, depth: 0 });
+    if (truncated) body.push(`Note over ${entryParticipant}: Stopped after ${MAX_CALLS} calls`);
+
+    const mermaidCode = ['sequenceDiagram', ...indent(participantLines), ...indent(body)].join('\n') + '\n';
+    return { name, mermaid: mermaidCode, callCount };
+}
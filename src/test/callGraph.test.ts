@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { buildCallGraph, CallGraphFile, convertCallGraphToFlowchart } from '../callGraph';
+
+/**
+ * Files under /project by name, resolved by a resolver that only knows relative `.ts` imports
+ */
+function project(sources: Record<string, string>): { files: CallGraphFile[]; resolve: (from: string, specifier: string) => string | null } {
+    const files = Object.entries(sources).map(([name, content]) => ({ path: path.resolve('/project', name), name, content }));
+    const known = new Set(files.map(f => f.path));
+    const resolve = (from: string, specifier: string) => {
+        const target = path.resolve(path.dirname(from), specifier + '.ts');
+        return known.has(target) ? target : null;
+    };
+    return { files, resolve };
+}
+
+function edgesOf(sources: Record<string, string>): string[] {
+    const { files, resolve } = project(sources);
+    return buildCallGraph(files, resolve).map(e => `${e.fromFile}:${e.from} -> ${e.toFile}:${e.to} (${e.toKind})`);
+}
+
+describe('buildCallGraph', () => {
+    it('follows named, default and namespace imports into other files', () => {
+        assert.deepStrictEqual(edgesOf({
+            'main.ts': "import helper, { run as go } from './lib';\nimport * as util from './util';\nfunction main() { go(); helper(); util.format(); }",
+            'lib.ts': 'export function run() {}\nexport default function helper() {}',
+            'util.ts': 'export function format() {}'
+        }), [
+            'main.ts:main -> lib.ts:run (function)',
+            'main.ts:main -> lib.ts:helper (function)',
+            'main.ts:main -> util.ts:format (function)'
+        ]);
+    });
+
+    it('follows re-exports through an index file', () => {
+        assert.deepStrictEqual(edgesOf({
+            'main.ts': "import { a, b } from './index';\na();\nb();",
+            'index.ts': "export { a } from './a';\nexport * from './b';",
+            'a.ts': 'export function a() {}',
+            'b.ts': 'export function b() {}'
+        }), ['main.ts:null -> a.ts:a (function)', 'main.ts:null -> b.ts:b (function)']);
+    });
+
+    it('resolves this-calls, static methods and constructors', () => {
+        assert.deepStrictEqual(edgesOf({
+            'store.ts': [
+                'export class Store {',
+                '    constructor() { this.load(); }',
+                '    load() {}',
+                '    static create() { return new Store(); }',
+                '}',
+                'export class Plain {}'
+            ].join('\n'),
+            'main.ts': "import { Store, Plain } from './store';\nfunction main() { Store.create(); new Plain(); }"
+        }), [
+            'store.ts:Store.constructor -> store.ts:Store.load (method)',
+            'store.ts:Store.create -> store.ts:Store.constructor (method)',
+            'main.ts:main -> store.ts:Store.create (method)',
+            'main.ts:main -> store.ts:Plain (class)'
+        ]);
+    });
+
+    it('skips unresolved calls, recursion and repeated calls', () => {
+        assert.deepStrictEqual(edgesOf({
+            'main.ts': "import { x } from 'external';\nfunction loop() { loop(); x(); console.log(); helper(); helper(); }\nfunction helper() {}"
+        }), ['main.ts:loop -> main.ts:helper (function)']);
+    });
+});
+
+describe('convertCallGraphToFlowchart', () => {
+    it('draws one subgraph per file and one node per function', () => {
+        const { files, resolve } = project({
+            'main.ts': "import { Store } from './store';\nnew Store();",
+            'store.ts': 'export class Store {}'
+        });
+        assert.strictEqual(convertCallGraphToFlowchart(buildCallGraph(files, resolve)), [
+            'flowchart TD',
+            '    subgraph main_ts[main.ts]',
+            '        main_ts_module["(top level)"]',
+            '    end',
+            '    subgraph store_ts[store.ts]',
+            '        store_ts_Store["class: Store"]',
+            '    end',
+            '    main_ts_module --> store_ts_Store',
+            ''
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,127 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { buildClassModel, emitClassDiagram, extractClasses } from '../classDiagram';
+
+const SOURCE = `import { Db } from './db';
+
+export interface Repository<T> {
+    find(id: string): Promise<T | undefined>;
+    readonly size: number;
+}
+
+export abstract class Shape {
+    static count = 0;
+    protected label = 'shape';
+    abstract area(): number;
+}
+
+export class Circle extends Shape implements Repository<Circle> {
+    #radius: number;
+    readonly size = 1;
+    children: Circle[] = [];
+    constructor(private db: Db, public scale = 2) {
+        super();
+    }
+    get diameter(): number { return 2 * this.#radius; }
+    area(): number { return 3.14; }
+    find = async (id: string, ...rest: string[]): Promise<Circle | undefined> => undefined;
+}
+
+interface Repository<T> extends Iterable<T> {
+    clear(): void;
+}
+`;
+
+describe('extractClasses', () => {
+    const classes = extractClasses(SOURCE, '/project/src/shapes.ts', 'src/shapes.ts');
+    const byName = (name: string) => classes.find(c => c.name === name)!;
+
+    it('finds top-level classes and interfaces with their heritage and location', () => {
+        assert.deepStrictEqual(classes.map(c => [c.name, c.kind, c.line, c.file]), [
+            ['Repository', 'interface', 3, 'src/shapes.ts'],
+            ['Shape', 'class', 8, 'src/shapes.ts'],
+            ['Circle', 'class', 14, 'src/shapes.ts']
+        ]);
+        assert.deepStrictEqual([byName('Circle').extends, byName('Circle').implements], [['Shape'], ['Repository']]);
+        assert.strictEqual(byName('Shape').isAbstract, true);
+        assert.strictEqual(byName('Repository').typeParameters, 'T');
+    });
+
+    it('merges repeated interface declarations', () => {
+        const repository = byName('Repository');
+        assert.deepStrictEqual(repository.members.map(m => m.name), ['find', 'size', 'clear']);
+        assert.deepStrictEqual(repository.extends, ['Iterable']);
+    });
+
+    it('reads members with visibility, types, parameters and modifiers', () => {
+        assert.deepStrictEqual(byName('Shape').members.map(m => [m.name, m.kind, m.visibility, m.type, m.isStatic, m.isAbstract]), [
+            ['count', 'property', 'public', 'number', true, false],
+            ['label', 'property', 'protected', 'string', false, false],
+            ['area', 'method', 'public', 'number', false, true]
+        ]);
+        const circle = byName('Circle').members;
+        assert.deepStrictEqual(circle.map(m => `${m.visibility} ${m.kind} ${m.name}`), [
+            'private property radius',
+            'public property size',
+            'public property children',
+            'private property db',
+            'public property scale',
+            'public method constructor',
+            'public property diameter',
+            'public method area',
+            'public method find'
+        ]);
+        assert.deepStrictEqual(circle.find(m => m.name === 'constructor')!.parameters, ['db: Db', 'scale']);
+        assert.deepStrictEqual(circle.find(m => m.name === 'find')!.parameters, ['id: string', '...rest: string[]']);
+    });
+});
+
+describe('buildClassModel', () => {
+    it('only reads JavaScript and TypeScript files', () => {
+        const classes = buildClassModel([
+            { path: '/p/a.ts', name: 'p/a.ts', content: 'class A {}', lineCount: 1 },
+            { path: '/p/b.py', name: 'p/b.py', content: 'class B:\n    pass\n', lineCount: 2 },
+            { path: '/p/c.js', name: 'p/c.js', content: 'export default class {}', lineCount: 1 }
+        ]);
+        assert.deepStrictEqual(classes.map(c => c.name), ['A', 'c']);
+    });
+});
+
+describe('emitClassDiagram', () => {
+    const diagram = emitClassDiagram(extractClasses(SOURCE, '/project/src/shapes.ts', 'src/shapes.ts'));
+
+    it('draws members with visibility marks and Mermaid-safe types', () => {
+        assert.match(diagram.mermaid, /^classDiagram\n/);
+        assert.match(diagram.mermaid, / {4}class Repository~T~ \{\n {8}<<interface>>\n {8}\+find\(id: string\) Promise~T \| undefined~\n/);
+        assert.match(diagram.mermaid, / {4}class Shape \{\n {8}<<abstract>>\n {8}\+count : number\$\n {8}#label : string\n {8}\+area\(\)\* number\n/);
+        assert.match(diagram.mermaid, / {8}-radius : number\n/);
+    });
+
+    it('links heritage and properties of known types only', () => {
+        const relations = diagram.mermaid.split('\n').filter(l => /<\||\*--|-->/.test(l)).map(l => l.trim());
+        assert.deepStrictEqual(relations, ['Shape <|-- Circle', 'Repository <|.. Circle']);
+    });
+
+    it('draws compositions, associations and their multiplicity', () => {
+        const classes = extractClasses([
+            'class Engine {}',
+            'interface Logger {}',
+            'class Wheel {}',
+            'class Car { engine: Engine; log?: Logger; wheels: Map<string, Wheel>; self: Car; }'
+        ].join('\n'), '/p/car.ts', 'p/car.ts');
+        const lines = emitClassDiagram(classes).mermaid.split('\n').map(l => l.trim());
+        assert.ok(lines.includes('Car *-- Engine : engine'));
+        assert.ok(lines.includes('Car --> Logger : log'));
+        assert.ok(lines.includes('Car "1" *-- "*" Wheel : wheels'));
+        assert.ok(!lines.some(l => l.startsWith('Car') && l.endsWith(': self')));
+    });
+
+    it('gives classes of the same name their own node for navigation', () => {
+        const { mermaid, nodes } = emitClassDiagram([
+            ...extractClasses('export class Item {}', '/p/a.ts', 'p/a.ts'),
+            ...extractClasses('export class Item {}', '/p/b.ts', 'p/b.ts')
+        ]);
+        assert.match(mermaid, / {4}class Item\n {4}class Item_2\["Item"\]\n/);
+        assert.deepStrictEqual([nodes.Item.file, nodes.Item_2.file], ['p/a.ts', 'p/b.ts']);
+    });
+});
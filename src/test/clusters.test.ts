@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { autoCollapseDepth, collapseGraph, toggleFolder } from '../clusters';
+import { DependencyGraph } from '../graph';
+
+/**
+ * A graph of empty files named by `/`-separated paths; `a>b` is an internal import of b by a
+ */
+function graphOf(names: string[], imports: string[] = []): DependencyGraph {
+    return {
+        root: '/project',
+        files: names.map(name => ({ id: name, path: `/${name}`, name, lineCount: 10, symbols: [], imports: [] })),
+        externals: [],
+        boundaries: [],
+        edges: imports.map(s => {
+            const [from, to] = s.split('>');
+            return { from, to, kind: 'internal' as const, specifier: to, line: 1 };
+        })
+    };
+}
+
+describe('autoCollapseDepth', () => {
+    it('collapses nothing in a small folder', () => {
+        assert.strictEqual(autoCollapseDepth(graphOf(['project/a.ts', 'project/src/b.ts'])), Infinity);
+    });
+
+    it('picks the deepest level that still fits', () => {
+        const names: string[] = [];
+        for (let i = 0; i < 10; i++) {
+            for (let j = 0; j < 10; j++) names.push(`project/m${i}/s${j}/file.ts`);
+        }
+        assert.strictEqual(autoCollapseDepth(graphOf(names)), 1);
+    });
+});
+
+describe('collapseGraph', () => {
+    const graph = graphOf(
+        ['project/main.ts', 'project/lib/a.ts', 'project/lib/b.ts', 'project/lib/deep/c.ts'],
+        ['project/main.ts>project/lib/a.ts', 'project/main.ts>project/lib/b.ts', 'project/lib/a.ts>project/lib/b.ts', 'project/lib/deep/c.ts>project/main.ts']
+    );
+
+    it('nests open folders as clusters', () => {
+        const collapsed = collapseGraph(graph, { depth: Infinity, expanded: [], collapsed: [] });
+        assert.deepStrictEqual(collapsed.folders!.map(f => f.name), ['project', 'project/lib', 'project/lib/deep']);
+        assert.strictEqual(collapsed.files.length, 4);
+        assert.strictEqual(collapsed.edges.length, 4);
+    });
+
+    it('merges a collapsed folder into one node and counts the merged imports', () => {
+        const collapsed = collapseGraph(graph, { depth: 1, expanded: [], collapsed: [] });
+        const folder = collapsed.files.find(f => f.name === 'project/lib/')!;
+        assert.deepStrictEqual(folder.directory, { fileCount: 3 });
+        assert.strictEqual(folder.lineCount, 30);
+        assert.strictEqual(folder.path, '/project/lib');
+        assert.deepStrictEqual(collapsed.edges.map(e => [e.from, e.to, e.count]), [
+            ['project/main.ts', folder.id, 2],
+            [folder.id, 'project/main.ts', undefined]
+        ]);
+    });
+
+    it('keeps the top folder open and honours folders the user toggled', () => {
+        const view = toggleFolder({ depth: 1, expanded: [], collapsed: [] }, 'project/lib', true);
+        assert.deepStrictEqual(view.expanded, ['project/lib']);
+        const collapsed = collapseGraph(graph, view);
+        assert.ok(collapsed.files.some(f => f.name === 'project/lib/deep/'));
+        assert.ok(collapsed.files.some(f => f.name === 'project/lib/a.ts'));
+        assert.deepStrictEqual(toggleFolder(view, 'project/lib', false).expanded, []);
+        assert.deepStrictEqual(collapseGraph(graph, { depth: 0, expanded: [], collapsed: [] }).folders!.map(f => f.name), ['project']);
+    });
+});
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { CONFIG_FILE_NAME, DEFAULT_CONFIG, loadProjectConfig, resolveConfig, validateConfig } from '../config';
+import { makeTree } from './helpers';
+
+describe('validateConfig', () => {
+    it('keeps valid settings and ignores $schema and unset keys', () => {
+        const raw = { $schema: './schema.json', exclude: ['dist/**'], maxSymbolsPerKind: 0, sequenceDepth: 1, showBackbone: false, direction: 'LR', theme: 'dark', metric: 'fanIn', include: undefined };
+        assert.deepStrictEqual(validateConfig(raw, 'test'), { exclude: ['dist/**'], maxSymbolsPerKind: 0, sequenceDepth: 1, showBackbone: false, direction: 'LR', theme: 'dark', metric: 'fanIn' });
+    });
+
+    it('throws on the first unknown or invalid key without a callback', () => {
+        assert.throws(() => validateConfig({ colour: 'red' }, 'test'), /^Error: test: unknown setting "colour"$/);
+        assert.throws(() => validateConfig({ maxSymbolsPerKind: 1.5 }, 'test'), /"maxSymbolsPerKind" must be a non-negative integer/);
+        assert.throws(() => validateConfig({ sequenceDepth: 0 }, 'test'), /"sequenceDepth" must be a positive integer/);
+        assert.throws(() => validateConfig({ exclude: 'dist' }, 'test'), /"exclude" must be an array of strings/);
+        assert.throws(() => validateConfig({ showStartEnd: 'yes' }, 'test'), /"showStartEnd" must be true or false/);
+        assert.throws(() => validateConfig({ direction: 'UP' }, 'test'), /"direction" must be one of TD, LR, BT, RL/);
+        assert.throws(() => validateConfig({ metric: 'size' }, 'test'), /"metric" must be one of none, fanIn/);
+        assert.throws(() => validateConfig([], 'test'), /expected a JSON object/);
+    });
+
+    it('skips invalid keys one at a time with a callback', () => {
+        const errors: string[] = [];
+        const valid = validateConfig({ theme: 'pink', showBackbone: false, colour: 'red' }, 'Settings', e => errors.push(e.message));
+        assert.deepStrictEqual(valid, { showBackbone: false });
+        assert.deepStrictEqual(errors, ['Settings: "theme" must be one of default, dark, forest, neutral', 'Settings: unknown setting "colour"']);
+    });
+
+    it('checks architecture rules', () => {
+        const rules = [{ name: 'ui', from: 'src/ui/**', forbid: ['src/db/**'] }, { forbidPackages: '@aws-sdk/*', except: 'src/adapters/**' }, { maxFanOut: 10 }];
+        assert.deepStrictEqual(validateConfig({ rules }, 'test'), { rules });
+        assert.throws(() => validateConfig({ rules: {} }, 'test'), /"rules" must be an array/);
+        assert.throws(() => validateConfig({ rules: [{ from: 'a' }] }, 'test'), /"rules\[0\]" needs "forbid", "forbidPackages" or "maxFanOut"/);
+        assert.throws(() => validateConfig({ rules: [{ forbid: 'a', to: 'b' }] }, 'test'), /"rules\[0\]" has unknown key "to"/);
+        assert.throws(() => validateConfig({ rules: [{ maxFanOut: -1 }] }, 'test'), /"maxFanOut" must be a non-negative integer/);
+        assert.throws(() => validateConfig({ rules: [{ forbid: [1] }] }, 'test'), /"forbid" must be a string or an array of strings/);
+    });
+});
+
+describe('loadProjectConfig', () => {
+    it('reads the project file, or nothing when there is none', () => {
+        assert.deepStrictEqual(loadProjectConfig(makeTree({ [CONFIG_FILE_NAME]: '{ "theme": "forest" }' })), { theme: 'forest' });
+        assert.deepStrictEqual(loadProjectConfig(makeTree({})), {});
+    });
+
+    it('names the file in errors', () => {
+        assert.throws(() => loadProjectConfig(makeTree({ [CONFIG_FILE_NAME]: '{ theme: ' })), new RegExp(`^Error: ${CONFIG_FILE_NAME.replace('.', '\\.')}: `));
+        const errors: Error[] = [];
+        const root = makeTree({ [CONFIG_FILE_NAME]: '{ "theme": "pink", "direction": "LR" }' });
+        assert.deepStrictEqual(loadProjectConfig(root, e => errors.push(e)), { direction: 'LR' });
+        assert.match(errors[0].message, /^\.flowchartrc\.json: "theme"/);
+    });
+});
+
+describe('resolveConfig', () => {
+    it('applies later layers over earlier ones and the defaults', () => {
+        const config = resolveConfig({ theme: 'dark', direction: 'LR' }, { theme: 'forest' });
+        assert.deepStrictEqual([config.theme, config.direction, config.maxSymbolsPerKind], ['forest', 'LR', DEFAULT_CONFIG.maxSymbolsPerKind]);
+        assert.notStrictEqual(resolveConfig(), DEFAULT_CONFIG);
+        assert.deepStrictEqual(resolveConfig(), DEFAULT_CONFIG);
+    });
+});
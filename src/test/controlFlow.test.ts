@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { buildFunctionFlowchart } from '../controlFlow';
+
+/**
+ * The flowchart of a one-function snippet, as `from --> to` lines with node ids replaced by labels
+ */
+function edgesOf(code: string): string[] {
+    const flowchart = buildFunctionFlowchart(code, 'snippet.ts', code.indexOf('{') + 1);
+    assert.ok(flowchart);
+    const labels = new Map<string, string>();
+    for (const m of flowchart.mermaid.matchAll(/^ {4}(\w+)[\[{(]+"(.*?)"[\]})]+$/gm)) labels.set(m[1], m[2]);
+    const name = (id: string) => labels.get(id) || id;
+    return [...flowchart.mermaid.matchAll(/^ {4}(\w+) (-->|-.->)(?:\|"(.*?)"\|)? (\w+)$/gm)]
+        .map(([, from, arrow, label, to]) => `${name(from)} ${arrow}${label ? `|${label}|` : ''} ${name(to)}`);
+}
+
+describe('buildFunctionFlowchart', () => {
+    it('returns null outside a function', () => {
+        assert.strictEqual(buildFunctionFlowchart('const x = 1;', 'snippet.ts', 0), null);
+    });
+
+    it('draws both branches of an if', () => {
+        const edges = edgesOf('function f(x) { if (x) { a(); } else { b(); } c(); }');
+        assert.ok(edges.includes('x -->|yes| a()'));
+        assert.ok(edges.includes('x -->|no| b()'));
+        assert.ok(edges.includes('a() --> c()'));
+        assert.ok(edges.includes('b() --> c()'));
+    });
+
+    it('routes a return inside try through the finally block', () => {
+        const edges = edgesOf('function f() { try { return 1; } finally { cleanup(); } }');
+        assert.ok(edges.includes('return 1 --> finally'));
+        assert.ok(edges.includes('cleanup() -->|then return| End'));
+        assert.ok(!edges.includes('return 1 --> End'));
+    });
+
+    it('routes a throw inside try through the finally block', () => {
+        const edges = edgesOf('function f(x) { try { if (x) throw new Error(); work(); } finally { cleanup(); } }');
+        assert.ok(edges.includes('throw new Error() -.-> finally'));
+        assert.ok(edges.includes('work() --> finally'));
+    });
+
+    it('routes a break inside try through the finally block before leaving the loop', () => {
+        const edges = edgesOf('function f(xs) { for (const x of xs) { try { if (x) break; work(x); } finally { done(); } } }');
+        assert.ok(edges.includes('x -->|yes| finally'));
+        assert.ok(edges.includes('done() -->|then break| End'));
+    });
+
+    it('sends a throw to the catch block before the finally block', () => {
+        const edges = edgesOf('function f() { try { throw new Error(); } catch (e) { log(e); } finally { cleanup(); } }');
+        assert.ok(edges.some(e => e.startsWith('throw new Error() -.->') && e.includes('catch')));
+        assert.ok(!edges.includes('throw new Error() -.-> finally'));
+    });
+});
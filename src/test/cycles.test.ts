@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { findCycles, formatCycleReport } from '../cycles';
+import { DependencyGraph, GraphEdge } from '../graph';
+
+/**
+ * A graph of empty files named after their ids; `a>b` is an internal import of b by a
+ */
+function graphOf(ids: string[], imports: string[], externals: string[] = []): DependencyGraph {
+    const edge = (s: string, kind: GraphEdge['kind']): GraphEdge => {
+        const [from, to] = s.split('>');
+        return { from, to, kind, specifier: `./${to}`, line: 1 };
+    };
+    return {
+        root: '/project',
+        files: ids.map(id => ({ id, path: `/project/${id}.ts`, name: `${id}.ts`, lineCount: 1, symbols: [], imports: [] })),
+        externals: [],
+        boundaries: [],
+        edges: [...imports.map(s => edge(s, 'internal')), ...externals.map(s => edge(s, 'external'))]
+    };
+}
+
+describe('findCycles', () => {
+    it('finds no cycles in an acyclic graph', () => {
+        assert.deepStrictEqual(findCycles(graphOf(['a', 'b', 'c'], ['a>b', 'b>c', 'a>c'])), []);
+    });
+
+    it('groups the files of a cycle in scan order and names the closing import', () => {
+        const cycles = findCycles(graphOf(['a', 'b', 'c', 'd'], ['a>b', 'b>c', 'c>a', 'c>d']));
+        assert.strictEqual(cycles.length, 1);
+        assert.deepStrictEqual(cycles[0].files, ['a', 'b', 'c']);
+        assert.strictEqual(cycles[0].edges.length, 3);
+        assert.deepStrictEqual(cycles[0].closing.map(c => c.path), [['a', 'b', 'c', 'a']]);
+    });
+
+    it('reports separate components separately', () => {
+        const cycles = findCycles(graphOf(['a', 'b', 'c', 'd'], ['a>b', 'b>a', 'c>d', 'd>c', 'b>c']));
+        assert.deepStrictEqual(cycles.map(c => c.files), [['a', 'b'], ['c', 'd']]);
+    });
+
+    it('treats a file that imports itself as a cycle', () => {
+        const cycles = findCycles(graphOf(['a', 'b'], ['a>a', 'a>b']));
+        assert.deepStrictEqual(cycles.map(c => c.files), [['a']]);
+    });
+
+    it('ignores imports of external packages', () => {
+        assert.deepStrictEqual(findCycles(graphOf(['a'], [], ['a>a'])), []);
+    });
+
+    it('handles long chains without overflowing the stack', () => {
+        const ids = Array.from({ length: 20000 }, (_, i) => `f${i}`);
+        const imports = ids.map((id, i) => `${id}>${ids[(i + 1) % ids.length]}`);
+        assert.strictEqual(findCycles(graphOf(ids, imports))[0].files.length, ids.length);
+    });
+});
+
+describe('formatCycleReport', () => {
+    it('lists the closing imports with their line', () => {
+        const graph = graphOf(['a', 'b'], ['a>b', 'b>a']);
+        const report = formatCycleReport(graph, findCycles(graph));
+        assert.match(report, /^Found 1 dependency cycle\n/);
+        assert.match(report, /b\.ts:1 imports '\.\/a': a\.ts → b\.ts → a\.ts/);
+    });
+});
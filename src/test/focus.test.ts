@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { DEFAULT_CONFIG } from '../config';
+import { emitMermaid } from '../emitters/mermaid';
+import { focusGraph, focusSides } from '../focus';
+import { DependencyGraph, GraphEdge } from '../graph';
+
+/**
+ * A graph of files named `<id>.ts`; `a>b` imports file b, `a>pkg:x` the package x
+ */
+function graphOf(ids: string[], imports: string[]): DependencyGraph {
+    const edges: GraphEdge[] = imports.map(s => {
+        const [from, to] = s.split('>');
+        return to.startsWith('pkg:')
+            ? { from, to: `ext_${to.slice(4)}`, kind: 'external', specifier: to.slice(4), line: 1 }
+            : { from, to, kind: 'internal', specifier: `./${to}`, line: 1 };
+    });
+    return {
+        root: '/project',
+        files: ids.map(id => ({ id, path: `/project/${id}.ts`, name: `${id}.ts`, lineCount: 3, symbols: [], imports: [] })),
+        externals: [...new Set(edges.filter(e => e.kind === 'external').map(e => e.to))].map(id => ({ id, name: id.slice(4) })),
+        boundaries: [],
+        edges
+    };
+}
+
+describe('focusGraph', () => {
+    // app → routes → service → db → driver, with a second importer of service and packages along the way
+    const graph = graphOf(
+        ['app', 'routes', 'admin', 'service', 'db', 'driver'],
+        ['app>routes', 'routes>service', 'admin>service', 'service>db', 'db>driver', 'service>pkg:zod', 'driver>pkg:pg', 'app>pkg:express']
+    );
+    const ids = (g: DependencyGraph | undefined) => g!.files.map(f => f.id);
+
+    it('follows imports and importers each to their own depth', () => {
+        assert.deepStrictEqual(ids(focusGraph(graph, 'service', { dependencies: 1, dependents: 1 })), ['routes', 'admin', 'service', 'db']);
+        assert.deepStrictEqual(ids(focusGraph(graph, 'service', { dependencies: 2, dependents: 0 })), ['service', 'db', 'driver']);
+        assert.deepStrictEqual(ids(focusGraph(graph, 'service', { dependencies: 0, dependents: 2 })), ['app', 'routes', 'admin', 'service']);
+    });
+
+    it('keeps packages imported by kept dependencies, but not by dependents', () => {
+        const focused = focusGraph(graph, 'service', { dependencies: 3, dependents: 2 })!;
+        assert.deepStrictEqual(focused.externals.map(x => x.name), ['zod', 'pg']);
+        assert.deepStrictEqual(focusGraph(graph, 'service', { dependencies: 2, dependents: 2 })!.externals.map(x => x.name), ['zod']);
+    });
+
+    it('keeps the imports between kept files and marks the focus', () => {
+        const focused = focusGraph(graph, 'service', { dependencies: 1, dependents: 1 })!;
+        assert.strictEqual(focused.focus, 'service');
+        assert.deepStrictEqual(focused.edges.map(e => `${e.from}>${e.to}`), ['routes>service', 'admin>service', 'service>db', 'service>ext_zod']);
+        assert.strictEqual(graph.focus, undefined);
+    });
+
+    it('returns nothing for a file that is not in the graph', () => {
+        assert.strictEqual(focusGraph(graph, 'missing', { dependencies: 1, dependents: 1 }), undefined);
+        assert.strictEqual(focusGraph(graph, 'ext_zod', { dependencies: 1, dependents: 1 }), undefined);
+    });
+});
+
+describe('focusSides', () => {
+    it('tells dependencies from dependents, counting files in a cycle with the focus as dependencies', () => {
+        const graph = graphOf(['app', 'service', 'db', 'cache'], ['app>service', 'service>db', 'service>cache', 'cache>service', 'service>pkg:zod']);
+        const sides = focusSides(focusGraph(graph, 'service', { dependencies: 2, dependents: 2 })!);
+        assert.deepStrictEqual([...sides].sort(), [['app', 'dependent'], ['cache', 'dependency'], ['db', 'dependency']]);
+        assert.strictEqual(focusSides(graph).size, 0);
+    });
+
+    it('colours each side of the focus in mermaid charts', () => {
+        const graph = graphOf(['app', 'service', 'db'], ['app>service', 'service>db']);
+        const chart = emitMermaid(focusGraph(graph, 'service', { dependencies: 1, dependents: 1 })!, DEFAULT_CONFIG);
+        assert.match(chart, /style db fill:#e0f2f1/);
+        assert.match(chart, /style app fill:#f3e5f5/);
+        assert.match(chart, /style service fill:#fff3e0/);
+    });
+});
@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { makeTree } from './helpers';
+
+const CLI = path.join(__dirname, '..', 'generateFlow.js');
+
+/**
+ * Runs the compiled CLI in a folder
+ */
+function run(cwd: string, ...args: string[]): { status: number | null; stdout: string; stderr: string } {
+    const result = childProcess.spawnSync(process.execPath, [CLI, ...args], { cwd, encoding: 'utf8' });
+    return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+const project = () => makeTree({
+    'src/main.ts': "import { util } from './util';\nimport { query } from './db/query';\n",
+    'src/util.ts': 'export const util = 1;\n',
+    'src/db/query.ts': 'export function query() {}\n'
+});
+
+describe('generate-flow arguments', () => {
+    it('prints the usage with the exit codes', () => {
+        const { status, stdout } = run(project(), '--help');
+        assert.strictEqual(status, 0);
+        assert.match(stdout, /^Usage: generate-flow \[options\] \[root\]/);
+        assert.match(stdout, /Exit codes:\n {2}0 {2}Diagram written\n {2}1 /);
+    });
+
+    it('exits with 2 on invalid arguments', () => {
+        const cwd = project();
+        const cases: [string[], RegExp][] = [
+            [['--colour'], /Unknown option --colour/],
+            [['--format'], /--format needs a value/],
+            [['--format=png'], /Unknown format "png"/],
+            [['--depth', '-1', '--focus', 'src/main.ts'], /--depth must be a non-negative integer/],
+            [['--depth', '1'], /--depth needs --focus/],
+            [['--metric', 'size'], /Unknown metric "size"/],
+            [['--stdout', '-o', 'x.md'], /--stdout and --output cannot be combined/],
+            [['a', 'b'], /Only one root folder can be given/],
+            [['--focus', 'src/missing.ts'], /src\/missing\.ts is not one of the scanned files/]
+        ];
+        for (const [args, message] of cases) {
+            const { status, stderr } = run(cwd, ...args);
+            assert.strictEqual(status, 2, args.join(' '));
+            assert.match(stderr, message);
+        }
+        assert.deepStrictEqual(fs.readdirSync(cwd), ['src']);
+    });
+
+    it('exits with 2 on an invalid .flowchartrc.json', () => {
+        const cwd = project();
+        fs.writeFileSync(path.join(cwd, '.flowchartrc.json'), '{ "direction": "UP" }');
+        const { status, stderr } = run(cwd);
+        assert.strictEqual(status, 2);
+        assert.match(stderr, /\.flowchartrc\.json: "direction" must be one of/);
+    });
+
+    it('exits with 3 when there is nothing to draw or the output cannot be written', () => {
+        const empty = run(makeTree({ 'docs/': '' }));
+        assert.strictEqual(empty.status, 3);
+        assert.match(empty.stderr, /No files found to analyze/);
+        assert.strictEqual(run(project(), 'missing').status, 3);
+        const unwritable = run(project(), '-o', path.join('no', 'such', 'folder', 'flow.md'));
+        assert.strictEqual(unwritable.status, 3);
+        assert.match(unwritable.stderr, /^Could not write /);
+    });
+});
+
+describe('generate-flow output', () => {
+    it('names the default output after the format', () => {
+        const cwd = project();
+        assert.strictEqual(run(cwd, '-q').status, 0);
+        assert.strictEqual(run(cwd, '-q', '-f', 'mermaid').status, 0);
+        assert.strictEqual(run(cwd, '-q', '--format=dot').status, 0);
+        assert.deepStrictEqual(fs.readdirSync(cwd).sort(), ['src', 'wholeflow.dot', 'wholeflow.md', 'wholeflow.mmd']);
+        assert.match(fs.readFileSync(path.join(cwd, 'wholeflow.md'), 'utf8'), /^```mermaid\nflowchart TD\n/);
+        assert.match(fs.readFileSync(path.join(cwd, 'wholeflow.mmd'), 'utf8'), /^flowchart TD\n/);
+    });
+
+    it('scans the given root and writes to --output', () => {
+        const cwd = project();
+        const { status, stdout } = run(path.dirname(cwd), path.basename(cwd), '-f', 'json', '-o', path.join(cwd, 'deps.json'));
+        assert.strictEqual(status, 0);
+        assert.match(stdout, /Wrote flow to .*deps\.json/);
+        const graph = JSON.parse(fs.readFileSync(path.join(cwd, 'deps.json'), 'utf8'));
+        assert.strictEqual(graph.files.length, 3);
+    });
+
+    it('writes only the diagram to standard output with --stdout', () => {
+        const cwd = project();
+        const { status, stdout, stderr } = run(cwd, '--stdout', '-f', 'mermaid', '--focus', 'src/util.ts', '--depth', '1');
+        assert.strictEqual(status, 0);
+        assert.match(stdout, /^flowchart TD\n/);
+        assert.doesNotMatch(stdout, /db_query/);
+        assert.match(stderr, /Scanning workspace/);
+        assert.deepStrictEqual(fs.readdirSync(cwd), ['src']);
+    });
+
+    it('writes the diagram and exits with 1 when architecture rules are broken', () => {
+        const cwd = project();
+        fs.writeFileSync(path.join(cwd, '.flowchartrc.json'), JSON.stringify({ rules: [{ from: 'src/main.ts', forbid: 'src/db/**' }] }));
+        const { status, stderr } = run(cwd, '-q');
+        assert.strictEqual(status, 1);
+        assert.match(stderr, /Found 1 architecture rule violation\n {2}\S+\/src\/main\.ts:2 Forbidden import/);
+        assert.ok(fs.existsSync(path.join(cwd, 'wholeflow.md')));
+    });
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { createGitignoreMatcher, findRepositoryRoot, parseGitignore } from '../gitignore';
+import { makeTree } from './helpers';
+
+describe('parseGitignore', () => {
+    it('skips blank lines, comments and bare slashes', () => {
+        assert.strictEqual(parseGitignore('\n# comment\n/\n  \n', '').length, 0);
+    });
+
+    it('reads negation, escapes and folder-only patterns', () => {
+        const [negated, escaped, folder] = parseGitignore('!keep.log\n\\!bang\nbuild/\n', 'sub');
+        assert.ok(negated.negated && negated.regExp.test('keep.log'));
+        assert.ok(!escaped.negated && escaped.regExp.test('!bang'));
+        assert.ok(folder.directoryOnly && folder.regExp.test('build'));
+        assert.strictEqual(folder.base, 'sub');
+    });
+});
+
+describe('createGitignoreMatcher', () => {
+    const root = makeTree({
+        '.git/info/exclude': 'secret.txt\n',
+        '.gitignore': '*.log\n!keep.log\nbuild/\n/top.txt\n',
+        'packages/app/.gitignore': 'generated\n!*.log\n',
+        'outside/': ''
+    });
+    const ignored = createGitignoreMatcher(path.join(root, 'packages'));
+    const at = (name: string) => path.join(root, ...name.split('/'));
+
+    it('finds the repository from a nested folder', () => {
+        assert.strictEqual(findRepositoryRoot(at('packages/app')), root);
+    });
+
+    it('applies the root .gitignore and .git/info/exclude', () => {
+        assert.ok(ignored(at('packages/debug.log'), false));
+        assert.ok(ignored(at('secret.txt'), false));
+        assert.ok(!ignored(at('packages/index.ts'), false));
+    });
+
+    it('lets a later negation re-include a file', () => {
+        assert.ok(!ignored(at('keep.log'), false));
+    });
+
+    it('only matches folder patterns against folders', () => {
+        assert.ok(ignored(at('packages/build'), true));
+        assert.ok(!ignored(at('packages/build'), false));
+    });
+
+    it('anchors patterns with a slash to their .gitignore', () => {
+        assert.ok(ignored(at('top.txt'), false));
+        assert.ok(!ignored(at('packages/top.txt'), false));
+    });
+
+    it('applies a nested .gitignore below its folder only, over the outer rules', () => {
+        assert.ok(ignored(at('packages/app/generated'), true));
+        assert.ok(!ignored(at('packages/generated'), true));
+        assert.ok(!ignored(at('packages/app/debug.log'), false));
+    });
+
+    it('ignores nothing outside the repository', () => {
+        assert.ok(!ignored(path.dirname(root), true));
+    });
+});
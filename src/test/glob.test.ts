@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { globToRegExp, matchesAnyGlob } from '../glob';
+
+describe('globToRegExp', () => {
+    const matches = (glob: string, p: string) => globToRegExp(glob).test(p);
+
+    it('matches a pattern without a slash at any depth', () => {
+        assert.ok(matches('*.test.ts', 'a.test.ts'));
+        assert.ok(matches('*.test.ts', 'src/deep/a.test.ts'));
+        assert.ok(!matches('*.test.ts', 'a.test.tsx'));
+    });
+
+    it('anchors a pattern with a slash to the root', () => {
+        assert.ok(matches('src/*.ts', 'src/a.ts'));
+        assert.ok(!matches('src/*.ts', 'lib/src/a.ts'));
+        assert.ok(matches('/dist', 'dist'));
+        assert.ok(!matches('/dist', 'src/dist'));
+    });
+
+    it('keeps `*` and `?` inside one path segment', () => {
+        assert.ok(!matches('src/*.ts', 'src/a/b.ts'));
+        assert.ok(matches('src/?.ts', 'src/a.ts'));
+        assert.ok(!matches('src/?.ts', 'src/ab.ts'));
+    });
+
+    it('lets `**` span folders, including none', () => {
+        assert.ok(matches('src/**/*.ts', 'src/a.ts'));
+        assert.ok(matches('src/**/*.ts', 'src/a/b/c.ts'));
+        assert.ok(matches('src/**', 'src/a/b'));
+    });
+
+    it('supports character classes, negated classes and braces', () => {
+        assert.ok(matches('file[0-9].ts', 'file3.ts'));
+        assert.ok(!matches('file[!0-9].ts', 'file3.ts'));
+        assert.ok(matches('file[!0-9].ts', 'filex.ts'));
+        assert.ok(matches('*.{js,ts}', 'a.js'));
+        assert.ok(!matches('*.{js,ts}', 'a.jsx'));
+    });
+
+    it('escapes regular expression characters', () => {
+        assert.ok(matches('a+b.(x).ts', 'a+b.(x).ts'));
+        assert.ok(!matches('a.ts', 'abts'));
+    });
+});
+
+describe('matchesAnyGlob', () => {
+    it('matches a file through one of its folders', () => {
+        assert.ok(matchesAnyGlob('node_modules/pkg/index.js', ['node_modules']));
+        assert.ok(matchesAnyGlob('src\\generated\\a.ts', ['src/generated']));
+        assert.ok(!matchesAnyGlob('src/a.ts', ['dist']));
+    });
+
+    it('matches nothing without globs', () => {
+        assert.ok(!matchesAnyGlob('a.ts', []));
+    });
+});
@@ -0,0 +1,24 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Writes files into a new temporary folder, which is deleted when the test process exits
+ * @param files - Content by `/`-separated path; a path ending in `/` creates an empty folder
+ * @returns The absolute path of the folder
+ */
+export function makeTree(files: Record<string, string>): string {
+    const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'code-to-flowchart-')));
+    process.once('exit', () => fs.rmSync(root, { recursive: true, force: true }));
+    for (const [name, content] of Object.entries(files)) {
+        const file = path.join(root, ...name.split('/'));
+        if (name.endsWith('/')) {
+            fs.mkdirSync(file, { recursive: true });
+            continue;
+        }
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, content);
+    }
+    return root;
+}
+
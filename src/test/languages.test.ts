@@ -0,0 +1,200 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { analyzeFile, createMultiRootResolver, createWorkspaceResolver, getLanguageAnalyzer } from '../languages';
+import { makeTree } from './helpers';
+
+describe('getLanguageAnalyzer', () => {
+    it('picks the analyzer by extension, limited to the enabled languages', () => {
+        assert.deepStrictEqual(['a.ts', 'b.py', 'c.go', 'D.JAVA', 'e.rb'].map(f => getLanguageAnalyzer(f)?.id), ['typescript', 'python', 'go', 'java', undefined]);
+        assert.strictEqual(getLanguageAnalyzer('b.py', ['typescript']), undefined);
+        assert.deepStrictEqual(analyzeFile('b.py', 'import os', ['typescript']), { imports: [], symbols: [], calls: [] });
+    });
+});
+
+describe('Python analyzer', () => {
+    const parsed = analyzeFile('/project/app.py', [
+        'import os, numpy as np',
+        'from .models import (User,',
+        '    Group as G)',
+        'from . import utils',
+        '',
+        '# def commented(): pass',
+        'class Service:',
+        '    def __init__(self):',
+        '        if self and os:',
+        '            pass',
+        '',
+        '    def _hidden(self):',
+        '        def nested():',
+        '            pass',
+        '',
+        'async def main():',
+        '    s = """',
+        'def not_a_function():',
+        '"""',
+        ''
+    ].join('\n'));
+
+    it('reads plain, aliased, multi-line and relative imports', () => {
+        assert.deepStrictEqual(parsed.imports.map(i => [i.specifier, i.line, i.bindings]), [
+            ['os', 1, [{ local: 'os', imported: '*' }]],
+            ['numpy', 1, [{ local: 'np', imported: '*' }]],
+            ['.models', 2, [{ local: 'User', imported: 'User' }, { local: 'G', imported: 'Group' }]],
+            ['.utils', 4, [{ local: 'utils', imported: '*' }]]
+        ]);
+    });
+
+    it('finds classes, methods and top-level functions but not nested ones or text in strings', () => {
+        assert.deepStrictEqual(parsed.symbols.map(s => [s.name, s.kind, s.exported, s.startLine, s.endLine]), [
+            ['Service', 'class', true, 7, 14],
+            ['Service.__init__', 'method', true, 8, 10],
+            ['Service._hidden', 'method', false, 12, 14],
+            ['main', 'function', true, 16, 17]
+        ]);
+        assert.strictEqual(parsed.symbols[1].complexity, 3);
+    });
+});
+
+describe('Go analyzer', () => {
+    const parsed = analyzeFile('/project/main.go', [
+        'package main',
+        '',
+        'import "fmt"',
+        'import (',
+        '    store "example.com/app/internal/store"',
+        '    _ "example.com/app/internal/plugins"',
+        ')',
+        '',
+        'type (',
+        '    Server struct {',
+        '        port int',
+        '    }',
+        '    handler func()',
+        ')',
+        '',
+        'type Reader interface {',
+        '    Read() error',
+        '}',
+        '',
+        'func (s *Server) Start() error {',
+        '    if s.port == 0 || s == nil {',
+        '        return nil',
+        '    }',
+        '    return nil',
+        '}',
+        '',
+        'func main() {',
+        '    fmt.Println("func fake() {")',
+        '}'
+    ].join('\n'));
+
+    it('reads single, grouped, aliased and blank imports', () => {
+        assert.deepStrictEqual(parsed.imports.map(i => [i.specifier, i.line, i.bindings.map(b => b.local)]), [
+            ['fmt', 3, ['fmt']],
+            ['example.com/app/internal/store', 5, ['store']],
+            ['example.com/app/internal/plugins', 6, []]
+        ]);
+    });
+
+    it('finds types, methods and functions with their export state', () => {
+        assert.deepStrictEqual(parsed.symbols.map(s => [s.name, s.kind, s.exported, s.startLine, s.endLine]), [
+            ['Server', 'class', true, 10, 12],
+            ['handler', 'type', false, 13, 13],
+            ['Reader', 'interface', true, 16, 18],
+            ['Server.Start', 'method', true, 20, 25],
+            ['main', 'function', false, 27, 29]
+        ]);
+        assert.strictEqual(parsed.symbols[3].complexity, 3);
+    });
+});
+
+describe('Java analyzer', () => {
+    const parsed = analyzeFile('/project/App.java', [
+        'package com.acme;',
+        '',
+        'import java.util.List;',
+        'import static com.acme.util.Strings.trim;',
+        'import com.acme.model.*;',
+        '',
+        '@Service',
+        'public class App {',
+        '    public App() {}',
+        '    private static <T> List<T> load(String name) {',
+        '        return name != null && !name.isEmpty() ? List.of() : null;',
+        '    }',
+        '    enum Mode { ON, OFF }',
+        '    void run() {',
+        '        if (true) { new Thread(); }',
+        '    }',
+        '}'
+    ].join('\n'));
+
+    it('reads plain, static and wildcard imports', () => {
+        assert.deepStrictEqual(parsed.imports.map(i => [i.specifier, i.bindings.map(b => b.local)]), [
+            ['java.util.List', ['List']],
+            ['com.acme.util.Strings.trim', ['trim']],
+            ['com.acme.model.*', []]
+        ]);
+    });
+
+    it('finds classes, nested types, constructors and methods', () => {
+        assert.deepStrictEqual(parsed.symbols.map(s => [s.name, s.kind, s.exported, s.startLine, s.endLine]), [
+            ['App', 'class', true, 8, 17],
+            ['App.constructor', 'method', true, 9, 9],
+            ['App.load', 'method', false, 10, 12],
+            ['App.Mode', 'enum', false, 13, 13],
+            ['App.run', 'method', false, 14, 16]
+        ]);
+        assert.strictEqual(parsed.symbols[2].complexity, 3);
+    });
+});
+
+describe('language resolvers', () => {
+    const root = makeTree({
+        'py/pkg/__init__.py': '',
+        'py/pkg/models.py': '',
+        'py/pkg/views.py': '',
+        'py/src/lib/__init__.py': '',
+        'py/src/lib/helpers.py': '',
+        'go/go.mod': 'module example.com/app\n',
+        'go/main.go': '',
+        'go/internal/store/store.go': '',
+        'go/internal/store/db.go': '',
+        'go/internal/store/store_test.go': '',
+        'java/src/com/acme/App.java': 'package com.acme;',
+        'java/src/com/acme/model/User.java': 'package com.acme.model;',
+        'java/src/com/acme/model/Group.java': 'package com.acme.model;'
+    });
+    const at = (name: string) => path.join(root, ...name.split('/'));
+    const files = ['go/main.go', 'go/internal/store/store.go', 'go/internal/store/db.go', 'java/src/com/acme/App.java', 'java/src/com/acme/model/User.java', 'java/src/com/acme/model/Group.java'].map(at);
+    const resolve = createWorkspaceResolver(root, files);
+
+    it('resolves Python relative, package and src-layout imports', () => {
+        const pyResolve = createWorkspaceResolver(at('py'), files);
+        assert.strictEqual(pyResolve(at('py/pkg/views.py'), '.models'), at('py/pkg/models.py'));
+        assert.strictEqual(pyResolve(at('py/pkg/views.py'), 'pkg.models.User'), at('py/pkg/models.py'));
+        assert.strictEqual(pyResolve(at('py/pkg/views.py'), '..pkg'), at('py/pkg/__init__.py'));
+        assert.strictEqual(pyResolve(at('py/pkg/views.py'), 'lib.helpers'), at('py/src/lib/helpers.py'));
+        assert.strictEqual(pyResolve(at('py/pkg/views.py'), 'requests'), null);
+    });
+
+    it('resolves Go packages through go.mod to one non-test file', () => {
+        assert.strictEqual(resolve(at('go/main.go'), 'example.com/app/internal/store'), at('go/internal/store/store.go'));
+        assert.strictEqual(resolve(at('go/main.go'), 'fmt'), null);
+    });
+
+    it('resolves Java classes, static members and wildcard packages', () => {
+        const app = at('java/src/com/acme/App.java');
+        assert.strictEqual(resolve(app, 'com.acme.model.User'), at('java/src/com/acme/model/User.java'));
+        assert.strictEqual(resolve(app, 'com.acme.model.User.ROLE'), at('java/src/com/acme/model/User.java'));
+        assert.strictEqual(resolve(app, 'com.acme.model.*'), at('java/src/com/acme/model/Group.java'));
+        assert.strictEqual(resolve(app, 'java.util.List'), null);
+    });
+
+    it('falls back to sibling workspace folders for imports their own folder cannot resolve', () => {
+        const multi = createMultiRootResolver([at('java'), at('go')], files);
+        assert.strictEqual(multi(at('go/main.go'), 'example.com/app/internal/store'), at('go/internal/store/store.go'));
+        assert.strictEqual(multi(at('java/src/com/acme/App.java'), 'com.acme.model.User'), at('java/src/com/acme/model/User.java'));
+    });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { layeredLayout, LayoutNode } from '../layout';
+
+const box = (id: string, group?: string): LayoutNode => ({ id, width: 100, height: 40, group });
+const edge = (s: string) => {
+    const [from, to] = s.split('>');
+    return { from, to };
+};
+
+describe('layeredLayout', () => {
+    it('puts every node one layer below its deepest predecessor', () => {
+        const layout = layeredLayout(['a', 'b', 'c', 'd'].map(id => box(id)), ['a>b', 'b>c', 'a>c', 'a>d'].map(edge));
+        const layers = ['a', 'b', 'c', 'd'].map(id => layout.nodes.get(id)!.layer);
+        assert.deepStrictEqual(layers, [0, 1, 2, 1]);
+        const [a, b, c] = ['a', 'b', 'c'].map(id => layout.nodes.get(id)!);
+        assert.ok(a.y < b.y && b.y < c.y);
+    });
+
+    it('breaks cycles instead of failing, and ignores self-loops and unknown ids', () => {
+        const layout = layeredLayout(['a', 'b', 'c'].map(id => box(id)), ['a>b', 'b>c', 'c>a', 'a>a', 'a>missing'].map(edge));
+        assert.deepStrictEqual(['a', 'b', 'c'].map(id => layout.nodes.get(id)!.layer), [0, 1, 2]);
+    });
+
+    it('keeps boxes of one layer apart and inside the drawing', () => {
+        const layout = layeredLayout(['root', 'x', 'y', 'z'].map(id => box(id)), ['root>x', 'root>y', 'root>z'].map(edge), { nodeGap: 10, margin: 5 });
+        const row = ['x', 'y', 'z'].map(id => layout.nodes.get(id)!).sort((p, q) => p.x - q.x);
+        for (let i = 1; i < row.length; i++) assert.ok(row[i].x >= row[i - 1].x + row[i - 1].width + 10);
+        for (const n of layout.nodes.values()) {
+            assert.ok(n.x >= 5 && n.y >= 5 && n.x + n.width <= layout.width && n.y + n.height <= layout.height);
+        }
+    });
+
+    it('orders a layer after its parents to avoid crossings', () => {
+        const layout = layeredLayout(['p1', 'p2', 'c2', 'c1'].map(id => box(id)), ['p1>c1', 'p2>c2'].map(edge));
+        const x = (id: string) => layout.nodes.get(id)!.x;
+        assert.ok(x('p1') < x('p2'));
+        assert.ok(x('c1') < x('c2'));
+    });
+
+    it('lays out left to right and bottom to top', () => {
+        const lr = layeredLayout([box('a'), box('b')], [edge('a>b')], { direction: 'LR' });
+        assert.ok(lr.nodes.get('a')!.x < lr.nodes.get('b')!.x);
+        assert.strictEqual(lr.nodes.get('a')!.y, lr.nodes.get('b')!.y);
+        assert.strictEqual(lr.nodes.get('a')!.width, 100);
+        const bt = layeredLayout([box('a'), box('b')], [edge('a>b')], { direction: 'BT' });
+        assert.ok(bt.nodes.get('a')!.y > bt.nodes.get('b')!.y);
+    });
+
+    it('frames each group in its own band without overlaps', () => {
+        const layout = layeredLayout([box('a1', 'A'), box('b1', 'B'), box('a2', 'A'), box('b2', 'B'), box('free')], ['a1>a2', 'b1>b2', 'a2>free'].map(edge));
+        const a = layout.groups.get('A')!;
+        const b = layout.groups.get('B')!;
+        assert.ok(a.x + a.width <= b.x || b.x + b.width <= a.x);
+        for (const id of ['a1', 'a2']) {
+            const n = layout.nodes.get(id)!;
+            assert.ok(n.x >= a.x && n.x + n.width <= a.x + a.width && n.y >= a.y && n.y + n.height <= a.y + a.height);
+        }
+        assert.strictEqual(layout.groups.size, 2);
+    });
+});
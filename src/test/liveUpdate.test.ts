@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { buildDependencyGraph, ParseCache } from '../graph';
+import { readFolderRecursive, rescanPaths } from '../scanner';
+import { makeTree } from './helpers';
+
+describe('rescanPaths', () => {
+    it('updates changed files in place, drops deleted ones and appends new ones', async () => {
+        const root = makeTree({ 'a.ts': 'a', 'b.ts': 'b', 'c.ts': 'c' });
+        const at = (name: string) => path.join(root, name);
+        const files = await readFolderRecursive(root);
+        fs.writeFileSync(at('a.ts'), 'a\nchanged');
+        fs.unlinkSync(at('b.ts'));
+        fs.writeFileSync(at('d.ts'), 'd');
+
+        const updated = await rescanPaths(root, files, [at('a.ts'), at('b.ts'), at('d.ts')], {});
+        assert.deepStrictEqual(updated.map(f => [path.basename(f.path), f.content, f.lineCount]), [
+            ['a.ts', 'a\nchanged', 2],
+            ['c.ts', 'c', 1],
+            ['d.ts', 'd', 1]
+        ]);
+        assert.strictEqual(updated[1], files.find(f => f.path === at('c.ts')));
+    });
+
+    it('reads a changed folder again with the scan options and .gitignore', async () => {
+        const root = makeTree({ 'src/a.ts': '', 'src/b.ts': '', 'src/notes.txt': '' });
+        const options = { extensions: ['.ts'] };
+        const files = await readFolderRecursive(root, options);
+        fs.writeFileSync(path.join(root, 'src', '.gitignore'), 'b.ts\n');
+        fs.writeFileSync(path.join(root, 'src', 'c.ts'), '');
+
+        const updated = await rescanPaths(root, files, [path.join(root, 'src')], options);
+        assert.deepStrictEqual(updated.map(f => f.name).filter(n => n.endsWith('.ts')).sort(), [path.join(path.basename(root), 'src', 'a.ts'), path.join(path.basename(root), 'src', 'c.ts')]);
+    });
+});
+
+describe('parse cache', () => {
+    it('parses only changed files again and forgets deleted ones', async () => {
+        const root = makeTree({ 'a.ts': "import './b';", 'b.ts': 'export function b() {}', 'c.ts': '' });
+        const cache: ParseCache = new Map();
+        let files = await readFolderRecursive(root);
+        const first = buildDependencyGraph(files, root, { cache });
+        assert.strictEqual(cache.size, 3);
+
+        fs.writeFileSync(path.join(root, 'b.ts'), 'export function b() {}\nexport function b2() {}');
+        fs.unlinkSync(path.join(root, 'c.ts'));
+        files = await rescanPaths(root, files, [path.join(root, 'b.ts'), path.join(root, 'c.ts')], {});
+        const second = buildDependencyGraph(files, root, { cache });
+
+        const symbolsOf = (graph: typeof first, name: string) => graph.files.find(f => path.basename(f.path) === name)!.symbols;
+        assert.strictEqual(symbolsOf(second, 'a.ts'), symbolsOf(first, 'a.ts'));
+        assert.deepStrictEqual(symbolsOf(second, 'b.ts').map(s => s.name), ['b', 'b2']);
+        assert.deepStrictEqual([...cache.keys()].map(p => path.basename(p)), ['a.ts', 'b.ts']);
+        assert.strictEqual(second.edges.length, 1);
+    });
+});
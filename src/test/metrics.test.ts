@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { DependencyGraph } from '../graph';
+import { computeMetrics, describeBucket, formatMetricsCsv, metricBuckets, metricOverlay, sortHotspots } from '../metrics';
+import { SymbolInfo } from '../parser';
+
+function fn(name: string, complexity: number): SymbolInfo {
+    return { name, kind: 'function', exported: false, isDefault: false, startLine: 1, endLine: 1, complexity };
+}
+
+const graph: DependencyGraph = {
+    root: '/project',
+    files: [
+        { id: 'a', path: '/project/a.ts', name: 'a.ts', lineCount: 40, symbols: [fn('run', 3), fn('parse', 7)], imports: [] },
+        { id: 'b', path: '/project/b.ts', name: 'b.ts', lineCount: 5, symbols: [], imports: [] },
+        { id: 'c', path: '/project/c.ts', name: 'c, "d".ts', lineCount: 5, symbols: [], imports: [] }
+    ],
+    externals: [],
+    boundaries: [],
+    edges: [
+        { from: 'a', to: 'b', kind: 'internal', specifier: './b', line: 1 },
+        { from: 'c', to: 'b', kind: 'internal', specifier: './b', line: 1 },
+        { from: 'a', to: 'ext_lodash', kind: 'external', specifier: 'lodash', line: 2 }
+    ]
+};
+
+describe('computeMetrics', () => {
+    it('counts fan-in from internal imports only and fan-out from all imports', () => {
+        const [a, b] = computeMetrics(graph);
+        assert.deepStrictEqual([a.fanIn, a.fanOut, b.fanIn, b.fanOut], [0, 2, 2, 0]);
+    });
+
+    it('takes the complexity of the most complex function', () => {
+        const [a, b] = computeMetrics(graph);
+        assert.deepStrictEqual([a.complexity, a.mostComplex, a.symbols], [7, 'parse', 2]);
+        assert.deepStrictEqual([b.complexity, b.mostComplex], [0, undefined]);
+    });
+});
+
+describe('metricBuckets', () => {
+    it('splits the range into one band per colour', () => {
+        assert.deepStrictEqual(metricBuckets([0, 100]).map(describeBucket), ['0–20', '21–40', '41–60', '61–80', '81–100']);
+    });
+
+    it('leaves out bands that cannot hold an integer', () => {
+        assert.deepStrictEqual(metricBuckets([2]).map(describeBucket), ['0', '1', '2']);
+        assert.deepStrictEqual(metricBuckets([]).map(describeBucket), ['0']);
+    });
+});
+
+describe('metricOverlay', () => {
+    it('puts every file in a band', () => {
+        const overlay = metricOverlay(graph, 'fanIn')!;
+        assert.strictEqual(overlay.levels.get('b'), overlay.buckets[overlay.buckets.length - 1]);
+        assert.strictEqual(overlay.levels.get('a'), overlay.buckets[0]);
+        assert.strictEqual(metricOverlay(graph, 'none'), undefined);
+    });
+});
+
+describe('hotspots', () => {
+    it('sorts by the metric, then by name', () => {
+        assert.deepStrictEqual(sortHotspots(computeMetrics(graph), 'lines').map(m => m.id), ['a', 'b', 'c']);
+    });
+
+    it('quotes CSV fields that need it', () => {
+        const csv = formatMetricsCsv(computeMetrics(graph));
+        assert.match(csv, /^file,fanIn,fanOut,lines,symbols,complexity,mostComplex\n/);
+        assert.match(csv, /\n"c, ""d"".ts",0,1,5,0,0,\n$/);
+    });
+});
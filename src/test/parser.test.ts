@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { isParsableFile, parseSource } from '../parser';
+
+describe('parseSource', () => {
+    it('reads every kind of import with its bindings', () => {
+        const { imports } = parseSource([
+            "import def, { a as b, c } from './named';",
+            "import * as ns from './namespace';",
+            "import type { T } from './types';",
+            "import fs = require('fs');",
+            "const { x, y: z } = require('./required');",
+            "export { e as f } from './reexport';",
+            "export * from './all';",
+            "const lazy = () => import('./lazy');"
+        ].join('\n'), 'a.ts');
+        assert.deepStrictEqual(imports.map(i => [i.specifier, i.kind, i.typeOnly, i.line]), [
+            ['./named', 'import', false, 1],
+            ['./namespace', 'import', false, 2],
+            ['./types', 'import', true, 3],
+            ['fs', 'require', false, 4],
+            ['./required', 'require', false, 5],
+            ['./reexport', 're-export', false, 6],
+            ['./all', 'export-all', false, 7],
+            ['./lazy', 'dynamic-import', false, 8]
+        ]);
+        assert.deepStrictEqual(imports[0].bindings, [{ local: 'def', imported: 'default' }, { local: 'b', imported: 'a' }, { local: 'c', imported: 'c' }]);
+        assert.deepStrictEqual(imports[1].bindings, [{ local: 'ns', imported: '*' }]);
+        assert.deepStrictEqual(imports[4].bindings, [{ local: 'x', imported: 'x' }, { local: 'z', imported: 'y' }]);
+        assert.deepStrictEqual(imports[5].bindings, [{ local: 'f', imported: 'e' }]);
+    });
+
+    it('lists declarations with their lines and export state', () => {
+        const { symbols } = parseSource([
+            'export function run() {}',
+            'class Store {',
+            '    constructor() {}',
+            '    save() {}',
+            '    onChange = () => {};',
+            '}',
+            'export interface Options {}',
+            'type Id = string;',
+            'enum Mode { A }',
+            'const handler = function () {};',
+            'let count = 0;',
+            'export { Store };',
+            'export default handler;'
+        ].join('\n'), 'a.ts');
+        assert.deepStrictEqual(symbols.map(s => [s.name, s.kind, s.exported, s.isDefault, s.startLine, s.endLine]), [
+            ['run', 'function', true, false, 1, 1],
+            ['Store', 'class', true, false, 2, 6],
+            ['Store.constructor', 'method', true, false, 3, 3],
+            ['Store.save', 'method', true, false, 4, 4],
+            ['Store.onChange', 'method', true, false, 5, 5],
+            ['Options', 'interface', true, false, 7, 7],
+            ['Id', 'type', false, false, 8, 8],
+            ['Mode', 'enum', false, false, 9, 9],
+            ['handler', 'function', true, true, 10, 10],
+            ['count', 'variable', false, false, 11, 11]
+        ]);
+    });
+
+    it('counts branches, loops and short-circuits for the complexity', () => {
+        const { symbols } = parseSource([
+            'function plain() { return 1; }',
+            'function busy(a, b) {',
+            '    if (a && b) return;',
+            '    for (const x of a) { try { x(); } catch (e) {} }',
+            '    switch (b) { case 1: break; case 2: break; default: }',
+            '    return a ? a : b ?? 0;',
+            '}'
+        ].join('\n'), 'a.ts');
+        assert.deepStrictEqual(symbols.map(s => s.complexity), [1, 9]);
+    });
+
+    it('records call sites with their caller', () => {
+        const { calls } = parseSource([
+            "const fs = require('fs');",
+            'setup();',
+            'function main() { helper(); ns.deep.run(); new Store(); }',
+            'class Store { save() { this.write(); } }'
+        ].join('\n'), 'a.ts');
+        assert.deepStrictEqual(calls.map(c => [c.caller, c.callee.join('.'), c.isNew, c.line]), [
+            [null, 'setup', false, 2],
+            ['main', 'helper', false, 3],
+            ['main', 'ns.deep.run', false, 3],
+            ['main', 'Store', true, 3],
+            ['Store.save', 'this.write', false, 4]
+        ]);
+    });
+
+    it('parses JSX in .jsx and .tsx files', () => {
+        const { imports, symbols } = parseSource("import React from 'react';\nexport const App = () => <div>{x}</div>;", 'App.jsx');
+        assert.deepStrictEqual(imports.map(i => i.specifier), ['react']);
+        assert.deepStrictEqual(symbols.map(s => [s.name, s.kind]), [['App', 'function']]);
+    });
+});
+
+describe('isParsableFile', () => {
+    it('accepts JavaScript and TypeScript files only', () => {
+        assert.deepStrictEqual(['a.ts', 'b.MJS', 'c.tsx', 'd.py', 'e.json'].map(isParsableFile), [true, true, true, false, false]);
+    });
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { createImportResolver } from '../resolver';
+import { makeTree } from './helpers';
+
+describe('createImportResolver', () => {
+    const root = makeTree({
+        'tsconfig.base.json': JSON.stringify({ compilerOptions: { paths: { '@shared/*': ['shared/*'] } } }),
+        'tsconfig.json': JSON.stringify({ extends: './tsconfig.base.json' }),
+        'app/tsconfig.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@/*': ['src/*'], 'config': ['src/config/index.ts'] } } }),
+        'app/src/main.ts': '',
+        'app/src/util.ts': '',
+        'app/src/config/index.ts': '',
+        'app/src/components/index.tsx': '',
+        'app/lib/helper.ts': '',
+        'shared/log.ts': '',
+        'shared/main.ts': '',
+        'packages/ui/package.json': JSON.stringify({ name: '@acme/ui', exports: { '.': { import: './src/index.ts' }, './icons/*': './src/icons/*.ts' } }),
+        'packages/ui/src/index.ts': '',
+        'packages/ui/src/icons/star.ts': '',
+        'packages/legacy/package.json': JSON.stringify({ name: 'legacy', main: 'lib/entry' }),
+        'packages/legacy/lib/entry.js': ''
+    });
+    const at = (name: string) => path.join(root, ...name.split('/'));
+    const resolve = createImportResolver(root, [at('packages/ui/package.json'), at('packages/legacy/package.json')]);
+    const main = at('app/src/main.ts');
+
+    it('resolves relative imports with and without extensions', () => {
+        assert.strictEqual(resolve(main, './util'), at('app/src/util.ts'));
+        assert.strictEqual(resolve(main, './components'), at('app/src/components/index.tsx'));
+        assert.strictEqual(resolve(main, '../lib/helper'), at('app/lib/helper.ts'));
+    });
+
+    it('maps `.js` specifiers to the TypeScript source', () => {
+        assert.strictEqual(resolve(main, './util.js'), at('app/src/util.ts'));
+    });
+
+    it('uses the nearest tsconfig paths and baseUrl', () => {
+        assert.strictEqual(resolve(main, '@/util'), at('app/src/util.ts'));
+        assert.strictEqual(resolve(main, 'config'), at('app/src/config/index.ts'));
+        assert.strictEqual(resolve(main, 'lib/helper'), at('app/lib/helper.ts'));
+    });
+
+    it('applies paths from an extended tsconfig relative to where they are declared', () => {
+        assert.strictEqual(resolve(at('shared/main.ts'), '@shared/log'), at('shared/log.ts'));
+    });
+
+    it('resolves local packages through exports and main', () => {
+        assert.strictEqual(resolve(main, '@acme/ui'), at('packages/ui/src/index.ts'));
+        assert.strictEqual(resolve(main, '@acme/ui/icons/star'), at('packages/ui/src/icons/star.ts'));
+        assert.strictEqual(resolve(main, 'legacy'), at('packages/legacy/lib/entry.js'));
+    });
+
+    it('returns null for external packages and missing files', () => {
+        assert.strictEqual(resolve(main, 'react'), null);
+        assert.strictEqual(resolve(main, './missing'), null);
+    });
+});
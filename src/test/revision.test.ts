@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { DEFAULT_CONFIG } from '../config';
+import { diffGraphs, formatGraphDiff } from '../diff';
+import { readFolderRecursive, SkipCounts } from '../scanner';
+import { buildRevisionGraph } from '../revision';
+import { makeTree } from './helpers';
+
+function git(cwd: string, ...args: string[]): void {
+    childProcess.execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd, stdio: 'pipe' });
+}
+
+describe('buildRevisionGraph', () => {
+    // The app folder is one level below the repository root, whose .gitignore hides generated code
+    const repo = makeTree({
+        '.gitignore': 'generated/\n',
+        'app/src/main.ts': "import { util } from './util';\nimport { api } from '../generated/api';\n",
+        'app/src/util.ts': 'export const util = 1;\n',
+        'app/generated/api.ts': 'export const api = 1;\n'
+    });
+    const app = path.join(repo, 'app');
+    git(repo, 'init', '-q');
+    git(repo, 'add', '-A');
+    git(repo, 'add', '-f', 'app/generated/api.ts');
+    git(repo, 'commit', '-q', '-m', 'base');
+    git(repo, 'tag', 'base');
+    fs.writeFileSync(path.join(app, 'src', 'main.ts'), "import { log } from './log';\nexport const main = 1;\n");
+    fs.writeFileSync(path.join(app, 'src', 'log.ts'), "import { main } from './main';\nimport chalk from 'chalk';\n");
+    fs.rmSync(path.join(app, 'src', 'util.ts'));
+    git(repo, 'add', '-A');
+    git(repo, 'commit', '-q', '-m', 'head');
+
+    it('reads the files of a revision with the paths of the working tree', async () => {
+        const graph = await buildRevisionGraph(app, 'base', DEFAULT_CONFIG);
+        assert.strictEqual(graph.root, app);
+        assert.deepStrictEqual(graph.files.map(f => [f.name, f.path]).sort(), [
+            ['app/src/main.ts', path.join(app, 'src', 'main.ts')],
+            ['app/src/util.ts', path.join(app, 'src', 'util.ts')]
+        ]);
+    });
+
+    it('applies the .gitignore files above the folder like a scan of the working tree', async () => {
+        const skipped: SkipCounts = {};
+        const graph = await buildRevisionGraph(app, 'base', DEFAULT_CONFIG, skipped);
+        assert.ok(!graph.files.some(f => f.name.includes('generated')));
+        assert.strictEqual(skipped.gitignored, 1);
+
+        const working: SkipCounts = {};
+        await readFolderRecursive(app, { skipped: working });
+        assert.strictEqual(working.gitignored, skipped.gitignored);
+    });
+
+    it('gives the same ids as the working tree, so revisions can be compared', async () => {
+        const head = await buildRevisionGraph(app, 'HEAD', DEFAULT_CONFIG);
+        const working = await readFolderRecursive(app);
+        assert.deepStrictEqual(head.files.map(f => f.name).sort(), working.map(f => f.name).filter(n => n.endsWith('.ts')).sort());
+    });
+
+    it('reports unknown revisions and folders outside a repository', async () => {
+        await assert.rejects(buildRevisionGraph(app, 'no-such-branch', DEFAULT_CONFIG), /Unknown revision "no-such-branch"/);
+        await assert.rejects(buildRevisionGraph(makeTree({ 'a.ts': '' }), 'HEAD', DEFAULT_CONFIG), /git rev-parse failed/);
+    });
+
+    describe('diffGraphs', () => {
+        it('marks added and removed files and imports, and finds new cycles', async () => {
+            const diff = diffGraphs(
+                await buildRevisionGraph(app, 'base', DEFAULT_CONFIG),
+                await buildRevisionGraph(app, 'HEAD', DEFAULT_CONFIG),
+                { base: 'base', head: 'HEAD' }
+            );
+            assert.deepStrictEqual(diff.graph.files.map(f => [f.name, f.change]), [
+                ['app/src/log.ts', 'added'],
+                ['app/src/main.ts', 'unchanged'],
+                ['app/src/util.ts', 'removed']
+            ]);
+            assert.deepStrictEqual(diff.graph.externals.map(x => [x.name, x.change]), [['chalk', 'added']]);
+            assert.deepStrictEqual(diff.newCycles.map(ids => [...ids].sort()), [['app_src_log_ts', 'app_src_main_ts']]);
+            assert.strictEqual(diff.unchangedFileCount, 1);
+        });
+
+        it('summarises the changes for a review', async () => {
+            const base = await buildRevisionGraph(app, 'base', DEFAULT_CONFIG);
+            const report = formatGraphDiff(diffGraphs(base, await buildRevisionGraph(app, 'HEAD', DEFAULT_CONFIG), { base: 'base', head: 'HEAD' }));
+            assert.match(report, /^Dependency changes from base to HEAD \(1 files unchanged\)\n/);
+            assert.match(report, /Added files \(1\):\n {2}\+ app\/src\/log\.ts\n/);
+            assert.match(report, /Removed files \(1\):\n {2}- app\/src\/util\.ts\n/);
+            assert.match(report, /\+ app\/src\/log\.ts → chalk \(package\)/);
+            assert.match(report, /- app\/src\/main\.ts → app\/src\/util\.ts/);
+            assert.match(report, /New dependency cycles \(1\):\n {2}! /);
+            assert.strictEqual(formatGraphDiff(diffGraphs(base, base, { base: 'a', head: 'b' })), 'No dependency changes from a to b (2 files)\n');
+        });
+    });
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { DependencyGraph, GraphEdge } from '../graph';
+import { checkRules, describeRule, formatRuleReport, violatingEdges } from '../rules';
+
+/**
+ * A graph of files below `project/` named by `/`-separated paths; `a>b` imports file b on line n
+ * of its imports, `a>pkg:x` the package x
+ */
+function graphOf(names: string[], imports: string[]): DependencyGraph {
+    const lines = new Map<string, number>();
+    const edges: GraphEdge[] = imports.map(s => {
+        const [from, to] = s.split('>');
+        const line = (lines.get(from) || 0) + 1;
+        lines.set(from, line);
+        return to.startsWith('pkg:')
+            ? { from, to: `ext_${to.slice(4)}`, kind: 'external', specifier: to.slice(4), line }
+            : { from, to, kind: 'internal', specifier: `./${to}`, line };
+    });
+    return {
+        root: '/project',
+        files: names.map(name => ({ id: name, path: `/project/${name}`, name: `project/${name}`, lineCount: 5, symbols: [], imports: [] })),
+        externals: [...new Set(edges.filter(e => e.kind === 'external').map(e => e.to))].map(id => ({ id, name: id.slice(4) })),
+        boundaries: [],
+        edges
+    };
+}
+
+describe('checkRules', () => {
+    const graph = graphOf(
+        ['src/ui/button.ts', 'src/ui/form.ts', 'src/db/query.ts', 'src/adapters/s3.ts'],
+        [
+            'src/ui/button.ts>src/db/query.ts',
+            'src/ui/button.ts>pkg:react',
+            'src/ui/form.ts>src/ui/button.ts',
+            'src/ui/form.ts>pkg:@aws-sdk/client-s3',
+            'src/adapters/s3.ts>pkg:@aws-sdk/client-s3',
+            'src/adapters/s3.ts>pkg:lodash/fp'
+        ]
+    );
+
+    it('reports forbidden file imports at the line of the import', () => {
+        const violations = checkRules(graph, [{ from: 'src/ui/**', forbid: 'src/db/**' }]);
+        assert.deepStrictEqual(violations.map(v => [v.from, v.line, v.message]), [
+            ['src/ui/button.ts', 1, 'Forbidden import of project/src/db/query.ts: src/ui/** may not import src/db/**']
+        ]);
+        assert.strictEqual(violations[0].edge, graph.edges[0]);
+    });
+
+    it('matches packages by name or glob, and leaves out excepted files', () => {
+        const violations = checkRules(graph, [
+            { name: 'AWS only in adapters', forbidPackages: '@aws-sdk/*', except: 'src/adapters/**' },
+            { from: 'src/adapters/**', forbidPackages: ['lodash'] }
+        ]);
+        assert.deepStrictEqual(violations.map(v => [v.rule, v.from, v.message]), [
+            ['AWS only in adapters', 'src/ui/form.ts', "Forbidden import of package '@aws-sdk/client-s3': AWS only in adapters"],
+            ['src/adapters/** may not import packages lodash', 'src/adapters/s3.ts', "Forbidden import of package 'lodash': src/adapters/** may not import packages lodash"]
+        ]);
+    });
+
+    it('reports files that import too much at the first import over the limit', () => {
+        const violations = checkRules(graph, [{ maxFanOut: 1 }]);
+        assert.deepStrictEqual(violations.map(v => [v.from, v.line, v.edge]), [
+            ['src/ui/button.ts', 2, undefined],
+            ['src/ui/form.ts', 2, undefined],
+            ['src/adapters/s3.ts', 2, undefined]
+        ]);
+        assert.strictEqual(violations[0].message, 'project/src/ui/button.ts imports 2 files and packages: Files may import at most 1 files and packages');
+    });
+
+    it('finds nothing without rules or when everything is allowed', () => {
+        assert.deepStrictEqual(checkRules(graph, []), []);
+        assert.deepStrictEqual(checkRules(graph, [{ from: 'src/db/**', forbid: 'src/ui/**', maxFanOut: 5 }]), []);
+    });
+});
+
+describe('describeRule', () => {
+    it('spells out unnamed rules', () => {
+        assert.strictEqual(
+            describeRule({ from: ['src/ui/**', 'src/pages/**'], except: 'src/ui/legacy/**', forbid: 'src/db/**', maxFanOut: 10 }),
+            'src/ui/**, src/pages/** (except src/ui/legacy/**) may not import src/db/** and may import at most 10 files and packages'
+        );
+        assert.strictEqual(describeRule({ name: 'Layers', forbid: 'x' }), 'Layers');
+    });
+});
+
+describe('violatingEdges', () => {
+    it('collects the forbidden imports and edges already marked as violations', () => {
+        const graph = graphOf(['a/x.ts', 'b/y.ts', 'c/z.ts'], ['a/x.ts>b/y.ts', 'a/x.ts>c/z.ts', 'c/z.ts>b/y.ts']);
+        graph.edges[2].violation = true;
+        assert.deepStrictEqual([...violatingEdges(graph, [{ from: 'a/**', forbid: 'b/**' }])], [graph.edges[2], graph.edges[0]]);
+    });
+});
+
+describe('formatRuleReport', () => {
+    it('lists each violation with its file and line', () => {
+        const graph = graphOf(['a/x.ts', 'b/y.ts'], ['a/x.ts>pkg:lodash', 'a/x.ts>b/y.ts']);
+        const report = formatRuleReport(graph, checkRules(graph, [{ from: 'a/**', forbid: 'b/**' }]));
+        assert.strictEqual(report, 'Found 1 architecture rule violation\n  project/a/x.ts:2 Forbidden import of project/b/y.ts: a/** may not import b/**\n');
+        assert.strictEqual(formatRuleReport(graph, []), 'No architecture rule violations found.\n');
+    });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { DEFAULT_CONFIG } from '../config';
+import { emitMermaid, getMermaidNodeTargets } from '../emitters/mermaid';
+import { buildDependencyGraph } from '../graph';
+import { readFolderRecursive } from '../scanner';
+import { makeTree } from './helpers';
+
+describe('selection boundaries', () => {
+    const root = makeTree({
+        'src/ui/button.ts': "import { query } from '../db/query';\nimport { theme } from './theme';\nimport { query as q } from '../db/query.js';\n",
+        'src/ui/theme.ts': "import { format } from '../util/format';\nimport chalk from 'chalk';\n",
+        'src/db/query.ts': 'export function query() {}\n',
+        'src/util/format.ts': 'export function format() {}\n'
+    });
+    const name = path.basename(root);
+    const selectUi = async () => {
+        const files = await readFolderRecursive(root, { startPath: path.join(root, 'src', 'ui') });
+        const knownFiles = (await readFolderRecursive(root)).map(f => f.path);
+        return buildDependencyGraph(files, root, { boundaries: true, knownFiles });
+    };
+
+    it('adds one boundary node per imported file outside the selection', async () => {
+        const graph = await selectUi();
+        assert.deepStrictEqual(graph.files.map(f => f.name).sort(), [`${name}/src/ui/button.ts`, `${name}/src/ui/theme.ts`]);
+        assert.deepStrictEqual(graph.boundaries.map(b => [b.name, b.path]).sort(), [
+            [`${name}/src/db/query.ts`, path.join(root, 'src', 'db', 'query.ts')],
+            [`${name}/src/util/format.ts`, path.join(root, 'src', 'util', 'format.ts')]
+        ]);
+        assert.deepStrictEqual(graph.externals.map(e => e.name), ['chalk']);
+    });
+
+    it('links selected files to boundaries with boundary edges, once per target', async () => {
+        const graph = await selectUi();
+        const query = graph.boundaries.find(b => b.name.endsWith('query.ts'))!;
+        const button = graph.files.find(f => f.name.endsWith('button.ts'))!;
+        assert.deepStrictEqual(graph.edges.filter(e => e.from === button.id).map(e => [e.to, e.kind]), [
+            [query.id, 'boundary'],
+            [graph.files.find(f => f.name.endsWith('theme.ts'))!.id, 'internal']
+        ]);
+        // Boundaries are named like scanned files, so they keep their id when the selection grows
+        const whole = buildDependencyGraph(await readFolderRecursive(root), root);
+        assert.ok(whole.files.some(f => f.id === query.id));
+    });
+
+    it('drops imports that leave the selection without the option', async () => {
+        const files = await readFolderRecursive(root, { startPath: path.join(root, 'src', 'ui') });
+        const graph = buildDependencyGraph(files, root);
+        assert.deepStrictEqual(graph.boundaries, []);
+        assert.deepStrictEqual(graph.edges.map(e => e.kind).sort(), ['external', 'internal']);
+    });
+
+    it('draws boundaries dashed and opens them when clicked', async () => {
+        const graph = await selectUi();
+        const query = graph.boundaries.find(b => b.name.endsWith('query.ts'))!;
+        const chart = emitMermaid(graph, DEFAULT_CONFIG);
+        assert.match(chart, /classDef boundary [^\n]*stroke-dasharray/);
+        assert.match(chart, new RegExp(`class ${graph.boundaries.map(b => b.id).join(',')} boundary`));
+        assert.deepStrictEqual(getMermaidNodeTargets(graph, DEFAULT_CONFIG)[query.id], {
+            path: query.path,
+            line: 1,
+            tooltip: `${query.name}\nOutside the selection`
+        });
+    });
+});
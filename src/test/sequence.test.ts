@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { CallGraphFile } from '../callGraph';
+import { buildSequenceDiagram } from '../sequence';
+
+/**
+ * Files under /project by name, resolved by a resolver that only knows relative `.ts` imports
+ */
+function project(sources: Record<string, string>): { files: CallGraphFile[]; resolve: (from: string, specifier: string) => string | null } {
+    const files = Object.entries(sources).map(([name, content]) => ({ path: path.resolve('/project', name), name, content }));
+    const known = new Set(files.map(f => f.path));
+    const resolve = (from: string, specifier: string) => {
+        const target = path.resolve(path.dirname(from), specifier + '.ts');
+        return known.has(target) ? target : null;
+    };
+    return { files, resolve };
+}
+
+/**
+ * Sequence diagram lines of the function that contains `marker` in main.ts, without the header
+ */
+function sequenceOf(sources: Record<string, string>, marker: string, maxDepth = 3): string[] {
+    const { files, resolve } = project(sources);
+    const result = buildSequenceDiagram(files, resolve, '/project/main.ts', sources['main.ts'].indexOf(marker), maxDepth);
+    assert.ok(result);
+    return result.mermaid.trimEnd().split('\n').slice(1).map(l => l.slice(4));
+}
+
+const SERVICE = {
+    'main.ts': [
+        "import { UserService } from './service';",
+        "import { query } from './db';",
+        'export function handle(id: string) {',
+        '    new UserService();',
+        '    const user = query(id);',
+        '    if (!user) log(id);',
+        '    else audit(user);',
+        '}',
+        'function log(id: string) {}',
+        'function audit(user: string) {}'
+    ].join('\n'),
+    'service.ts': 'export class UserService {\n    constructor() { this.init(); }\n    init() {}\n}',
+    'db.ts': "export function query(sql: string) { return connect(); }\nfunction connect() { return lookup(); }\nfunction lookup() { return 'row'; }"
+};
+
+describe('buildSequenceDiagram', () => {
+    it('draws resolved calls in order, with participants per class and file', () => {
+        assert.deepStrictEqual(sequenceOf(SERVICE, 'new UserService'), [
+            'participant P0 as main.ts',
+            'participant P1 as UserService',
+            'participant P2 as db.ts',
+            'P0->>P1: new UserService()',
+            'activate P1',
+            '    P1->>P1: init()',
+            'deactivate P1',
+            'P0->>P2: query(id)',
+            'activate P2',
+            '    P2->>P2: connect()',
+            '    activate P2',
+            '        P2->>P2: lookup()',
+            '    deactivate P2',
+            'deactivate P2',
+            'alt !user',
+            '    P0->>P0: log(id)',
+            'else',
+            '    P0->>P0: audit(user)',
+            'end'
+        ]);
+    });
+
+    it('stops following calls at the maximum depth', () => {
+        const calls = (maxDepth: number) => sequenceOf(SERVICE, 'new UserService', maxDepth).filter(l => l.includes('->>')).map(l => l.trim());
+        assert.deepStrictEqual(calls(1), ['P0->>P1: new UserService()', 'P0->>P2: query(id)', 'P0->>P0: log(id)', 'P0->>P0: audit(user)']);
+        assert.deepStrictEqual(calls(2), ['P0->>P1: new UserService()', 'P1->>P1: init()', 'P0->>P2: query(id)', 'P2->>P2: connect()', 'P0->>P0: log(id)', 'P0->>P0: audit(user)']);
+    });
+
+    it('draws loops, iteration callbacks and recursion without following it again', () => {
+        const lines = sequenceOf({
+            'main.ts': [
+                'function step(n: number) {}',
+                'function walk(items: number[]) {',
+                '    for (const item of items) step(item);',
+                '    items.forEach(i => step(i));',
+                '    if (items.length) walk(items.slice(1));',
+                '}'
+            ].join('\n')
+        }, 'for (const');
+        assert.deepStrictEqual(lines.slice(1), [
+            'loop for (const item of items)',
+            '    P0->>P0: step(item)',
+            'end',
+            'loop items.forEach',
+            '    P0->>P0: step(i)',
+            'end',
+            'opt items.length',
+            '    P0->>P0: walk(items.slice(1))',
+            'end'
+        ]);
+    });
+
+    it('returns null outside a function', () => {
+        const { files, resolve } = project({ 'main.ts': 'const x = 1;\nfunction f() {}' });
+        assert.strictEqual(buildSequenceDiagram(files, resolve, '/project/main.ts', 3, 3), null);
+        assert.strictEqual(buildSequenceDiagram(files, resolve, '/project/other.ts', 0, 3), null);
+    });
+});
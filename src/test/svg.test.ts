@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { DEFAULT_CONFIG } from '../config';
+import { emitSvg } from '../emitters/svg';
+import { focusGraph } from '../focus';
+import { DependencyGraph, GraphEdge } from '../graph';
+
+/**
+ * A graph of files named `<id>.ts`; `a>b` imports file b, `a>pkg:x` the package x
+ */
+function graphOf(ids: string[], imports: string[]): DependencyGraph {
+    const edges: GraphEdge[] = imports.map(s => {
+        const [from, to] = s.split('>');
+        return to.startsWith('pkg:')
+            ? { from, to: `ext_${to.slice(4)}`, kind: 'external', specifier: to.slice(4), line: 1 }
+            : { from, to, kind: 'internal', specifier: `./${to}`, line: 1 };
+    });
+    return {
+        root: '/project',
+        files: ids.map(id => ({ id, path: `/project/${id}.ts`, name: `${id}.ts`, lineCount: 3, symbols: [], imports: [] })),
+        externals: [...new Set(edges.filter(e => e.kind === 'external').map(e => e.to))].map(id => ({ id, name: id.slice(4) })),
+        boundaries: [],
+        edges
+    };
+}
+
+const paths = (svg: string, className: string) => (svg.match(new RegExp(`<path class="${className}"`, 'g')) || []).length;
+
+describe('emitSvg', () => {
+    const graph = graphOf(['main', 'util', 'a', 'b'], ['main>util', 'main>pkg:lodash', 'a>b', 'b>a']);
+
+    it('draws a box per file, a pill per package and a path per import', () => {
+        const svg = emitSvg(graph, { ...DEFAULT_CONFIG, showBackbone: false, showStartEnd: false });
+        assert.match(svg, /^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" width="\d+" height="\d+"/);
+        for (const id of ['main', 'util', 'a', 'b', 'ext_lodash']) assert.match(svg, new RegExp(`<g id="${id}"`));
+        assert.match(svg, /<text[^>]*>lodash<\/text>/);
+        assert.strictEqual(paths(svg, 'edge'), 1);
+        assert.strictEqual(paths(svg, 'edge external'), 1);
+        assert.strictEqual(paths(svg, 'edge cycle'), 2);
+        assert.strictEqual(paths(svg, 'edge terminal'), 0);
+    });
+
+    it('marks the files of a cycle', () => {
+        const svg = emitSvg(graph, DEFAULT_CONFIG);
+        assert.strictEqual((svg.match(/class="cluster cycle"/g) || []).length, 2);
+    });
+
+    it('adds Start/End and the backbone only when they are on', () => {
+        const svg = emitSvg(graph, DEFAULT_CONFIG);
+        assert.match(svg, /<g id="StartNode">/);
+        assert.strictEqual(paths(svg, 'edge backbone'), 3);
+        assert.ok(paths(svg, 'edge terminal') > 0);
+        const bare = emitSvg(graph, { ...DEFAULT_CONFIG, showBackbone: false, showStartEnd: false });
+        assert.doesNotMatch(bare, /StartNode|edge backbone/);
+    });
+
+    it('escapes file names', () => {
+        const svg = emitSvg(graphOf(['x'], []), DEFAULT_CONFIG);
+        const named = emitSvg({ ...graphOf(['x'], []), files: [{ ...graphOf(['x'], []).files[0], name: '<a&b>.ts' }] }, DEFAULT_CONFIG);
+        assert.doesNotMatch(svg, /&(?!amp;|lt;|gt;|quot;|apos;)/);
+        assert.match(named, /&lt;a&amp;b&gt;\.ts/);
+    });
+
+    it('highlights the focused file and tells its dependencies apart from its dependents', () => {
+        const focused = focusGraph(graphOf(['page', 'app', 'util', 'log'], ['app>page', 'page>util', 'util>log']), 'page', { dependencies: 2, dependents: 1 })!;
+        const svg = emitSvg(focused, { ...DEFAULT_CONFIG, metric: 'lines' });
+        const classOf = (id: string) => svg.match(new RegExp(`<g id="${id}"[^]*?<rect class="([^"]*)"`))![1];
+        assert.deepStrictEqual(['page', 'util', 'log', 'app'].map(classOf), ['cluster focus', 'cluster dependency', 'cluster dependency', 'cluster dependent']);
+        assert.match(svg, /<g id="page">[^]*?<rect class="cluster focus" [^>]*height="\d+"\/>/);
+    });
+
+    it('adds a legend for the metric overlay', () => {
+        const svg = emitSvg(graph, { ...DEFAULT_CONFIG, metric: 'fanOut' });
+        assert.match(svg, /<g id="metricLegend"><text[^>]*>Fan-out:<\/text>/);
+    });
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { DEFAULT_CONFIG } from '../config';
+import { emitMermaid } from '../emitters/mermaid';
+import { buildWorkspaceGraph, crossRootEdges, WorkspaceRoot } from '../graph';
+import { readFolderRecursive } from '../scanner';
+import { makeTree } from './helpers';
+
+describe('buildWorkspaceGraph', () => {
+    const root = makeTree({
+        'web/src/app.ts': "import { log } from '../../shared/src/log';\nimport { h } from './view';\nimport React from 'react';\n",
+        'web/src/view.ts': 'export const h = 1;\n',
+        'shared/src/log.ts': 'export function log() {}\n',
+        'other/web/index.ts': "import { log } from '../../shared/src/log';\n"
+    });
+    const scanRoots = (folders: string[]): Promise<WorkspaceRoot[]> => Promise.all(folders.map(async folder => {
+        const folderPath = path.join(root, ...folder.split('/'));
+        return { name: path.basename(folderPath), path: folderPath, files: await readFolderRecursive(folderPath) };
+    }));
+
+    it('builds a plain graph for a single root', async () => {
+        const graph = buildWorkspaceGraph(await scanRoots(['web']));
+        assert.strictEqual(graph.roots, undefined);
+        assert.strictEqual(graph.root, path.join(root, 'web'));
+        assert.deepStrictEqual(graph.files.map(f => f.name).sort(), ['web/src/app.ts', 'web/src/view.ts']);
+        assert.ok(graph.files.every(f => f.root === undefined));
+    });
+
+    it('names files after their root and renames roots that share a folder name', async () => {
+        const graph = buildWorkspaceGraph(await scanRoots(['web', 'shared', 'other/web']));
+        assert.strictEqual(graph.root, root);
+        assert.deepStrictEqual(graph.roots!.map(r => [r.id, r.name]), [['root_web', 'web'], ['root_shared', 'shared'], ['root_web_2', 'web-2']]);
+        assert.deepStrictEqual(graph.files.map(f => [f.name, f.root]).sort(), [
+            ['shared/src/log.ts', 'root_shared'],
+            ['web-2/index.ts', 'root_web_2'],
+            ['web/src/app.ts', 'root_web'],
+            ['web/src/view.ts', 'root_web']
+        ]);
+    });
+
+    it('links imports across roots and tells them apart from imports within one', async () => {
+        const graph = buildWorkspaceGraph(await scanRoots(['web', 'shared', 'other/web']));
+        const edge = (e: { from: string, to: string }) => `${e.from}>${e.to}`;
+        assert.deepStrictEqual(graph.edges.map(e => `${edge(e)}:${e.kind}`).sort(), [
+            'web_2_index_ts>shared_src_log_ts:internal',
+            'web_src_app_ts>ext_react:external',
+            'web_src_app_ts>shared_src_log_ts:internal',
+            'web_src_app_ts>web_src_view_ts:internal'
+        ]);
+        assert.deepStrictEqual([...crossRootEdges(graph)].map(edge).sort(), [
+            'web_2_index_ts>shared_src_log_ts',
+            'web_src_app_ts>shared_src_log_ts'
+        ]);
+    });
+
+    it('draws a subgraph per root around its files', async () => {
+        const chart = emitMermaid(buildWorkspaceGraph(await scanRoots(['web', 'shared'])), DEFAULT_CONFIG);
+        const rootBlock = chart.slice(chart.indexOf('subgraph root_shared['), chart.indexOf('subgraph root_shared[') + 200);
+        assert.match(chart, /subgraph root_web\["web"\]/);
+        assert.match(rootBlock, /subgraph shared_src_log_ts/);
+        assert.doesNotMatch(rootBlock.slice(0, rootBlock.indexOf('\n    end\n')), /web_src/);
+    });
+});